@@ -0,0 +1,324 @@
+/**
+ * Animation optimization stage run before the mesh codec
+ * Strips animations, or resamples them to a target framerate, prunes redundant keyframes
+ * and quantizes rotation, translation and scale outputs
+ */
+
+import { Accessor, AnimationSampler, Document } from "@gltf-transform/core";
+import { resample } from "@gltf-transform/functions";
+import type { AnimationOptimizationOptions, AnimationOptimizationReport } from './compressionUtils.js';
+
+// Significant bits kept in float32 translation and scale outputs (float32 has 24)
+const ANIMATION_FLOAT_BITS = 16;
+const INT16_MAX = 32767;
+
+/**
+ * Check whether any animation step is enabled
+ * @param options - Animation optimization options
+ * @returns True if the stage may change the document
+ */
+export const hasAnimationOptimization = (options: AnimationOptimizationOptions): boolean => {
+  return options.stripAnimations || options.animationFps > 0 || options.keyframeTolerance > 0 || options.quantizeAnimation;
+};
+
+/**
+ * Count keyframes and stored bytes of all animation samplers; shared accessors are counted once
+ */
+const measureAnimations = (document: Document) => {
+  const accessors = new Set<Accessor>();
+  let channels = 0;
+  let keyframes = 0;
+  for (const animation of document.getRoot().listAnimations()) {
+    channels += animation.listChannels().length;
+    for (const sampler of animation.listSamplers()) {
+      const input = sampler.getInput();
+      const output = sampler.getOutput();
+      if (input) {
+        accessors.add(input);
+        keyframes += input.getCount();
+      }
+      if (output) accessors.add(output);
+    }
+  }
+  const bytes = Array.from(accessors).reduce((sum, accessor) => sum + accessor.getByteLength(), 0);
+  return { channels, keyframes, bytes };
+};
+
+/**
+ * Read an accessor as a flat float array, decoding normalized (quantized) storage
+ */
+const readFloats = (accessor: Accessor): Float32Array => {
+  const elementSize = accessor.getElementSize();
+  const out = new Float32Array(accessor.getCount() * elementSize);
+  const element: number[] = [];
+  for (let i = 0; i < accessor.getCount(); i++) {
+    out.set(accessor.getElement(i, element), i * elementSize);
+  }
+  return out;
+};
+
+/**
+ * Spherical interpolation between two unit quaternions, along the shorter arc
+ */
+const slerp = (out: Float32Array, offset: number, a: Float32Array, aOffset: number, b: Float32Array, bOffset: number, t: number) => {
+  let dot = 0;
+  for (let i = 0; i < 4; i++) dot += a[aOffset + i] * b[bOffset + i];
+  const sign = dot < 0 ? -1 : 1;
+  dot *= sign;
+
+  let scaleA = 1 - t;
+  let scaleB = t;
+  // Nearly parallel quaternions fall back to a normalized lerp
+  if (dot < 0.9995) {
+    const theta = Math.acos(dot);
+    const sinTheta = Math.sin(theta);
+    scaleA = Math.sin((1 - t) * theta) / sinTheta;
+    scaleB = Math.sin(t * theta) / sinTheta;
+  }
+
+  let length = 0;
+  for (let i = 0; i < 4; i++) {
+    out[offset + i] = scaleA * a[aOffset + i] + scaleB * sign * b[bOffset + i];
+    length += out[offset + i] * out[offset + i];
+  }
+  length = Math.sqrt(length) || 1;
+  for (let i = 0; i < 4; i++) out[offset + i] /= length;
+};
+
+/**
+ * Evaluate a sampler at the given times.
+ * CUBICSPLINE outputs store [in-tangent, value, out-tangent] per keyframe and are evaluated
+ * as Hermite curves; the samples are meant to be played back with LINEAR interpolation.
+ */
+const sampleChannel = (
+  times: Float32Array,
+  values: Float32Array,
+  interpolation: ReturnType<AnimationSampler['getInterpolation']>,
+  isRotation: boolean,
+  sampleTimes: Float32Array
+): Float32Array => {
+  const cubic = interpolation === 'CUBICSPLINE';
+  const keyCount = times.length;
+  // Rotations have 4 components; morph weights have one per target
+  const stride = values.length / keyCount / (cubic ? 3 : 1);
+  const valueAt = (key: number) => cubic ? key * stride * 3 + stride : key * stride;
+  const out = new Float32Array(sampleTimes.length * stride);
+
+  let key = 0;
+  for (let s = 0; s < sampleTimes.length; s++) {
+    const time = sampleTimes[s];
+    while (key < keyCount - 2 && times[key + 1] <= time) key++;
+
+    const t0 = times[key];
+    const t1 = times[key + 1];
+    const offset = s * stride;
+
+    if (time <= t0 || interpolation === 'STEP' || t1 === t0) {
+      const from = interpolation === 'STEP' && time >= t1 ? key + 1 : key;
+      out.set(values.subarray(valueAt(from), valueAt(from) + stride), offset);
+      continue;
+    }
+    if (time >= t1) {
+      out.set(values.subarray(valueAt(key + 1), valueAt(key + 1) + stride), offset);
+      continue;
+    }
+
+    const t = (time - t0) / (t1 - t0);
+    if (cubic) {
+      const dt = t1 - t0;
+      const t2 = t * t;
+      const t3 = t2 * t;
+      const outTangent = valueAt(key) + stride;
+      const inTangent = valueAt(key + 1) - stride;
+      for (let i = 0; i < stride; i++) {
+        out[offset + i] = (2 * t3 - 3 * t2 + 1) * values[valueAt(key) + i]
+          + (t3 - 2 * t2 + t) * dt * values[outTangent + i]
+          + (-2 * t3 + 3 * t2) * values[valueAt(key + 1) + i]
+          + (t3 - t2) * dt * values[inTangent + i];
+      }
+      if (isRotation) {
+        const length = Math.hypot(out[offset], out[offset + 1], out[offset + 2], out[offset + 3]) || 1;
+        for (let i = 0; i < 4; i++) out[offset + i] /= length;
+      }
+    } else if (isRotation) {
+      slerp(out, offset, values, valueAt(key), values, valueAt(key + 1), t);
+    } else {
+      for (let i = 0; i < stride; i++) {
+        out[offset + i] = values[valueAt(key) + i] * (1 - t) + values[valueAt(key + 1) + i] * t;
+      }
+    }
+  }
+
+  return out;
+};
+
+/**
+ * Resample every sampler onto a fixed framerate grid spanning its first to last keyframe.
+ * Samplers are only resampled when the grid has fewer keyframes than the source, so sparse
+ * hand-keyed animations are left as they are.
+ * @returns Number of samplers resampled
+ */
+const resampleToFramerate = (document: Document, fps: number): number => {
+  // Samplers sharing an input accessor share the resampled grid as well
+  const grids = new Map<Accessor, Accessor>();
+  let resampled = 0;
+
+  for (const animation of document.getRoot().listAnimations()) {
+    const targetPaths = new Map<AnimationSampler, string | null>();
+    for (const channel of animation.listChannels()) {
+      if (channel.getSampler()) targetPaths.set(channel.getSampler()!, channel.getTargetPath());
+    }
+
+    for (const sampler of animation.listSamplers()) {
+      const input = sampler.getInput();
+      const output = sampler.getOutput();
+      if (!input || !output || input.getCount() < 2) continue;
+
+      const times = readFloats(input);
+      const start = times[0];
+      const end = times[times.length - 1];
+      const frameCount = Math.round((end - start) * fps) + 1;
+      if (frameCount >= input.getCount()) continue;
+
+      let grid = grids.get(input);
+      if (!grid) {
+        const gridTimes = new Float32Array(frameCount);
+        for (let i = 0; i < frameCount; i++) {
+          gridTimes[i] = start + i / fps;
+        }
+        // The last frame lands exactly on the end so the clip keeps its duration
+        gridTimes[frameCount - 1] = end;
+        grid = document.createAccessor().setType('SCALAR').setBuffer(input.getBuffer()).setArray(gridTimes);
+        grids.set(input, grid);
+      }
+
+      const interpolation = sampler.getInterpolation();
+      const values = sampleChannel(times, readFloats(output), interpolation, targetPaths.get(sampler) === 'rotation', grid.getArray() as Float32Array);
+      sampler
+        .setInput(grid)
+        .setOutput(document.createAccessor().setType(output.getType()).setBuffer(output.getBuffer()).setArray(values))
+        .setInterpolation(interpolation === 'STEP' ? 'STEP' : 'LINEAR');
+      resampled++;
+    }
+  }
+
+  return resampled;
+};
+
+/**
+ * Round a float to the given number of significant bits, clearing the low mantissa bits.
+ * The value stays float32, but the repeated bit patterns compress far better.
+ */
+const roundMantissa = (array: Float32Array, bits: number): Float32Array => {
+  const out = new Float32Array(array);
+  const words = new Uint32Array(out.buffer);
+  const drop = 24 - bits;
+  const mask = ~((1 << drop) - 1);
+  for (let i = 0; i < words.length; i++) {
+    // Infinity and NaN have an all-ones exponent and are left alone
+    if ((words[i] & 0x7f800000) === 0x7f800000) continue;
+    words[i] = ((words[i] + (1 << (drop - 1))) & mask) >>> 0;
+  }
+  return out;
+};
+
+/**
+ * Quantize rotation, translation and scale outputs.
+ * Rotations become normalized int16, which glTF allows for rotation outputs; translation and
+ * scale must stay float32, so only their precision is reduced.
+ * @returns Number of samplers quantized
+ */
+const quantizeAnimationOutputs = (document: Document): number => {
+  let quantized = 0;
+
+  for (const animation of document.getRoot().listAnimations()) {
+    for (const channel of animation.listChannels()) {
+      const sampler = channel.getSampler();
+      const output = sampler?.getOutput();
+      const path = channel.getTargetPath();
+      if (!sampler || !output || output.getComponentType() !== Accessor.ComponentType.FLOAT) continue;
+
+      if (path === 'rotation') {
+        // Cubic spline tangents are not unit length and may fall outside [-1, 1]
+        if (sampler.getInterpolation() === 'CUBICSPLINE') continue;
+        const values = readFloats(output);
+        const shorts = new Int16Array(values.length);
+        for (let i = 0; i < values.length; i += 4) {
+          const length = Math.hypot(values[i], values[i + 1], values[i + 2], values[i + 3]) || 1;
+          for (let j = 0; j < 4; j++) {
+            shorts[i + j] = Math.round(values[i + j] / length * INT16_MAX);
+          }
+        }
+        sampler.setOutput(document.createAccessor()
+          .setType('VEC4')
+          .setBuffer(output.getBuffer())
+          .setNormalized(true)
+          .setArray(shorts));
+        quantized++;
+      } else if (path === 'translation' || path === 'scale') {
+        sampler.setOutput(document.createAccessor()
+          .setType('VEC3')
+          .setBuffer(output.getBuffer())
+          .setArray(roundMantissa(readFloats(output), ANIMATION_FLOAT_BITS)));
+        quantized++;
+      }
+    }
+  }
+
+  return quantized;
+};
+
+/**
+ * Strip or optimize the animations of a document.
+ * Replaced accessors are left for the following prune() to remove.
+ * @param document - The glTF document to modify in place
+ * @param options - Animation optimization options
+ * @returns Report with the steps applied and keyframe and byte counts before and after
+ */
+export const optimizeAnimations = async (
+  document: Document,
+  options: AnimationOptimizationOptions
+): Promise<AnimationOptimizationReport> => {
+  const animations = document.getRoot().listAnimations();
+  const before = measureAnimations(document);
+  const steps: string[] = [];
+
+  if (options.stripAnimations) {
+    if (animations.length > 0) {
+      animations.forEach(animation => animation.dispose());
+      steps.push(`stripped ${animations.length} animations`);
+    }
+  } else if (animations.length > 0) {
+    if (options.animationFps > 0) {
+      const resampled = resampleToFramerate(document, options.animationFps);
+      steps.push(`resampled ${resampled} samplers to ${options.animationFps} fps`);
+    }
+
+    if (options.keyframeTolerance > 0) {
+      // Removes keyframes that LINEAR or STEP interpolation of their neighbours reproduces
+      await document.transform(resample({ tolerance: options.keyframeTolerance }));
+      steps.push(`pruned keyframes within ${options.keyframeTolerance}`);
+    }
+
+    if (options.quantizeAnimation) {
+      const quantized = quantizeAnimationOutputs(document);
+      steps.push(`quantized ${quantized} samplers`);
+    }
+  }
+
+  const after = measureAnimations(document);
+  const report: AnimationOptimizationReport = {
+    steps,
+    animations: animations.length,
+    channels: before.channels,
+    keyframesBefore: before.keyframes,
+    keyframesAfter: after.keyframes,
+    bytesBefore: before.bytes,
+    bytesAfter: after.bytes
+  };
+
+  console.log(`Animation optimization: ${steps.join(', ') || 'no animations'}`);
+  console.log(`Animation keyframes: ${report.keyframesBefore} -> ${report.keyframesAfter}, bytes: ${report.bytesBefore} -> ${report.bytesAfter}`);
+
+  return report;
+};
@@ -0,0 +1,220 @@
+/**
+ * Vertex attribute pruning stage run before the mesh codec
+ * Removes attributes that prune() keeps because they are referenced, but that never affect
+ * rendering: texture coordinate sets no texture reads, uniform white vertex colors and
+ * morph targets without any deltas
+ */
+
+import { Accessor, Document, Material, Mesh, Node, Primitive } from "@gltf-transform/core";
+import { listTextureInfoByMaterial } from "@gltf-transform/functions";
+import type { MappingList, Transform as TextureTransform } from "@gltf-transform/extensions";
+import type { AttributePruningReport, RemovedAttributeReport } from './compressionUtils.js';
+
+// Normalized 8-bit white decodes to exactly 1; the slack covers float colors written as 0.99999
+const WHITE_TOLERANCE = 1e-4;
+
+/**
+ * Materials a primitive can render with, including KHR_materials_variants alternatives
+ */
+const listPrimitiveMaterials = (primitive: Primitive): Material[] => {
+  const materials: Material[] = [];
+  const material = primitive.getMaterial();
+  if (material) materials.push(material);
+  const variants = primitive.getExtension<MappingList>('KHR_materials_variants');
+  for (const mapping of variants?.listMappings() ?? []) {
+    const variantMaterial = mapping.getMaterial();
+    if (variantMaterial) materials.push(variantMaterial);
+  }
+  return materials;
+};
+
+/**
+ * Texture coordinate sets read by the primitive's materials
+ */
+const listUsedTexCoords = (primitive: Primitive): Set<number> => {
+  const used = new Set<number>();
+  for (const material of listPrimitiveMaterials(primitive)) {
+    for (const info of listTextureInfoByMaterial(material)) {
+      used.add(info.getTexCoord());
+      // KHR_texture_transform may redirect the texture to another set
+      const override = info.getExtension<TextureTransform>('KHR_texture_transform')?.getTexCoord();
+      if (override !== null && override !== undefined) used.add(override);
+    }
+  }
+  return used;
+};
+
+const isUniformWhite = (accessor: Accessor): boolean => {
+  const element: number[] = [];
+  for (let i = 0; i < accessor.getCount(); i++) {
+    if (accessor.getElement(i, element).some(value => Math.abs(value - 1) > WHITE_TOLERANCE)) {
+      return false;
+    }
+  }
+  return true;
+};
+
+const isAllZero = (accessor: Accessor): boolean => {
+  const element: number[] = [];
+  for (let i = 0; i < accessor.getCount(); i++) {
+    if (accessor.getElement(i, element).some(value => value !== 0)) {
+      return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * Dispose an accessor once nothing but the root references it
+ */
+const disposeIfUnused = (accessor: Accessor): void => {
+  if (accessor.listParents().length === 1) accessor.dispose();
+};
+
+/**
+ * Remove the given semantic from a primitive and its morph targets
+ */
+const removeAttribute = (primitive: Primitive, semantic: string): void => {
+  const accessor = primitive.getAttribute(semantic)!;
+  primitive.setAttribute(semantic, null);
+  disposeIfUnused(accessor);
+  for (const target of primitive.listTargets()) {
+    const delta = target.getAttribute(semantic);
+    if (delta) {
+      target.setAttribute(semantic, null);
+      disposeIfUnused(delta);
+    }
+  }
+};
+
+/**
+ * Remove removable sets of one indexed semantic (TEXCOORD_n, COLOR_n), highest first.
+ * glTF requires set indices to be consecutive from 0, so removal stops at the first set kept.
+ */
+const pruneSets = (
+  primitive: Primitive,
+  prefix: 'TEXCOORD_' | 'COLOR_',
+  reasonFor: (set: number, accessor: Accessor) => string | null,
+  onRemove: (semantic: string, reason: string) => void
+): void => {
+  const sets = primitive.listSemantics()
+    .filter(semantic => semantic.startsWith(prefix))
+    .map(semantic => Number(semantic.slice(prefix.length)))
+    .sort((a, b) => b - a);
+
+  for (const set of sets) {
+    const semantic = `${prefix}${set}`;
+    const reason = reasonFor(set, primitive.getAttribute(semantic)!);
+    if (!reason) break;
+    removeAttribute(primitive, semantic);
+    onRemove(semantic, reason);
+  }
+};
+
+/**
+ * Remove one morph target index from a mesh, its default weights, the weights of nodes using
+ * the mesh and weights animations targeting those nodes. Target names are written from the
+ * remaining targets, so they need no update.
+ */
+const removeMorphTarget = (document: Document, mesh: Mesh, index: number, targetCount: number): void => {
+  for (const primitive of mesh.listPrimitives()) {
+    const target = primitive.listTargets()[index];
+    primitive.removeTarget(target);
+    const accessors = target.listAttributes();
+    target.dispose();
+    accessors.forEach(disposeIfUnused);
+  }
+
+  const withoutIndex = <T>(values: T[]): T[] => values.filter((_, i) => i !== index);
+  if (mesh.getWeights().length === targetCount) {
+    mesh.setWeights(withoutIndex(mesh.getWeights()));
+  }
+  const nodes = mesh.listParents().filter((parent): parent is Node => parent instanceof Node);
+  for (const node of nodes) {
+    if (node.getWeights().length === targetCount) {
+      node.setWeights(withoutIndex(node.getWeights()));
+    }
+  }
+
+  // Weights outputs hold one value per target for every keyframe (and tangent, for cubic splines)
+  const outputs = new Set<Accessor>();
+  for (const animation of document.getRoot().listAnimations()) {
+    for (const channel of animation.listChannels()) {
+      const output = channel.getSampler()?.getOutput();
+      if (channel.getTargetPath() !== 'weights' || !output || !nodes.includes(channel.getTargetNode()!)) continue;
+      if (outputs.has(output)) continue;
+      outputs.add(output);
+
+      const source = output.getArray()!;
+      const TypedArray = source.constructor as new (length: number) => typeof source;
+      const target = new TypedArray(source.length / targetCount * (targetCount - 1));
+      let write = 0;
+      for (let read = 0; read < source.length; read++) {
+        if (read % targetCount !== index) target[write++] = source[read];
+      }
+      output.setArray(target);
+    }
+  }
+
+  // With no targets left, weights animations drive nothing
+  if (targetCount === 1) {
+    for (const animation of document.getRoot().listAnimations()) {
+      for (const channel of animation.listChannels()) {
+        if (channel.getTargetPath() === 'weights' && nodes.includes(channel.getTargetNode()!)) {
+          const sampler = channel.getSampler();
+          channel.dispose();
+          if (sampler && !animation.listChannels().some(other => other.getSampler() === sampler)) {
+            const accessors = [sampler.getInput(), sampler.getOutput()];
+            sampler.dispose();
+            accessors.forEach(accessor => accessor && disposeIfUnused(accessor));
+          }
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Drop texture coordinate sets no material reads, uniform white vertex colors and empty morph targets.
+ * Removed accessors are disposed when no other primitive uses them.
+ * @param document - The glTF document to modify in place
+ * @returns Report listing every attribute and morph target removed
+ */
+export const pruneVertexAttributes = (document: Document): AttributePruningReport => {
+  const removed: RemovedAttributeReport[] = [];
+
+  document.getRoot().listMeshes().forEach((mesh, meshIndex) => {
+    const meshName = mesh.getName() || `mesh_${meshIndex}`;
+    const primitives = mesh.listPrimitives();
+
+    primitives.forEach((primitive, index) => {
+      const record = (attribute: string, reason: string) => removed.push({ mesh: meshName, primitive: index, attribute, reason });
+
+      const usedTexCoords = listUsedTexCoords(primitive);
+      pruneSets(primitive, 'TEXCOORD_', set => usedTexCoords.has(set) ? null : "not used by any material texture", record);
+      pruneSets(primitive, 'COLOR_', (_, accessor) => isUniformWhite(accessor) ? "uniform white" : null, record);
+    });
+
+    // Target indices are shared by all primitives of a mesh, so a target is only empty if it is empty everywhere
+    const targetCount = Math.max(0, ...primitives.map(primitive => primitive.listTargets().length));
+    for (let target = targetCount - 1; target >= 0; target--) {
+      // Higher targets may already be gone, so compare against the current count
+      const currentCount = primitives[0].listTargets().length;
+      const empty = primitives.every(primitive => {
+        const targets = primitive.listTargets();
+        return targets.length === currentCount && targets[target].listAttributes().every(isAllZero);
+      });
+      if (!empty) continue;
+
+      removeMorphTarget(document, mesh, target, currentCount);
+      primitives.forEach((_, index) => removed.push({ mesh: meshName, primitive: index, attribute: `target_${target}`, reason: "all deltas are zero" }));
+    }
+  });
+
+  console.log(`Attribute pruning: removed ${removed.length} attributes and morph targets`);
+  for (const entry of removed) {
+    console.log(`  ${entry.mesh}[${entry.primitive}] ${entry.attribute}: ${entry.reason}`);
+  }
+
+  return { removed };
+};
@@ -28,14 +28,285 @@ export interface TextureCompressionOptions {
   flipY?: boolean;
 }
 
+/**
+ * What a texture holds, derived from the material slots referencing it:
+ * 'color' (base color, emissive, ...), 'normal' (normal and clearcoat normal maps),
+ * 'data' (occlusion, metallic-roughness and other linear data) or 'unknown' (unreferenced)
+ */
+export type TextureRole = 'color' | 'normal' | 'data' | 'unknown';
+
+/**
+ * Transfer function a texture is stored with: sRGB for color, linear for everything else
+ */
+export type TextureColorSpace = 'linear' | 'srgb';
+
+/**
+ * Color space overrides keyed by texture name, texture URI or role ("color", "normal", "data", "unknown").
+ * Name and URI entries take precedence over role entries.
+ */
+export type ColorSpaceOverrides = Record<string, TextureColorSpace>;
+
+/**
+ * How one texture of a glTF file was compressed
+ */
+export interface TextureReport {
+  texture: string; // Texture name, or "texture_<index>" when unnamed
+  role: TextureRole;
+  slots: string[]; // Material slots referencing the texture
+  format: string; // ETC1S, UASTC_4x4, webp or avif
+  oetf: TextureColorSpace;
+  vkFormat?: string; // KTX2 only: R8G8B8A8_SRGB or R8G8B8A8_UNORM
+  width?: number; // Output dimensions after the resize policy
+  height?: number;
+  sourceWidth?: number;
+  sourceHeight?: number;
+  colorSpaceSource: 'role' | 'override' | 'default'; // Where oetf came from
+}
+
+/**
+ * Geometry optimization steps run before the mesh codec; each step is optional
+ */
+export interface GeometryOptimizationOptions {
+  weld: boolean; // Merge vertices with identical attributes
+  weldTolerance: number; // Position tolerance as a fraction of the primitive's bounding box diagonal (0 = exact)
+  vertexCache: boolean; // Reorder triangles for post-transform vertex cache hits
+  overdraw: boolean; // Reorder triangle clusters so outward-facing surfaces draw first
+  vertexFetch: boolean; // Reorder vertices in first-use order for memory locality
+}
+
+/**
+ * Report describing what geometry optimization changed
+ */
+export interface GeometryOptimizationReport {
+  steps: string[];
+  vertexCountBefore: number;
+  vertexCountAfter: number;
+  primitivesOptimized: number;
+  primitivesSkipped: number; // Non-triangle primitives are left untouched
+}
+
+/**
+ * Coordinate system and unit normalization applied before geometry optimization and the codec
+ */
+export interface SceneNormalizationOptions {
+  upAxis: 'y' | 'z'; // Up axis of the source asset; 'z' rotates it to glTF's Y-up
+  unitScale: number; // Multiplier to meters, e.g. 0.01 for centimeters
+  recenter: 'none' | 'origin' | 'ground'; // 'ground' centers horizontally and places the base at y = 0
+  fitSize: number; // Scale so the largest bounding box dimension equals this size (0 = keep size)
+  normalizeMode: 'root' | 'bake'; // Add a root transform, or bake the transform into vertices
+}
+
+/**
+ * Report describing the normalization applied
+ */
+export interface SceneNormalizationReport {
+  steps: string[];
+  mode: SceneNormalizationOptions['normalizeMode']; // Mode actually used
+  scale: number; // Combined unit and fit scale
+  boundsBefore: { min: [number, number, number]; max: [number, number, number] };
+  boundsAfter: { min: [number, number, number]; max: [number, number, number] };
+  fallbackReason?: string; // Why 'bake' fell back to 'root'
+}
+
+/**
+ * Generation of missing vertex attributes, run after normalization and before the codec
+ */
+export interface VertexAttributeGenerationOptions {
+  generateNormals: boolean; // Add smooth normals to triangle primitives without NORMAL
+  normalAngle: number; // Degrees; faces meeting at a sharper angle keep a hard edge
+  generateTangents: boolean; // Add MikkTSpace tangents to normal-mapped primitives without TANGENT
+}
+
+/**
+ * Report describing the vertex attributes generated
+ */
+export interface VertexAttributeGenerationReport {
+  normalsGenerated: number; // Primitives that received NORMAL
+  tangentsGenerated: number; // Primitives that received TANGENT
+  skipped: SkippedPrimitiveReport[]; // Primitives that needed an attribute but could not receive it
+}
+
+/**
+ * An attribute or morph target removed by attribute pruning, and why
+ */
+export interface RemovedAttributeReport {
+  mesh: string; // Mesh name, or "mesh_<index>" when unnamed
+  primitive: number;
+  attribute: string; // e.g. TEXCOORD_1, COLOR_0, or target_<index> for a morph target
+  reason: string;
+}
+
+/**
+ * Report describing the attributes removed by attribute pruning
+ */
+export interface AttributePruningReport {
+  removed: RemovedAttributeReport[];
+}
+
+/**
+ * Animation data optimization, run before scene normalization
+ */
+export interface AnimationOptimizationOptions {
+  stripAnimations: boolean; // Remove all animations; the other animation options are then ignored
+  animationFps: number; // Resample keyframes to this framerate (0 = keep the source timing)
+  keyframeTolerance: number; // Drop keyframes their neighbours reproduce within this tolerance, in channel units (0 = keep all)
+  quantizeAnimation: boolean; // Store rotations as normalized int16 and reduce translation/scale precision
+}
+
+/**
+ * Report describing the animation optimization applied
+ */
+export interface AnimationOptimizationReport {
+  steps: string[];
+  animations: number; // Animations in the input
+  channels: number;
+  keyframesBefore: number; // Sum of sampler keyframe counts
+  keyframesAfter: number;
+  bytesBefore: number; // Sampler input and output accessors, shared accessors counted once
+  bytesAfter: number;
+}
+
 /**
  * Compression options for mesh compression
  */
-export interface MeshCompressionOptions {
+export interface MeshCompressionOptions extends GeometryOptimizationOptions, SceneNormalizationOptions, VertexAttributeGenerationOptions, AnimationOptimizationOptions {
+  // 'quantize' writes KHR_mesh_quantization only, with no entropy codec (no decoder required);
+  // 'none' applies no codec, e.g. to ship geometry optimization only
+  codec: 'draco' | 'meshopt' | 'quantize' | 'none';
+  // Draco-specific settings
   method: 'edgebreaker' | 'sequential';
   encodeSpeed: number; // 0-10, 0 = slowest/best compression
   decodeSpeed: number; // 0-10, 0 = slowest/best compression
   quantizationVolume: 'mesh' | 'scene';
+  // Meshopt-specific settings: 'filter' applies octahedral/quaternion filters (smaller output),
+  // 'quantize' only quantizes attributes before compression
+  meshoptMethod: 'quantize' | 'filter';
+  // Quantization bits per attribute type (Draco: 0-30, 0 = lossless; meshopt and quantize: 8-16)
+  quantizePosition: number;
+  quantizeNormal: number;
+  quantizeTexcoord: number;
+  quantizeColor: number;
+  quantizeGeneric: number;
+  // Decode existing Draco/meshopt geometry and re-compress it instead of skipping the file
+  reencode: boolean;
+  // Largest allowed position deviation as a fraction of the mesh bounding box diagonal (0 = no guard);
+  // when exceeded, compression is retried with more position bits
+  maxError: number;
+  // Measure geometry error on the decoded output even without a maxError guard
+  reportErrorMetrics: boolean;
+  // Drop texture coordinate sets no material reads, uniform white vertex colors and empty morph targets
+  pruneAttributes: boolean;
+}
+
+/**
+ * Stored size of one primitive before and after re-encoding
+ */
+export interface PrimitiveSizeReport {
+  mesh: string; // Mesh name, or "mesh_<index>" when unnamed
+  primitive: number;
+  beforeBytes: number;
+  afterBytes: number | null; // null when the primitive no longer exists in the output
+}
+
+/**
+ * A primitive the codec left uncompressed, and why
+ */
+export interface SkippedPrimitiveReport {
+  mesh: string; // Mesh name, or "mesh_<index>" when unnamed
+  primitive: number;
+  reason: string;
+}
+
+/**
+ * Skinned and morph-target handling applied during mesh compression
+ */
+export interface DeformationReport {
+  skinnedPrimitives: number; // Primitives with JOINTS_0/WEIGHTS_0
+  morphPrimitives: number; // Primitives with morph targets
+  weightsNormalized: number; // Skinned primitives whose weights were renormalized after quantization; Draco-encoded primitives are not counted
+  sparseMorphAccessors: number; // Morph target accessors stored sparsely
+}
+
+/**
+ * POINTS primitives found during mesh compression
+ */
+export interface PointCloudReport {
+  primitives: number;
+  points: number;
+  primitivesCompressed: number; // Encoded as Draco point clouds
+}
+
+/**
+ * Geometry error of one mesh, measured on the decoded output
+ */
+export interface MeshErrorMetrics {
+  mesh: string; // Mesh name, or "mesh_<index>" when unnamed
+  vertexCount: number; // Output vertices compared
+  maxPositionError: number; // Fraction of the mesh's bounding box diagonal
+  meanPositionError: number;
+  maxNormalError: number | null; // Degrees; null when the mesh has no normals
+  meanNormalError: number | null;
+  maxUVError: number | null; // TEXCOORD_0 distance in UV units; null without TEXCOORD_0
+  meanUVError: number | null;
+}
+
+/**
+ * Geometry error introduced by mesh compression
+ */
+export interface GeometryErrorReport {
+  meshes: MeshErrorMetrics[];
+  maxPositionError: number;
+  maxNormalError: number | null;
+  maxUVError: number | null;
+  attempts: number; // Encodings tried; more than 1 when maxError triggered retries
+  quantizePosition: number; // Position bits used for the returned output
+  maxErrorExceeded?: boolean; // maxError was still exceeded after the last retry
+}
+
+/**
+ * Report describing what mesh compression applied
+ */
+export interface MeshCompressionReport {
+  codec: MeshCompressionOptions['codec'];
+  meshCompressed: boolean;
+  quantized: boolean; // KHR_mesh_quantization present in the output
+  reencoded?: boolean; // Existing compressed geometry was decoded and re-compressed
+  optimization?: GeometryOptimizationReport; // Present when any geometry optimization step ran
+  normalization?: SceneNormalizationReport; // Present when any normalization step ran
+  attributes?: VertexAttributeGenerationReport; // Present when normal or tangent generation ran
+  animation?: AnimationOptimizationReport; // Present when any animation step ran
+  attributePruning?: AttributePruningReport; // Present when pruneAttributes ran
+  primitiveSizes?: PrimitiveSizeReport[]; // Present when reencoded
+  deformation?: DeformationReport; // Present when the file has skinned or morph-target primitives
+  pointCloud?: PointCloudReport; // Present when the file has POINTS primitives
+  primitivesSkipped?: SkippedPrimitiveReport[]; // Primitives the codec left uncompressed
+  errorMetrics?: GeometryErrorReport; // Present with maxError or reportErrorMetrics when compressed output was written
+  skippedReason?: string;
+}
+
+/**
+ * Mesh compression output with its report
+ */
+export interface MeshCompressionResult {
+  buffer: ArrayBuffer;
+  report: MeshCompressionReport;
+}
+
+/**
+ * Report describing what mesh decompression removed
+ */
+export interface MeshDecompressionReport {
+  decodedExtensions: string[]; // e.g. KHR_draco_mesh_compression, EXT_meshopt_compression
+  primitivesDecoded: number; // Primitives that were stored with Draco
+  skippedReason?: string;
+}
+
+/**
+ * Mesh decompression output with its report
+ */
+export interface MeshDecompressionResult {
+  buffer: ArrayBuffer;
+  report: MeshDecompressionReport;
 }
 
 /**
@@ -46,6 +317,9 @@ export interface CompressionResult {
   stats: CompressionStats;
   meshCompressed: boolean;
   textureCompressed: boolean;
+  meshReport?: MeshCompressionReport;
+  texturesProcessed?: number; // Present when textures were compressed
+  textureReports?: TextureReport[]; // Present when textures were compressed
   errors?: string[];
 }
 
@@ -88,6 +362,12 @@ export const logCompressionStats = (stats: CompressionStats, operation: string):
  * @returns Boolean indicating if Draco compression is already applied
  */
 export const isDracoCompressed = (document: Document): boolean => {
+  // When a Draco decoder is registered, primitives are decoded on read and only the extension remains
+  if (document.getRoot().listExtensionsUsed()
+    .some(extension => extension.extensionName === 'KHR_draco_mesh_compression')) {
+    return true;
+  }
+
   const meshes = document.getRoot().listMeshes();
   
   for (const mesh of meshes) {
@@ -102,6 +382,16 @@ export const isDracoCompressed = (document: Document): boolean => {
   return false;
 };
 
+/**
+ * Check if a GLTF document uses meshopt compression
+ * @param document - The GLTF document to check
+ * @returns Boolean indicating if EXT_meshopt_compression is already applied
+ */
+export const isMeshoptCompressed = (document: Document): boolean => {
+  return document.getRoot().listExtensionsUsed()
+    .some(extension => extension.extensionName === 'EXT_meshopt_compression');
+};
+
 /**
  * Check if a GLTF document has compressible geometry
  * @param document - The GLTF document to check
@@ -211,10 +501,144 @@ export const DEFAULT_TEXTURE_OPTIONS: TextureCompressionOptions = {
  * Default mesh compression options
  */
 export const DEFAULT_MESH_OPTIONS: MeshCompressionOptions = {
+  codec: 'draco',
   method: 'edgebreaker',
   encodeSpeed: 0, // Slowest encoding for best compression
   decodeSpeed: 0, // Slowest decoding for best compression
-  quantizationVolume: 'mesh'
+  quantizationVolume: 'mesh',
+  meshoptMethod: 'filter',
+  quantizePosition: 14,
+  quantizeNormal: 10,
+  quantizeTexcoord: 12,
+  quantizeColor: 8,
+  quantizeGeneric: 12,
+  reencode: false,
+  weld: false,
+  weldTolerance: 0,
+  vertexCache: false,
+  overdraw: false,
+  vertexFetch: false,
+  upAxis: 'y',
+  unitScale: 1,
+  recenter: 'none',
+  fitSize: 0,
+  normalizeMode: 'root',
+  generateNormals: false,
+  normalAngle: 60,
+  generateTangents: false,
+  stripAnimations: false,
+  animationFps: 0,
+  keyframeTolerance: 0,
+  quantizeAnimation: false,
+  maxError: 0,
+  reportErrorMetrics: false,
+  pruneAttributes: false
+};
+
+/**
+ * Preset for lidar scans and other point clouds (POINTS primitives, usually with COLOR_0).
+ * Scans cover large extents at fine detail, so positions keep more bits than the mesh default.
+ */
+export const POINT_CLOUD_MESH_OPTIONS: Partial<MeshCompressionOptions> = {
+  codec: 'draco',
+  quantizePosition: 16,
+  quantizeColor: 8,
+  quantizeNormal: 8,
+  quantizeGeneric: 12
+};
+
+/**
+ * Merge user-provided mesh options with defaults and validate ranges
+ * @param options - Partial mesh compression options
+ * @returns Complete, validated mesh compression options
+ * @throws Error if any option is out of range
+ */
+export const resolveMeshOptions = (options: Partial<MeshCompressionOptions> = {}): MeshCompressionOptions => {
+  // Ignore explicitly undefined values so they don't override defaults
+  const definedOptions = Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  ) as Partial<MeshCompressionOptions>;
+  const resolved: MeshCompressionOptions = { ...DEFAULT_MESH_OPTIONS, ...definedOptions };
+
+  if (resolved.codec !== 'draco' && resolved.codec !== 'meshopt' && resolved.codec !== 'quantize' && resolved.codec !== 'none') {
+    throw new Error(`Invalid codec: ${resolved.codec}. Must be 'draco', 'meshopt', 'quantize' or 'none'`);
+  }
+
+  if (resolved.method !== 'edgebreaker' && resolved.method !== 'sequential') {
+    throw new Error(`Invalid method: ${resolved.method}. Must be 'edgebreaker' or 'sequential'`);
+  }
+
+  if (resolved.quantizationVolume !== 'mesh' && resolved.quantizationVolume !== 'scene') {
+    throw new Error(`Invalid quantizationVolume: ${resolved.quantizationVolume}. Must be 'mesh' or 'scene'`);
+  }
+
+  if (resolved.meshoptMethod !== 'quantize' && resolved.meshoptMethod !== 'filter') {
+    throw new Error(`Invalid meshoptMethod: ${resolved.meshoptMethod}. Must be 'quantize' or 'filter'`);
+  }
+
+  for (const key of ['reencode', 'weld', 'vertexCache', 'overdraw', 'vertexFetch', 'generateNormals', 'generateTangents', 'stripAnimations', 'quantizeAnimation', 'pruneAttributes', 'reportErrorMetrics'] as const) {
+    if (typeof resolved[key] !== 'boolean') {
+      throw new Error(`Invalid ${key}: ${resolved[key]}. Must be a boolean`);
+    }
+  }
+
+  if (!(resolved.weldTolerance >= 0 && resolved.weldTolerance <= 0.1)) {
+    throw new Error(`Invalid weldTolerance: ${resolved.weldTolerance}. Must be between 0 and 0.1`);
+  }
+
+  if (resolved.upAxis !== 'y' && resolved.upAxis !== 'z') {
+    throw new Error(`Invalid upAxis: ${resolved.upAxis}. Must be 'y' or 'z'`);
+  }
+
+  if (resolved.recenter !== 'none' && resolved.recenter !== 'origin' && resolved.recenter !== 'ground') {
+    throw new Error(`Invalid recenter: ${resolved.recenter}. Must be 'none', 'origin' or 'ground'`);
+  }
+
+  if (resolved.normalizeMode !== 'root' && resolved.normalizeMode !== 'bake') {
+    throw new Error(`Invalid normalizeMode: ${resolved.normalizeMode}. Must be 'root' or 'bake'`);
+  }
+
+  if (!(resolved.unitScale >= 1e-6 && resolved.unitScale <= 1e6)) {
+    throw new Error(`Invalid unitScale: ${resolved.unitScale}. Must be between 0.000001 and 1000000`);
+  }
+
+  if (!(resolved.fitSize >= 0 && resolved.fitSize <= 1e6)) {
+    throw new Error(`Invalid fitSize: ${resolved.fitSize}. Must be between 0 and 1000000`);
+  }
+
+  if (!(resolved.normalAngle >= 0 && resolved.normalAngle <= 180)) {
+    throw new Error(`Invalid normalAngle: ${resolved.normalAngle}. Must be between 0 and 180`);
+  }
+
+  if (!(resolved.animationFps >= 0 && resolved.animationFps <= 240)) {
+    throw new Error(`Invalid animationFps: ${resolved.animationFps}. Must be between 0 and 240`);
+  }
+
+  if (!(resolved.keyframeTolerance >= 0 && resolved.keyframeTolerance <= 1)) {
+    throw new Error(`Invalid keyframeTolerance: ${resolved.keyframeTolerance}. Must be between 0 and 1`);
+  }
+
+  if (!(resolved.maxError >= 0 && resolved.maxError <= 1)) {
+    throw new Error(`Invalid maxError: ${resolved.maxError}. Must be between 0 and 1`);
+  }
+
+  for (const key of ['encodeSpeed', 'decodeSpeed'] as const) {
+    const value = resolved[key];
+    if (!Number.isInteger(value) || value < 0 || value > 10) {
+      throw new Error(`Invalid ${key}: ${value}. Must be an integer between 0 and 10`);
+    }
+  }
+
+  // Meshopt and KHR_mesh_quantization store quantized attributes as normalized int8/int16
+  const [minBits, maxBits] = resolved.codec === 'meshopt' || resolved.codec === 'quantize' ? [8, 16] : [0, 30];
+  for (const key of ['quantizePosition', 'quantizeNormal', 'quantizeTexcoord', 'quantizeColor', 'quantizeGeneric'] as const) {
+    const value = resolved[key];
+    if (!Number.isInteger(value) || value < minBits || value > maxBits) {
+      throw new Error(`Invalid ${key}: ${value}. Must be an integer between ${minBits} and ${maxBits} for ${resolved.codec}`);
+    }
+  }
+
+  return resolved;
 };
 
 /**
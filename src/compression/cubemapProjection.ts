@@ -0,0 +1,75 @@
+/**
+ * Equirectangular to cubemap projection
+ * Resamples a 2:1 latitude/longitude panorama into the six faces of a cubemap,
+ * in KTX2 face order (+X, -X, +Y, -Y, +Z, -Z) with the OpenGL/Vulkan face orientation
+ */
+
+export const CUBEMAP_FACE_NAMES = ['+X', '-X', '+Y', '-Y', '+Z', '-Z'];
+
+/**
+ * Direction through a face texel; s and t run from -1 to 1, t downwards
+ */
+const faceDirection = (face: number, s: number, t: number): [number, number, number] => {
+  switch (face) {
+    case 0: return [1, -t, -s];
+    case 1: return [-1, -t, s];
+    case 2: return [s, 1, t];
+    case 3: return [s, -1, -t];
+    case 4: return [s, -t, 1];
+    default: return [-s, -t, -1];
+  }
+};
+
+/**
+ * Project an equirectangular RGBA image to six cubemap faces.
+ * Longitude wraps horizontally; texels are sampled bilinearly.
+ * @param pixels - RGBA pixels of the equirectangular image, top row first
+ * @param width - Image width
+ * @param height - Image height
+ * @param faceSize - Side of each face in pixels
+ * @returns RGBA pixels of the six faces, in KTX2 face order
+ */
+export const equirectToCubeFaces = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  faceSize: number
+): Uint8ClampedArray[] => {
+  const sample = (x: number, y: number, channel: number): number => {
+    // Pixel centers at +0.5; wrap x around the seam and clamp y at the poles
+    const fx = x - 0.5;
+    const fy = Math.min(Math.max(y - 0.5, 0), height - 1);
+    const x0 = Math.floor(fx);
+    const y0 = Math.floor(fy);
+    const dx = fx - x0;
+    const dy = fy - y0;
+    const xa = ((x0 % width) + width) % width;
+    const xb = (xa + 1) % width;
+    const ya = y0;
+    const yb = Math.min(y0 + 1, height - 1);
+    const at = (px: number, py: number) => pixels[(py * width + px) * 4 + channel];
+    const top = at(xa, ya) * (1 - dx) + at(xb, ya) * dx;
+    const bottom = at(xa, yb) * (1 - dx) + at(xb, yb) * dx;
+    return top * (1 - dy) + bottom * dy;
+  };
+
+  return CUBEMAP_FACE_NAMES.map((_, face) => {
+    const facePixels = new Uint8ClampedArray(faceSize * faceSize * 4);
+    for (let row = 0; row < faceSize; row++) {
+      for (let column = 0; column < faceSize; column++) {
+        const s = ((column + 0.5) / faceSize) * 2 - 1;
+        const t = ((row + 0.5) / faceSize) * 2 - 1;
+        const [dx, dy, dz] = faceDirection(face, s, t);
+        const length = Math.hypot(dx, dy, dz);
+        // The image center (longitude 0) faces +X, longitude increases towards +Z; the top row is straight up
+        const u = (Math.atan2(dz, dx) / (2 * Math.PI) + 0.5) * width;
+        const v = (0.5 - Math.asin(dy / length) / Math.PI) * height;
+        const offset = (row * faceSize + column) * 4;
+        for (let channel = 0; channel < 4; channel++) {
+          facePixels[offset + channel] = sample(u, v, channel);
+        }
+      }
+    }
+    return facePixels;
+  });
+};
@@ -0,0 +1,200 @@
+/**
+ * Skinned and morph-target geometry handling for the mesh pipeline
+ * Classifies primitives, keeps Draco away from primitives it should not encode,
+ * renormalizes skin weights after quantization and stores morph targets sparsely
+ */
+
+import { Document, Primitive, type PropertyType, type WriterContext } from "@gltf-transform/core";
+import { KHRDracoMeshCompression } from "@gltf-transform/extensions";
+import { sortPrimitiveWeights } from "@gltf-transform/functions";
+import type { DeformationReport, SkippedPrimitiveReport } from './compressionUtils.js';
+
+// Morph target accessors with fewer non-zero elements than this are stored sparsely
+const SPARSE_MORPH_RATIO = 1 / 3;
+
+/**
+ * Per-primitive classification used to choose how each primitive is compressed
+ */
+export interface PrimitiveClassification {
+  primitive: Primitive;
+  mesh: string; // Mesh name, or "mesh_<index>" when unnamed
+  index: number;
+  skinned: boolean; // Has JOINTS_0 and WEIGHTS_0
+  morphTargets: number;
+  points: number; // Point count of POINTS primitives, 0 otherwise
+  dracoSkipReason?: string; // Set when Draco must not encode this primitive
+}
+
+/**
+ * Classify every primitive in the document.
+ * Mesh indices match the order the writer emits them, so reports line up with the output file.
+ * @param document - The glTF document to classify
+ * @returns One entry per primitive
+ */
+export const classifyPrimitives = (document: Document): PrimitiveClassification[] => {
+  return document.getRoot().listMeshes().flatMap((mesh, meshIndex) => {
+    const meshName = mesh.getName() || `mesh_${meshIndex}`;
+    return mesh.listPrimitives().map((primitive, index) => {
+      const classification: PrimitiveClassification = {
+        primitive,
+        mesh: meshName,
+        index,
+        skinned: !!primitive.getAttribute('JOINTS_0') && !!primitive.getAttribute('WEIGHTS_0'),
+        morphTargets: primitive.listTargets().length,
+        points: primitive.getMode() === Primitive.Mode.POINTS ? primitive.getAttribute('POSITION')?.getCount() ?? 0 : 0
+      };
+
+      // Mirrors the preconditions of the Draco encoder, plus morph targets which most loaders
+      // (e.g. three.js DRACOLoader) cannot decode from KHR_draco_mesh_compression.
+      // POINTS primitives are encoded as Draco point clouds, which have no index buffer.
+      if (primitive.listAttributes().length === 0) {
+        classification.dracoSkipReason = "no vertex attributes";
+      } else if (classification.morphTargets > 0) {
+        classification.dracoSkipReason = "morph targets are not decodable from Draco by common loaders";
+      } else if (classification.points > 0) {
+        if (primitive.getIndices()) {
+          classification.dracoSkipReason = "indexed point primitives are not supported by Draco";
+        }
+      } else if (primitive.getMode() !== Primitive.Mode.TRIANGLES) {
+        classification.dracoSkipReason = `primitive mode ${primitive.getMode()} is not supported by Draco`;
+      } else if (!primitive.getIndices()) {
+        classification.dracoSkipReason = "non-indexed primitives are not supported by Draco";
+      }
+
+      return classification;
+    });
+  });
+};
+
+/**
+ * List the primitives Draco will leave uncompressed, with the reason
+ * @param classifications - Result of classifyPrimitives()
+ * @returns Skipped primitive entries for the compression report
+ */
+export const listDracoSkippedPrimitives = (classifications: PrimitiveClassification[]): SkippedPrimitiveReport[] => {
+  return classifications
+    .filter(entry => entry.dracoSkipReason)
+    .map(entry => ({ mesh: entry.mesh, primitive: entry.index, reason: entry.dracoSkipReason as string }));
+};
+
+/**
+ * KHR_draco_mesh_compression that leaves selected primitives as plain accessors.
+ * The base extension only skips non-indexed and non-triangle primitives, so excluded primitives
+ * are presented as non-triangle primitives while the compressed buffers are prepared.
+ */
+export class SelectiveDracoMeshCompression extends KHRDracoMeshCompression {
+  public static readonly EXTENSION_NAME = KHRDracoMeshCompression.EXTENSION_NAME;
+
+  protected excludedPrimitives = new Set<Primitive>();
+
+  /**
+   * Set the primitives that must not be Draco compressed
+   * @param primitives - Primitives to keep as plain accessors
+   */
+  public setExcludedPrimitives(primitives: Iterable<Primitive>): this {
+    this.excludedPrimitives = new Set(primitives);
+    return this;
+  }
+
+  /** @hidden */
+  public prewrite(context: WriterContext, propertyType: PropertyType): this {
+    const modes = new Map<Primitive, ReturnType<Primitive['getMode']>>();
+    for (const primitive of this.excludedPrimitives) {
+      if (primitive.isDisposed()) continue;
+      modes.set(primitive, primitive.getMode());
+      primitive.setMode(Primitive.Mode.LINES);
+    }
+
+    try {
+      super.prewrite(context, propertyType);
+    } finally {
+      // Primitive definitions are written after this step, with their original mode
+      for (const [primitive, mode] of modes) {
+        primitive.setMode(mode);
+      }
+    }
+
+    return this;
+  }
+}
+
+/**
+ * Renormalize skin weights so each vertex sums to 1 in its stored precision.
+ * Runs after quantization, where rounding to 8 or 16 bits leaves sums slightly off.
+ * Primitives Draco encodes are left out: Draco re-quantizes weights on write, so their sums
+ * are set by its quantization bits rather than by this pass.
+ * @param classifications - Result of classifyPrimitives()
+ * @param dracoEncoded - Whether Draco encodes the primitives it has no skip reason for
+ * @returns Number of skinned primitives processed
+ */
+export const normalizeSkinWeights = (classifications: PrimitiveClassification[], dracoEncoded: boolean): number => {
+  let normalized = 0;
+  for (const entry of classifications) {
+    if (!entry.skinned || entry.primitive.isDisposed()) continue;
+    if (dracoEncoded && !entry.dracoSkipReason) continue;
+    sortPrimitiveWeights(entry.primitive, Infinity);
+    normalized++;
+  }
+  return normalized;
+};
+
+/**
+ * Store morph target accessors sparsely when most of their deltas are zero
+ * @param classifications - Result of classifyPrimitives()
+ * @returns Number of morph target accessors marked sparse
+ */
+export const sparsifyMorphTargets = (classifications: PrimitiveClassification[]): number => {
+  let sparseCount = 0;
+  const visited = new Set<unknown>();
+
+  for (const entry of classifications) {
+    if (entry.morphTargets === 0 || entry.primitive.isDisposed()) continue;
+
+    for (const target of entry.primitive.listTargets()) {
+      for (const accessor of target.listAttributes()) {
+        if (visited.has(accessor)) continue;
+        visited.add(accessor);
+
+        const array = accessor.getArray();
+        if (!array) continue;
+
+        const elementSize = accessor.getElementSize();
+        let nonZero = 0;
+        for (let i = 0; i < accessor.getCount(); i++) {
+          for (let j = 0; j < elementSize; j++) {
+            if (array[i * elementSize + j] !== 0) {
+              nonZero++;
+              break;
+            }
+          }
+        }
+
+        if (nonZero / accessor.getCount() < SPARSE_MORPH_RATIO) {
+          accessor.setSparse(true);
+          sparseCount++;
+        }
+      }
+    }
+  }
+
+  return sparseCount;
+};
+
+/**
+ * Summarize skinned and morph-target primitives for the compression report
+ * @param classifications - Result of classifyPrimitives()
+ * @returns Deformation report, or undefined when no primitive is skinned or morphed
+ */
+export const summarizeDeformation = (classifications: PrimitiveClassification[]): DeformationReport | undefined => {
+  const skinnedPrimitives = classifications.filter(entry => entry.skinned).length;
+  const morphPrimitives = classifications.filter(entry => entry.morphTargets > 0).length;
+  if (skinnedPrimitives === 0 && morphPrimitives === 0) {
+    return undefined;
+  }
+  return {
+    skinnedPrimitives,
+    morphPrimitives,
+    weightsNormalized: 0,
+    sparseMorphAccessors: 0
+  };
+};
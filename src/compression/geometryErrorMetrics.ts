@@ -0,0 +1,253 @@
+/**
+ * Geometry error metrics
+ * Compares decoded output geometry against the geometry captured before compression
+ */
+
+import { Document, Node } from "@gltf-transform/core";
+import type { GeometryErrorReport, MeshErrorMetrics } from './compressionUtils.js';
+
+/**
+ * Vertex data of one mesh, with positions in world space so quantization offsets cancel out
+ */
+export interface MeshGeometrySnapshot {
+  name: string;
+  positions: Float32Array;
+  normals: Float32Array | null; // Unit length, mesh local space
+  uvs: Float32Array | null; // TEXCOORD_0
+  diagonal: number; // World-space bounding box diagonal
+}
+
+// Candidates within this fraction of the diagonal of the nearest one count as the same position (seams)
+const COINCIDENT_TOLERANCE = 1e-6;
+// Grid shells searched before falling back to a full scan for far-off vertices
+const MAX_SHELL_RADIUS = 4;
+
+type Mat4 = ReturnType<Node['getWorldMatrix']>;
+
+const transformPoint = (out: Float32Array, offset: number, element: number[], m: Mat4) => {
+  const [x, y, z] = element;
+  out[offset] = m[0] * x + m[4] * y + m[8] * z + m[12];
+  out[offset + 1] = m[1] * x + m[5] * y + m[9] * z + m[13];
+  out[offset + 2] = m[2] * x + m[6] * y + m[10] * z + m[14];
+};
+
+/**
+ * Capture the vertex data of every mesh, in the order the writer emits meshes
+ * @param document - The glTF document to capture
+ * @returns One snapshot per mesh
+ */
+export const captureGeometry = (document: Document): MeshGeometrySnapshot[] => {
+  return document.getRoot().listMeshes().map((mesh, meshIndex) => {
+    // Quantization moves offset and scale onto the node, so compare where the first instance renders
+    const node = mesh.listParents().find((parent): parent is Node => parent instanceof Node);
+    const matrix: Mat4 = node ? node.getWorldMatrix() : [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+    const primitives = mesh.listPrimitives().filter(primitive => primitive.getAttribute('POSITION'));
+    const vertexCount = primitives.reduce((sum, primitive) => sum + primitive.getAttribute('POSITION')!.getCount(), 0);
+    const hasNormals = primitives.length > 0 && primitives.every(primitive => primitive.getAttribute('NORMAL'));
+    const hasUVs = primitives.length > 0 && primitives.every(primitive => primitive.getAttribute('TEXCOORD_0'));
+
+    const positions = new Float32Array(vertexCount * 3);
+    const normals = hasNormals ? new Float32Array(vertexCount * 3) : null;
+    const uvs = hasUVs ? new Float32Array(vertexCount * 2) : null;
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    const element: number[] = [];
+
+    let vertex = 0;
+    for (const primitive of primitives) {
+      const position = primitive.getAttribute('POSITION')!;
+      const normal = primitive.getAttribute('NORMAL');
+      const uv = primitive.getAttribute('TEXCOORD_0');
+
+      for (let i = 0; i < position.getCount(); i++, vertex++) {
+        // getElement() decodes normalized (quantized) storage
+        transformPoint(positions, vertex * 3, position.getElement(i, element), matrix);
+        for (let axis = 0; axis < 3; axis++) {
+          min[axis] = Math.min(min[axis], positions[vertex * 3 + axis]);
+          max[axis] = Math.max(max[axis], positions[vertex * 3 + axis]);
+        }
+
+        if (normals && normal) {
+          const [x, y, z] = normal.getElement(i, element);
+          const length = Math.hypot(x, y, z) || 1;
+          normals.set([x / length, y / length, z / length], vertex * 3);
+        }
+        if (uvs && uv) {
+          uvs.set(uv.getElement(i, element).slice(0, 2), vertex * 2);
+        }
+      }
+    }
+
+    const diagonal = vertexCount > 0 ? Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]) : 0;
+    return { name: mesh.getName() || `mesh_${meshIndex}`, positions, normals, uvs, diagonal };
+  });
+};
+
+/**
+ * Uniform grid over reference positions for nearest-vertex queries
+ */
+const buildGrid = (positions: Float32Array, cellSize: number) => {
+  const cells = new Map<string, number[]>();
+  const cellOf = (value: number) => Math.floor(value / cellSize);
+  for (let i = 0; i < positions.length / 3; i++) {
+    const key = `${cellOf(positions[i * 3])},${cellOf(positions[i * 3 + 1])},${cellOf(positions[i * 3 + 2])}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(i);
+    } else {
+      cells.set(key, [i]);
+    }
+  }
+  return { cells, cellOf };
+};
+
+/**
+ * Compare one mesh, matching every output vertex to the nearest reference vertex.
+ * Compression may reorder, weld or split vertices, so indices cannot be compared directly.
+ */
+const compareMesh = (reference: MeshGeometrySnapshot, output: MeshGeometrySnapshot): MeshErrorMetrics => {
+  const referenceCount = reference.positions.length / 3;
+  const outputCount = output.positions.length / 3;
+  const diagonal = reference.diagonal || 1;
+  const compareNormals = !!(reference.normals && output.normals);
+  const compareUVs = !!(reference.uvs && output.uvs);
+
+  const metrics: MeshErrorMetrics = {
+    mesh: output.name,
+    vertexCount: outputCount,
+    maxPositionError: 0,
+    meanPositionError: 0,
+    maxNormalError: compareNormals ? 0 : null,
+    meanNormalError: compareNormals ? 0 : null,
+    maxUVError: compareUVs ? 0 : null,
+    meanUVError: compareUVs ? 0 : null
+  };
+  if (referenceCount === 0 || outputCount === 0) {
+    return metrics;
+  }
+
+  // About one reference vertex per occupied cell on a surface
+  const cellSize = diagonal / Math.max(1, Math.sqrt(referenceCount));
+  const { cells, cellOf } = buildGrid(reference.positions, cellSize);
+  const tolerance = diagonal * COINCIDENT_TOLERANCE;
+
+  let positionSum = 0;
+  let normalSum = 0;
+  let uvSum = 0;
+
+  for (let i = 0; i < outputCount; i++) {
+    const x = output.positions[i * 3];
+    const y = output.positions[i * 3 + 1];
+    const z = output.positions[i * 3 + 2];
+    const cx = cellOf(x);
+    const cy = cellOf(y);
+    const cz = cellOf(z);
+
+    let nearest = Infinity;
+    let candidates: number[] = [];
+    const consider = (j: number) => {
+      const distance = Math.hypot(
+        reference.positions[j * 3] - x,
+        reference.positions[j * 3 + 1] - y,
+        reference.positions[j * 3 + 2] - z
+      );
+      if (distance < nearest - tolerance) {
+        nearest = distance;
+        candidates = [j];
+      } else if (distance <= nearest + tolerance) {
+        nearest = Math.min(nearest, distance);
+        candidates.push(j);
+      }
+    };
+
+    // Search growing shells of cells until the nearest candidate is closer than the unsearched space
+    let found = false;
+    for (let radius = 0; radius <= MAX_SHELL_RADIUS && !found; radius++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        for (let dy = -radius; dy <= radius; dy++) {
+          for (let dz = -radius; dz <= radius; dz++) {
+            if (Math.max(Math.abs(dx), Math.abs(dy), Math.abs(dz)) !== radius) continue;
+            cells.get(`${cx + dx},${cy + dy},${cz + dz}`)?.forEach(consider);
+          }
+        }
+      }
+      found = nearest <= radius * cellSize;
+    }
+    if (!found) {
+      nearest = Infinity;
+      candidates = [];
+      for (let j = 0; j < referenceCount; j++) consider(j);
+    }
+
+    // Seams duplicate positions; pick the duplicate whose attributes match best
+    let normalError = 0;
+    let uvError = 0;
+    let bestScore = Infinity;
+    for (const j of candidates) {
+      let angle = 0;
+      if (compareNormals) {
+        const dot = reference.normals![j * 3] * output.normals![i * 3]
+          + reference.normals![j * 3 + 1] * output.normals![i * 3 + 1]
+          + reference.normals![j * 3 + 2] * output.normals![i * 3 + 2];
+        angle = Math.acos(Math.min(1, Math.max(-1, dot))) * 180 / Math.PI;
+      }
+      const drift = compareUVs
+        ? Math.hypot(reference.uvs![j * 2] - output.uvs![i * 2], reference.uvs![j * 2 + 1] - output.uvs![i * 2 + 1])
+        : 0;
+      // Degrees and UV units are not comparable, so normalize each to a rough "large error" scale
+      const score = angle / 90 + drift;
+      if (score < bestScore) {
+        bestScore = score;
+        normalError = angle;
+        uvError = drift;
+      }
+    }
+
+    const positionError = nearest / diagonal;
+    metrics.maxPositionError = Math.max(metrics.maxPositionError, positionError);
+    positionSum += positionError;
+    if (compareNormals) {
+      metrics.maxNormalError = Math.max(metrics.maxNormalError!, normalError);
+      normalSum += normalError;
+    }
+    if (compareUVs) {
+      metrics.maxUVError = Math.max(metrics.maxUVError!, uvError);
+      uvSum += uvError;
+    }
+  }
+
+  metrics.meanPositionError = positionSum / outputCount;
+  if (compareNormals) metrics.meanNormalError = normalSum / outputCount;
+  if (compareUVs) metrics.meanUVError = uvSum / outputCount;
+
+  return metrics;
+};
+
+/**
+ * Compute per-mesh error metrics between geometry captured before and after compression
+ * @param reference - Snapshot taken before the codec ran
+ * @param output - Snapshot of the decoded output
+ * @returns Per-mesh metrics and their maxima; attempts and bits are filled in by the caller
+ */
+export const compareGeometry = (
+  reference: MeshGeometrySnapshot[],
+  output: MeshGeometrySnapshot[]
+): Omit<GeometryErrorReport, 'attempts' | 'quantizePosition'> => {
+  if (reference.length !== output.length) {
+    console.warn(`Mesh count changed during compression (${reference.length} -> ${output.length}); comparing by index`);
+  }
+
+  const meshes = output.slice(0, reference.length).map((snapshot, index) => compareMesh(reference[index], snapshot));
+  const maxOf = (values: (number | null)[]): number | null => {
+    const present = values.filter((value): value is number => value !== null);
+    return present.length > 0 ? Math.max(...present) : null;
+  };
+
+  return {
+    meshes,
+    maxPositionError: maxOf(meshes.map(mesh => mesh.maxPositionError)) ?? 0,
+    maxNormalError: maxOf(meshes.map(mesh => mesh.maxNormalError)),
+    maxUVError: maxOf(meshes.map(mesh => mesh.maxUVError))
+  };
+};
@@ -0,0 +1,357 @@
+/**
+ * Geometry optimization stage run before the mesh codec
+ * Welds vertices, then reorders triangles and vertices for GPU vertex cache, overdraw and vertex fetch
+ */
+
+import { Accessor, Document, Primitive, PropertyType } from "@gltf-transform/core";
+import type { GeometryOptimizationOptions, GeometryOptimizationReport } from './compressionUtils.js';
+
+interface MeshoptReorderEncoder {
+  reorderMesh: (indices: Uint32Array, triangles: boolean, optsize: boolean) => [Uint32Array, number];
+}
+
+const UNUSED = 0xffffffff;
+const CACHE_SIZE = 16; // FIFO size used to find cluster boundaries for overdraw ordering
+
+/**
+ * Check whether any optimization step is enabled
+ * @param options - Geometry optimization options
+ * @returns True if at least one step will run
+ */
+export const hasGeometryOptimization = (options: GeometryOptimizationOptions): boolean => {
+  return options.weld || options.vertexCache || options.overdraw || options.vertexFetch;
+};
+
+/**
+ * Read POSITION as floats, decoding normalized or quantized storage
+ */
+const readPositions = (position: Accessor): Float32Array => {
+  const positions = new Float32Array(position.getCount() * 3);
+  const element: number[] = [0, 0, 0];
+  for (let i = 0; i < position.getCount(); i++) {
+    position.getElement(i, element);
+    positions.set(element, i * 3);
+  }
+  return positions;
+};
+
+/**
+ * List every vertex attribute of a primitive, including morph target attributes
+ */
+const listVertexAttributes = (prim: Primitive): Accessor[] => {
+  return [
+    ...prim.listAttributes(),
+    ...prim.listTargets().flatMap(target => target.listAttributes())
+  ];
+};
+
+/**
+ * Dispose an accessor once no property other than the root references it
+ */
+const disposeIfUnused = (accessor: Accessor): void => {
+  if (accessor.listParents().every(parent => parent.propertyType === PropertyType.ROOT)) {
+    accessor.dispose();
+  }
+};
+
+/**
+ * Replace the primitive's index accessor
+ */
+const setIndices = (document: Document, prim: Primitive, indices: Uint32Array, vertexCount: number): void => {
+  const previous = prim.getIndices();
+  const position = prim.getAttribute('POSITION')!;
+  prim.setIndices(
+    document.createAccessor(previous ? previous.getName() : '')
+      .setType('SCALAR')
+      .setArray(vertexCount <= 65534 ? new Uint16Array(indices) : indices)
+      .setBuffer(previous ? previous.getBuffer() : position.getBuffer())
+  );
+  if (previous) disposeIfUnused(previous);
+};
+
+/**
+ * Rebuild every vertex attribute in a new vertex order; the first old vertex mapped to each new index wins
+ * @param remap - Old vertex index to new vertex index, or UNUSED to drop the vertex
+ */
+const remapVertices = (document: Document, prim: Primitive, remap: Uint32Array, vertexCount: number): void => {
+  // Accessors shared between semantics (e.g. TEXCOORD_0 and TEXCOORD_1) stay shared
+  const replaced = new Map<Accessor, Accessor>();
+
+  const replace = (source: Accessor): Accessor => {
+    const cached = replaced.get(source);
+    if (cached) return cached;
+
+    const elementSize = source.getElementSize();
+    const sourceArray = source.getArray()!;
+    const ArrayType = sourceArray.constructor as new (length: number) => typeof sourceArray;
+    const array = new ArrayType(vertexCount * elementSize);
+    const written = new Uint8Array(vertexCount);
+
+    for (let i = 0; i < remap.length; i++) {
+      const target = remap[i];
+      if (target === UNUSED || written[target]) continue;
+      written[target] = 1;
+      for (let k = 0; k < elementSize; k++) {
+        array[target * elementSize + k] = sourceArray[i * elementSize + k];
+      }
+    }
+
+    const accessor = document.createAccessor(source.getName())
+      .setType(source.getType())
+      .setArray(array)
+      .setNormalized(source.getNormalized())
+      .setSparse(source.getSparse())
+      .setBuffer(source.getBuffer());
+    replaced.set(source, accessor);
+    return accessor;
+  };
+
+  for (const semantic of prim.listSemantics()) {
+    const source = prim.getAttribute(semantic)!;
+    prim.setAttribute(semantic, replace(source));
+    disposeIfUnused(source);
+  }
+  for (const target of prim.listTargets()) {
+    for (const semantic of target.listSemantics()) {
+      const source = target.getAttribute(semantic)!;
+      target.setAttribute(semantic, replace(source));
+      disposeIfUnused(source);
+    }
+  }
+};
+
+/**
+ * Merge vertices whose attributes match, snapping positions to a grid when a tolerance is given.
+ * Triangles that collapse after welding are removed.
+ * @returns Triangle index list referencing the welded vertices
+ */
+const weldVertices = (document: Document, prim: Primitive, indices: Uint32Array, tolerance: number): Uint32Array => {
+  const position = prim.getAttribute('POSITION')!;
+  const vertexCount = position.getCount();
+  const positions = readPositions(position);
+
+  // Grid cell size in model units, derived from the bounding box diagonal
+  let cell = 0;
+  if (tolerance > 0) {
+    const min = position.getMin([0, 0, 0]);
+    const max = position.getMax([0, 0, 0]);
+    const diagonal = Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]);
+    cell = tolerance * diagonal;
+  }
+
+  const others = listVertexAttributes(prim).filter(accessor => accessor !== position);
+  const element: number[] = [];
+  const keys = new Map<string, number>();
+  const remap = new Uint32Array(vertexCount);
+  let weldedCount = 0;
+
+  for (let i = 0; i < vertexCount; i++) {
+    const parts: number[] = [];
+    for (let k = 0; k < 3; k++) {
+      const value = positions[i * 3 + k];
+      parts.push(cell > 0 ? Math.round(value / cell) : value);
+    }
+    for (const accessor of others) {
+      parts.push(...accessor.getElement(i, element));
+    }
+
+    const key = parts.join(',');
+    const existing = keys.get(key);
+    if (existing === undefined) {
+      keys.set(key, weldedCount);
+      remap[i] = weldedCount++;
+    } else {
+      remap[i] = existing;
+    }
+  }
+
+  remapVertices(document, prim, remap, weldedCount);
+
+  // Remap indices and drop triangles that became degenerate
+  const welded: number[] = [];
+  for (let i = 0; i < indices.length; i += 3) {
+    const a = remap[indices[i]], b = remap[indices[i + 1]], c = remap[indices[i + 2]];
+    if (a !== b && b !== c && a !== c) {
+      welded.push(a, b, c);
+    }
+  }
+  return new Uint32Array(welded);
+};
+
+/**
+ * Reorder triangles for vertex cache efficiency, keeping the original vertex order
+ */
+const optimizeVertexCache = (indices: Uint32Array, encoder: MeshoptReorderEncoder): Uint32Array => {
+  const reordered = new Uint32Array(indices);
+  // reorderMesh also remaps vertices for fetch locality; map indices back to the original vertices
+  const [remap] = encoder.reorderMesh(reordered, true, false);
+  const inverse = new Uint32Array(remap.length);
+  for (let i = 0; i < remap.length; i++) {
+    if (remap[i] !== UNUSED) inverse[remap[i]] = i;
+  }
+  for (let i = 0; i < reordered.length; i++) {
+    reordered[i] = inverse[reordered[i]];
+  }
+  return reordered;
+};
+
+/**
+ * Reorder triangle clusters so that clusters facing away from the mesh center draw first.
+ * Clusters are split where the vertex cache would restart, so cache efficiency is mostly preserved.
+ */
+const optimizeOverdraw = (indices: Uint32Array, positions: Float32Array): Uint32Array => {
+  const triangleCount = indices.length / 3;
+  if (triangleCount === 0) return indices;
+
+  // Split into clusters at triangles whose vertices all miss a simulated FIFO cache
+  const clusterStarts: number[] = [];
+  const cache: number[] = [];
+  for (let t = 0; t < triangleCount; t++) {
+    let misses = 0;
+    for (let k = 0; k < 3; k++) {
+      const vertex = indices[t * 3 + k];
+      if (!cache.includes(vertex)) {
+        misses++;
+        cache.push(vertex);
+        if (cache.length > CACHE_SIZE) cache.shift();
+      }
+    }
+    if (t === 0 || misses === 3) clusterStarts.push(t);
+  }
+
+  // Mesh centroid
+  let mx = 0, my = 0, mz = 0;
+  const vertexCount = positions.length / 3;
+  for (let i = 0; i < vertexCount; i++) {
+    mx += positions[i * 3]; my += positions[i * 3 + 1]; mz += positions[i * 3 + 2];
+  }
+  mx /= vertexCount; my /= vertexCount; mz /= vertexCount;
+
+  // Sort key: how far the cluster faces outward from the mesh centroid
+  const clusters = clusterStarts.map((start, index) => {
+    const end = index + 1 < clusterStarts.length ? clusterStarts[index + 1] : triangleCount;
+    let cx = 0, cy = 0, cz = 0, nx = 0, ny = 0, nz = 0, area = 0;
+
+    for (let t = start; t < end; t++) {
+      const a = indices[t * 3] * 3, b = indices[t * 3 + 1] * 3, c = indices[t * 3 + 2] * 3;
+      const e1x = positions[b] - positions[a], e1y = positions[b + 1] - positions[a + 1], e1z = positions[b + 2] - positions[a + 2];
+      const e2x = positions[c] - positions[a], e2y = positions[c + 1] - positions[a + 1], e2z = positions[c + 2] - positions[a + 2];
+      const px = e1y * e2z - e1z * e2y, py = e1z * e2x - e1x * e2z, pz = e1x * e2y - e1y * e2x;
+      const triangleArea = Math.hypot(px, py, pz);
+
+      cx += (positions[a] + positions[b] + positions[c]) / 3 * triangleArea;
+      cy += (positions[a + 1] + positions[b + 1] + positions[c + 1]) / 3 * triangleArea;
+      cz += (positions[a + 2] + positions[b + 2] + positions[c + 2]) / 3 * triangleArea;
+      nx += px; ny += py; nz += pz;
+      area += triangleArea;
+    }
+
+    const normalLength = Math.hypot(nx, ny, nz);
+    const sortKey = area > 0 && normalLength > 0
+      ? ((cx / area - mx) * nx + (cy / area - my) * ny + (cz / area - mz) * nz) / normalLength
+      : 0;
+    return { start, end, sortKey };
+  });
+
+  clusters.sort((a, b) => b.sortKey - a.sortKey);
+
+  const reordered = new Uint32Array(indices.length);
+  let offset = 0;
+  for (const cluster of clusters) {
+    reordered.set(indices.subarray(cluster.start * 3, cluster.end * 3), offset);
+    offset += (cluster.end - cluster.start) * 3;
+  }
+  return reordered;
+};
+
+/**
+ * Reorder vertices in the order triangles first reference them, dropping unreferenced vertices
+ * @returns Triangle index list referencing the reordered vertices
+ */
+const optimizeVertexFetch = (document: Document, prim: Primitive, indices: Uint32Array): Uint32Array => {
+  const vertexCount = prim.getAttribute('POSITION')!.getCount();
+  const remap = new Uint32Array(vertexCount).fill(UNUSED);
+  let nextVertex = 0;
+
+  const remapped = new Uint32Array(indices.length);
+  for (let i = 0; i < indices.length; i++) {
+    if (remap[indices[i]] === UNUSED) {
+      remap[indices[i]] = nextVertex++;
+    }
+    remapped[i] = remap[indices[i]];
+  }
+
+  remapVertices(document, prim, remap, nextVertex);
+  return remapped;
+};
+
+/**
+ * Run the enabled optimization steps on every triangle primitive in the document
+ * @param document - The glTF document to optimize in place
+ * @param options - Steps to run
+ * @param encoder - Initialized MeshoptEncoder, used for vertex cache ordering
+ * @returns Report with vertex counts before and after
+ */
+export const optimizeGeometry = (
+  document: Document,
+  options: GeometryOptimizationOptions,
+  encoder: MeshoptReorderEncoder
+): GeometryOptimizationReport => {
+  const steps = [
+    options.weld && (options.weldTolerance > 0 ? `weld(tolerance=${options.weldTolerance})` : 'weld'),
+    options.vertexCache && 'vertexCache',
+    options.overdraw && 'overdraw',
+    options.vertexFetch && 'vertexFetch'
+  ].filter((step): step is string => Boolean(step));
+
+  const report: GeometryOptimizationReport = {
+    steps,
+    vertexCountBefore: 0,
+    vertexCountAfter: 0,
+    primitivesOptimized: 0,
+    primitivesSkipped: 0
+  };
+
+  console.log(`Applying geometry optimization (${steps.join(', ')})...`);
+
+  for (const mesh of document.getRoot().listMeshes()) {
+    for (const prim of mesh.listPrimitives()) {
+      const position = prim.getAttribute('POSITION');
+      if (prim.getMode() !== Primitive.Mode.TRIANGLES || !position) {
+        report.primitivesSkipped++;
+        continue;
+      }
+
+      const vertexCountBefore = position.getCount();
+      report.vertexCountBefore += vertexCountBefore;
+
+      // Unindexed primitives get a sequential index list, which welding then shares
+      const sourceIndices = prim.getIndices();
+      let indices: Uint32Array = sourceIndices
+        ? new Uint32Array(sourceIndices.getArray()!)
+        : Uint32Array.from({ length: vertexCountBefore }, (_, i) => i);
+
+      if (options.weld) {
+        indices = weldVertices(document, prim, indices, options.weldTolerance);
+      }
+      if (options.vertexCache) {
+        indices = optimizeVertexCache(indices, encoder);
+      }
+      if (options.overdraw) {
+        indices = optimizeOverdraw(indices, readPositions(prim.getAttribute('POSITION')!));
+      }
+      if (options.vertexFetch) {
+        indices = optimizeVertexFetch(document, prim, indices);
+      }
+
+      const vertexCountAfter = prim.getAttribute('POSITION')!.getCount();
+      setIndices(document, prim, indices, vertexCountAfter);
+      report.vertexCountAfter += vertexCountAfter;
+      report.primitivesOptimized++;
+    }
+  }
+
+  console.log(`Geometry optimization: ${report.vertexCountBefore} -> ${report.vertexCountAfter} vertices across ${report.primitivesOptimized} primitives`);
+
+  return report;
+};
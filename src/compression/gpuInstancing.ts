@@ -0,0 +1,118 @@
+/**
+ * GPU instancing pass
+ * Collapses nodes that share a mesh into EXT_mesh_gpu_instancing batches to reduce draw calls
+ */
+
+import { WebIO } from "@gltf-transform/core";
+import { dedup, instance } from "@gltf-transform/functions";
+import { loadDracoDependencies, loadMeshoptDependencies } from './meshCodecs.js';
+import { GEOMETRY_PRESERVING_IO_EXTENSIONS } from './pointCloudCompression.js';
+import { MSFTLod, MSFT_LOD } from './msftLod.js';
+
+/**
+ * GPU instancing options
+ */
+export interface InstancingOptions {
+  minInstances: number; // Minimum number of nodes sharing a mesh before it is batched
+}
+
+/**
+ * Report describing the instancing batches created
+ */
+export interface InstancingReport {
+  batches: number;
+  instances: number; // Nodes collapsed into batches
+  nodeCountBefore: number;
+  nodeCountAfter: number;
+  skippedReason?: string;
+}
+
+/**
+ * GPU instancing output with its report
+ */
+export interface InstancingResult {
+  buffer: ArrayBuffer;
+  report: InstancingReport;
+}
+
+export const DEFAULT_INSTANCING_OPTIONS: InstancingOptions = {
+  minInstances: 2
+};
+
+const EXT_MESH_GPU_INSTANCING = 'EXT_mesh_gpu_instancing';
+
+/**
+ * Collapse nodes sharing a mesh into EXT_mesh_gpu_instancing batches.
+ * Identical meshes are linked first, so duplicated geometry with the same material is also batched.
+ * @param inputBuffer - The ArrayBuffer of the glTF/glb file
+ * @param options - Instancing options, merged with DEFAULT_INSTANCING_OPTIONS
+ * @returns Promise that resolves to the instanced ArrayBuffer and report
+ */
+export const applyGPUInstancing = async (
+  inputBuffer: ArrayBuffer,
+  options: Partial<InstancingOptions> = {}
+): Promise<InstancingResult> => {
+  console.log("Starting GPU instancing pass...");
+  console.log("Input buffer size:", inputBuffer.byteLength);
+
+  const instancingOptions: InstancingOptions = { ...DEFAULT_INSTANCING_OPTIONS, ...options };
+  if (!Number.isInteger(instancingOptions.minInstances) || instancingOptions.minInstances < 2) {
+    throw new Error(`Invalid minInstances: ${instancingOptions.minInstances}. Must be an integer of at least 2`);
+  }
+
+  // Batching does not modify geometry, so Draco bitstreams and meshopt filters are written back as read
+  const io = new WebIO()
+    .registerExtensions([...GEOMETRY_PRESERVING_IO_EXTENSIONS, MSFTLod])
+    .registerDependencies(await loadMeshoptDependencies())
+    .registerDependencies(await loadDracoDependencies());
+
+  const document = await io.readBinary(new Uint8Array(inputBuffer));
+  const root = document.getRoot();
+
+  const countBatches = () => root.listNodes().filter(node => node.getExtension(EXT_MESH_GPU_INSTANCING)).length;
+  const batchesBefore = countBatches();
+  const report: InstancingReport = {
+    batches: 0,
+    instances: 0,
+    nodeCountBefore: root.listNodes().length,
+    nodeCountAfter: root.listNodes().length
+  };
+  const skip = (reason: string): InstancingResult => {
+    console.log(`Skipping GPU instancing - ${reason}`);
+    return { buffer: inputBuffer, report: { ...report, skippedReason: reason } };
+  };
+
+  // instance() moves meshes off their nodes, which would break animation targets and LOD references
+  if (root.listAnimations().length > 0) {
+    return skip("instancing is not supported for animated models");
+  }
+  if (root.listNodes().some(node => node.getExtension(MSFT_LOD))) {
+    return skip("instancing is not supported for MSFT_lod nodes");
+  }
+
+  // Instances are the mesh nodes that no longer reference a mesh directly after batching
+  const countMeshNodes = () => root.listNodes()
+    .filter(node => node.getMesh() && !node.getExtension(EXT_MESH_GPU_INSTANCING)).length;
+  const meshNodesBefore = countMeshNodes();
+
+  await document.transform(
+    dedup(),
+    instance({ min: instancingOptions.minInstances })
+  );
+
+  report.instances = meshNodesBefore - countMeshNodes();
+  report.batches = countBatches() - batchesBefore;
+  report.nodeCountAfter = root.listNodes().length;
+
+  if (report.batches === 0) {
+    return skip(`no mesh is shared by at least ${instancingOptions.minInstances} nodes`);
+  }
+
+  const bytes = await io.writeBinary(document);
+  const buffer = bytes.slice().buffer as ArrayBuffer;
+
+  console.log(`GPU instancing: ${report.batches} batches, ${report.instances} instances, ${report.nodeCountBefore} -> ${report.nodeCountAfter} nodes`);
+  console.log("Output size:", buffer.byteLength);
+
+  return { buffer, report };
+};
@@ -0,0 +1,445 @@
+/**
+ * HDR image decoding for environment maps
+ * Decodes Radiance .hdr (RGBE) and scanline OpenEXR images to linear float RGBA, which
+ * canvas.loadImage cannot read, and packs them as half floats for KTX2 encoding
+ */
+
+import { inflateSync } from 'zlib';
+
+/**
+ * Decoded HDR image: linear RGBA floats, top row first
+ */
+export interface HDRImage {
+  width: number;
+  height: number;
+  data: Float32Array;
+  sourceFormat: 'radiance' | 'openexr';
+}
+
+const EXR_MAGIC = 20000630;
+const EXR_TILED_FLAG = 0x200;
+const EXR_MULTIPART_FLAG = 0x1000;
+const EXR_PIXEL_TYPE_BYTES = [4, 2, 4]; // UINT, HALF, FLOAT
+const EXR_COMPRESSIONS = ['NONE', 'RLE', 'ZIPS', 'ZIP', 'PIZ', 'PXR24', 'B44', 'B44A', 'DWAA', 'DWAB'];
+const EXR_LINES_PER_BLOCK: Record<number, number> = { 0: 1, 1: 1, 2: 1, 3: 16 };
+const MAX_HDR_DIMENSION = 8192;
+
+interface EXRChannel {
+  name: string;
+  pixelType: number;
+  bytes: number;
+}
+
+const toBytes = (data: ArrayBuffer | Uint8Array): Uint8Array => {
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+};
+
+/**
+ * Check for a Radiance .hdr header ("#?RADIANCE" or "#?RGBE")
+ * @param data - File contents
+ * @returns True for Radiance images
+ */
+export const isRadianceHDR = (data: ArrayBuffer | Uint8Array): boolean => {
+  const bytes = toBytes(data);
+  const signature = new TextDecoder().decode(bytes.subarray(0, 10));
+  return signature.startsWith('#?RADIANCE') || signature.startsWith('#?RGBE');
+};
+
+/**
+ * Check for the OpenEXR magic number
+ * @param data - File contents
+ * @returns True for OpenEXR images
+ */
+export const isOpenEXR = (data: ArrayBuffer | Uint8Array): boolean => {
+  const bytes = toBytes(data);
+  return bytes.byteLength >= 8 && new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(0, true) === EXR_MAGIC;
+};
+
+/**
+ * Check whether an image needs the HDR decode path
+ * @param data - File contents
+ * @returns True for Radiance .hdr and OpenEXR images
+ */
+export const isHDRImage = (data: ArrayBuffer | Uint8Array): boolean => {
+  return isRadianceHDR(data) || isOpenEXR(data);
+};
+
+const checkDimensions = (width: number, height: number, format: string): void => {
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1 || width > MAX_HDR_DIMENSION || height > MAX_HDR_DIMENSION) {
+    throw new Error(`Invalid ${format} image: unsupported dimensions ${width}x${height}`);
+  }
+};
+
+/**
+ * Half float (IEEE 754 binary16) to number
+ */
+const halfToFloat = (half: number): number => {
+  const exponent = (half >> 10) & 0x1f;
+  const mantissa = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * mantissa * 2 ** -24;
+  if (exponent === 0x1f) return mantissa ? NaN : sign * Infinity;
+  return sign * (1 + mantissa / 1024) * 2 ** (exponent - 15);
+};
+
+const floatView = new Float32Array(1);
+const intView = new Uint32Array(floatView.buffer);
+
+/**
+ * Number to half float, rounding to nearest even; out-of-range values become infinity
+ */
+export const floatToHalf = (value: number): number => {
+  floatView[0] = value;
+  const bits = intView[0];
+  const sign = (bits >>> 16) & 0x8000;
+  const exponent = (bits >>> 23) & 0xff;
+  let mantissa = bits & 0x7fffff;
+
+  if (exponent === 0xff) return sign | 0x7c00 | (mantissa ? 0x200 : 0);
+
+  const halfExponent = exponent - 127 + 15;
+  if (halfExponent >= 0x1f) return sign | 0x7c00;
+  if (halfExponent <= 0) {
+    // Subnormal half, or zero
+    if (halfExponent < -10) return sign;
+    mantissa |= 0x800000;
+    const shift = 14 - halfExponent;
+    let half = mantissa >> shift;
+    const remainder = mantissa & ((1 << shift) - 1);
+    const halfway = 1 << (shift - 1);
+    if (remainder > halfway || (remainder === halfway && (half & 1))) half++;
+    return sign | half;
+  }
+
+  let half = (halfExponent << 10) | (mantissa >> 13);
+  const remainder = mantissa & 0x1fff;
+  // A carry into the exponent is still the correctly rounded value
+  if (remainder > 0x1000 || (remainder === 0x1000 && (half & 1))) half++;
+  return sign | half;
+};
+
+/**
+ * Decode a Radiance .hdr image (32-bit_rle_rgbe, flat or run-length encoded scanlines)
+ * @param data - File contents
+ * @returns Linear RGBA floats with alpha 1
+ */
+export const decodeRadianceHDR = (data: ArrayBuffer | Uint8Array): HDRImage => {
+  const bytes = toBytes(data);
+  if (!isRadianceHDR(bytes)) {
+    throw new Error('Invalid Radiance HDR image: missing #?RADIANCE header');
+  }
+
+  // Header lines end at an empty line, followed by the resolution line
+  let cursor = 0;
+  const readLine = (): string => {
+    const end = bytes.indexOf(0x0a, cursor);
+    if (end < 0) throw new Error('Invalid Radiance HDR image: truncated header');
+    const line = new TextDecoder().decode(bytes.subarray(cursor, end));
+    cursor = end + 1;
+    return line.trim();
+  };
+
+  let line = readLine();
+  while (line !== '') {
+    if (line.startsWith('FORMAT=') && line !== 'FORMAT=32-bit_rle_rgbe') {
+      throw new Error(`Unsupported Radiance HDR format: ${line.slice(7)}. Only 32-bit_rle_rgbe is supported`);
+    }
+    line = readLine();
+  }
+
+  const resolution = readLine().match(/^([+-])Y\s+(\d+)\s+\+X\s+(\d+)$/);
+  if (!resolution) {
+    throw new Error('Unsupported Radiance HDR orientation: only "-Y height +X width" and "+Y height +X width" are supported');
+  }
+  const bottomUp = resolution[1] === '+';
+  const height = Number(resolution[2]);
+  const width = Number(resolution[3]);
+  checkDimensions(width, height, 'Radiance HDR');
+
+  const rgbe = new Uint8Array(width * height * 4);
+  const scanline = new Uint8Array(width * 4);
+  for (let row = 0; row < height; row++) {
+    if (cursor + 4 > bytes.byteLength) {
+      throw new Error(`Invalid Radiance HDR image: truncated at scanline ${row}`);
+    }
+    const runLength = width >= 8 && width < 0x8000 && bytes[cursor] === 2 && bytes[cursor + 1] === 2 && !(bytes[cursor + 2] & 0x80);
+    if (runLength) {
+      if (((bytes[cursor + 2] << 8) | bytes[cursor + 3]) !== width) {
+        throw new Error(`Invalid Radiance HDR image: scanline ${row} width mismatch`);
+      }
+      cursor += 4;
+      // Each component is stored separately as runs and literal spans
+      for (let component = 0; component < 4; component++) {
+        let x = 0;
+        while (x < width) {
+          if (cursor >= bytes.byteLength) throw new Error(`Invalid Radiance HDR image: truncated at scanline ${row}`);
+          let count = bytes[cursor++];
+          if (count > 128) {
+            count -= 128;
+            if (x + count > width) throw new Error(`Invalid Radiance HDR image: run overflows scanline ${row}`);
+            const value = bytes[cursor++];
+            for (let i = 0; i < count; i++) scanline[(x++) * 4 + component] = value;
+          } else {
+            if (count === 0 || x + count > width || cursor + count > bytes.byteLength) {
+              throw new Error(`Invalid Radiance HDR image: bad literal span at scanline ${row}`);
+            }
+            for (let i = 0; i < count; i++) scanline[(x++) * 4 + component] = bytes[cursor++];
+          }
+        }
+      }
+    } else {
+      // Flat RGBE pixels
+      if (cursor + width * 4 > bytes.byteLength) {
+        throw new Error(`Invalid Radiance HDR image: truncated at scanline ${row}`);
+      }
+      scanline.set(bytes.subarray(cursor, cursor + width * 4));
+      cursor += width * 4;
+    }
+    rgbe.set(scanline, (bottomUp ? height - 1 - row : row) * width * 4);
+  }
+
+  const pixels = new Float32Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const exponent = rgbe[i * 4 + 3];
+    const scale = exponent === 0 ? 0 : 2 ** (exponent - 136);
+    pixels[i * 4] = rgbe[i * 4] * scale;
+    pixels[i * 4 + 1] = rgbe[i * 4 + 1] * scale;
+    pixels[i * 4 + 2] = rgbe[i * 4 + 2] * scale;
+    pixels[i * 4 + 3] = 1;
+  }
+
+  return { width, height, data: pixels, sourceFormat: 'radiance' };
+};
+
+/**
+ * Undo the OpenEXR ZIP/RLE byte predictor and split-halves interleave
+ */
+const reconstructEXRBytes = (data: Uint8Array): Uint8Array => {
+  for (let i = 1; i < data.length; i++) {
+    data[i] = (data[i - 1] + data[i] - 128) & 0xff;
+  }
+  const output = new Uint8Array(data.length);
+  const half = (data.length + 1) >> 1;
+  for (let i = 0, first = 0, second = half; i < data.length;) {
+    output[i++] = data[first++];
+    if (i < data.length) output[i++] = data[second++];
+  }
+  return output;
+};
+
+const decodeEXRRunLength = (data: Uint8Array, expectedLength: number): Uint8Array => {
+  const output = new Uint8Array(expectedLength);
+  let cursor = 0;
+  let length = 0;
+  while (cursor < data.length) {
+    const count = (data[cursor++] << 24) >> 24;
+    if (count < 0) {
+      if (length - count > expectedLength) throw new Error('Invalid OpenEXR image: RLE data overflows block');
+      output.set(data.subarray(cursor, cursor - count), length);
+      cursor -= count;
+      length -= count;
+    } else {
+      if (length + count + 1 > expectedLength) throw new Error('Invalid OpenEXR image: RLE data overflows block');
+      output.fill(data[cursor++], length, length + count + 1);
+      length += count + 1;
+    }
+  }
+  return output;
+};
+
+/**
+ * Decode a single-part scanline OpenEXR image (NONE, RLE, ZIPS or ZIP compression; HALF, FLOAT or UINT channels)
+ * @param data - File contents
+ * @returns Linear RGBA floats; a luminance-only (Y) image is expanded to gray, missing alpha is 1
+ */
+export const decodeOpenEXR = (data: ArrayBuffer | Uint8Array): HDRImage => {
+  const bytes = toBytes(data);
+  if (!isOpenEXR(bytes)) {
+    throw new Error('Invalid OpenEXR image: missing magic number');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint32(4, true);
+  if ((version & 0xff) !== 2) {
+    throw new Error(`Unsupported OpenEXR version: ${version & 0xff}`);
+  }
+  if (version & EXR_TILED_FLAG) {
+    throw new Error('Unsupported OpenEXR image: tiled images are not supported, save as scanline');
+  }
+  if (version & EXR_MULTIPART_FLAG) {
+    throw new Error('Unsupported OpenEXR image: multi-part images are not supported');
+  }
+
+  let cursor = 8;
+  const readString = (): string => {
+    const end = bytes.indexOf(0, cursor);
+    if (end < 0) throw new Error('Invalid OpenEXR image: truncated header');
+    const value = new TextDecoder().decode(bytes.subarray(cursor, end));
+    cursor = end + 1;
+    return value;
+  };
+
+  // Header attributes: name, type, size, value; an empty name ends the header
+  const channels: EXRChannel[] = [];
+  let compression = -1;
+  let dataWindow: number[] | null = null;
+  for (let name = readString(); name !== ''; name = readString()) {
+    readString(); // attribute type
+    const size = view.getInt32(cursor, true);
+    const valueStart = cursor + 4;
+    if (size < 0 || valueStart + size > bytes.byteLength) throw new Error(`Invalid OpenEXR image: attribute ${name} exceeds file`);
+    cursor = valueStart;
+
+    if (name === 'channels') {
+      while (bytes[cursor] !== 0) {
+        const channelName = readString();
+        const pixelType = view.getInt32(cursor, true);
+        const xSampling = view.getInt32(cursor + 8, true);
+        const ySampling = view.getInt32(cursor + 12, true);
+        cursor += 16;
+        if (pixelType < 0 || pixelType > 2) throw new Error(`Invalid OpenEXR image: channel ${channelName} has pixel type ${pixelType}`);
+        if (xSampling !== 1 || ySampling !== 1) throw new Error(`Unsupported OpenEXR image: channel ${channelName} is subsampled`);
+        channels.push({ name: channelName, pixelType, bytes: EXR_PIXEL_TYPE_BYTES[pixelType] });
+      }
+    } else if (name === 'compression') {
+      compression = bytes[cursor];
+    } else if (name === 'dataWindow') {
+      dataWindow = [0, 4, 8, 12].map(offset => view.getInt32(cursor + offset, true));
+    }
+    cursor = valueStart + size;
+  }
+
+  if (!dataWindow || channels.length === 0 || compression < 0) {
+    throw new Error('Invalid OpenEXR image: missing channels, compression or dataWindow attribute');
+  }
+  if (!(compression in EXR_LINES_PER_BLOCK)) {
+    throw new Error(`Unsupported OpenEXR compression: ${EXR_COMPRESSIONS[compression] ?? compression}. Supported: NONE, RLE, ZIPS, ZIP`);
+  }
+
+  const [xMin, yMin, xMax, yMax] = dataWindow;
+  const width = xMax - xMin + 1;
+  const height = yMax - yMin + 1;
+  checkDimensions(width, height, 'OpenEXR');
+
+  const linesPerBlock = EXR_LINES_PER_BLOCK[compression];
+  const blockCount = Math.ceil(height / linesPerBlock);
+  const lineBytes = channels.reduce((sum, channel) => sum + channel.bytes * width, 0);
+  const has = (name: string) => channels.some(channel => channel.name === name);
+  const luminance = !has('R') && !has('G') && !has('B') && has('Y');
+
+  const pixels = new Float32Array(width * height * 4);
+  if (!has('A')) {
+    for (let i = 3; i < pixels.length; i += 4) pixels[i] = 1;
+  }
+
+  // Offset table, one 64-bit offset per block
+  const tableStart = cursor;
+  if (tableStart + blockCount * 8 > bytes.byteLength) throw new Error('Invalid OpenEXR image: truncated offset table');
+  for (let block = 0; block < blockCount; block++) {
+    const offset = Number(view.getBigUint64(tableStart + block * 8, true));
+    if (offset + 8 > bytes.byteLength) throw new Error(`Invalid OpenEXR image: block ${block} offset exceeds file`);
+    const y = view.getInt32(offset, true) - yMin;
+    const packedSize = view.getInt32(offset + 4, true);
+    if (y < 0 || y >= height || packedSize < 0 || offset + 8 + packedSize > bytes.byteLength) {
+      throw new Error(`Invalid OpenEXR image: block ${block} is out of range`);
+    }
+    const lines = Math.min(linesPerBlock, height - y);
+    const expectedSize = lines * lineBytes;
+    const packed = bytes.subarray(offset + 8, offset + 8 + packedSize);
+
+    // Blocks that would not shrink are stored uncompressed
+    let blockData: Uint8Array;
+    if (compression === 0 || packedSize === expectedSize) {
+      blockData = packed;
+    } else if (compression === 1) {
+      blockData = reconstructEXRBytes(decodeEXRRunLength(packed, expectedSize));
+    } else {
+      blockData = reconstructEXRBytes(new Uint8Array(inflateSync(packed)));
+    }
+    if (blockData.length !== expectedSize) {
+      throw new Error(`Invalid OpenEXR image: block ${block} decodes to ${blockData.length} bytes, expected ${expectedSize}`);
+    }
+
+    // Each line stores every channel in turn, channels in header (alphabetical) order
+    const blockView = new DataView(blockData.buffer, blockData.byteOffset, blockData.byteLength);
+    let position = 0;
+    for (let line = 0; line < lines; line++) {
+      const rowStart = (y + line) * width * 4;
+      for (const channel of channels) {
+        const targets = luminance && channel.name === 'Y' ? [0, 1, 2]
+          : channel.name === 'R' ? [0] : channel.name === 'G' ? [1] : channel.name === 'B' ? [2] : channel.name === 'A' ? [3] : [];
+        for (let x = 0; x < width; x++) {
+          const value = channel.pixelType === 1 ? halfToFloat(blockView.getUint16(position, true))
+            : channel.pixelType === 2 ? blockView.getFloat32(position, true)
+            : blockView.getUint32(position, true);
+          position += channel.bytes;
+          for (const target of targets) pixels[rowStart + x * 4 + target] = value;
+        }
+      }
+    }
+  }
+
+  return { width, height, data: pixels, sourceFormat: 'openexr' };
+};
+
+/**
+ * Decode a Radiance .hdr or OpenEXR image
+ * @param data - File contents
+ * @returns Linear RGBA floats, top row first
+ */
+export const decodeHDRImage = (data: ArrayBuffer | Uint8Array): HDRImage => {
+  if (isRadianceHDR(data)) return decodeRadianceHDR(data);
+  if (isOpenEXR(data)) return decodeOpenEXR(data);
+  throw new Error('Unsupported HDR image: expected a Radiance .hdr or OpenEXR file');
+};
+
+/**
+ * Resample an HDR image bilinearly. Halving each side averages 2x2 texels, so this also
+ * builds mipmap levels.
+ * @param image - Source image
+ * @param width - Target width
+ * @param height - Target height
+ * @returns Resampled image
+ */
+export const resampleHDRImage = (image: HDRImage, width: number, height: number): HDRImage => {
+  if (width === image.width && height === image.height) return image;
+  const pixels = new Float32Array(width * height * 4);
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+  for (let row = 0; row < height; row++) {
+    const fy = Math.min(Math.max((row + 0.5) * scaleY - 0.5, 0), image.height - 1);
+    const y0 = Math.floor(fy);
+    const y1 = Math.min(y0 + 1, image.height - 1);
+    const dy = fy - y0;
+    for (let column = 0; column < width; column++) {
+      const fx = Math.min(Math.max((column + 0.5) * scaleX - 0.5, 0), image.width - 1);
+      const x0 = Math.floor(fx);
+      const x1 = Math.min(x0 + 1, image.width - 1);
+      const dx = fx - x0;
+      for (let channel = 0; channel < 4; channel++) {
+        const at = (x: number, y: number) => image.data[(y * image.width + x) * 4 + channel];
+        const top = at(x0, y0) * (1 - dx) + at(x1, y0) * dx;
+        const bottom = at(x0, y1) * (1 - dx) + at(x1, y1) * dx;
+        pixels[(row * width + column) * 4 + channel] = top * (1 - dy) + bottom * dy;
+      }
+    }
+  }
+  return { ...image, width, height, data: pixels };
+};
+
+/**
+ * Pack an HDR image as RGBA half floats, optionally flipped vertically
+ * @param image - Decoded image
+ * @param flipY - Store the bottom row first
+ * @returns RGBA half floats
+ */
+export const toHalfFloatRGBA = (image: HDRImage, flipY = false): Uint16Array => {
+  const { width, height, data } = image;
+  const halves = new Uint16Array(width * height * 4);
+  for (let row = 0; row < height; row++) {
+    const sourceRow = flipY ? height - 1 - row : row;
+    for (let i = 0; i < width * 4; i++) {
+      halves[row * width * 4 + i] = floatToHalf(data[sourceRow * width * 4 + i]);
+    }
+  }
+  return halves;
+};
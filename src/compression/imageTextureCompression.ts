@@ -0,0 +1,246 @@
+/**
+ * WebP and AVIF texture output (EXT_texture_webp / EXT_texture_avif)
+ * Re-encodes PNG and JPEG textures for clients that want smaller downloads rather than
+ * GPU-compressed textures. The original image can be kept as the core glTF source, so
+ * loaders without the extension still display the texture.
+ */
+
+import { ImageUtils, NodeIO, Texture, type WriterContext } from "@gltf-transform/core";
+import { EXTTextureAVIF, EXTTextureWebP } from "@gltf-transform/extensions";
+import { compressTexture } from "@gltf-transform/functions";
+import { loadDracoDependencies, loadMeshoptDependencies } from './meshCodecs.js';
+import { GEOMETRY_PRESERVING_IO_EXTENSIONS } from './pointCloudCompression.js';
+import { MSFTLod } from './msftLod.js';
+import { classifyTexture, resolveColorSpace } from './textureRoles.js';
+import { computeTextureSize, resizeImage, DEFAULT_TEXTURE_RESIZE_OPTIONS, type TextureResizeOptions } from './textureResize.js';
+import type { TextureReport } from './compressionUtils.js';
+
+/**
+ * Texture output of the texture compression endpoints
+ */
+export type TextureOutputFormat = 'ktx2' | 'webp' | 'avif';
+
+/**
+ * WebP/AVIF output settings
+ */
+export interface ImageTextureOptions {
+  format: 'webp' | 'avif';
+  quality?: number; // 1-100; the encoder default (WebP 80, AVIF 50) when not set
+  keepFallback: boolean; // Keep the original PNG/JPEG as the core source, so the extension is optional
+  resize?: Partial<TextureResizeOptions>; // Resize policy; the fallback keeps the original size
+}
+
+/**
+ * WebP/AVIF output with per-texture reports
+ */
+export interface ImageTextureCompressionResult {
+  buffer: ArrayBuffer;
+  compressionRatio: number;
+  originalSize: number;
+  compressedSize: number;
+  format: 'webp' | 'avif';
+  texturesProcessed: number;
+  textures: TextureReport[];
+  errors: string[];
+}
+
+export const DEFAULT_IMAGE_TEXTURE_OPTIONS: ImageTextureOptions = {
+  format: 'webp',
+  keepFallback: false
+};
+
+/**
+ * Point each re-encoded texture's core source at its fallback image.
+ * Runs after the base extension has moved the source into the extension object.
+ */
+const writeFallbackSources = (context: WriterContext, extensionName: string, fallbacks: Map<Texture, Texture>): void => {
+  const textureDefs = context.jsonDoc.json.textures || [];
+  for (const [texture, fallback] of fallbacks) {
+    const imageIndex = context.imageIndexMap.get(texture);
+    const fallbackIndex = context.imageIndexMap.get(fallback);
+    if (imageIndex === undefined || fallbackIndex === undefined) continue;
+    for (const textureDef of textureDefs) {
+      const extensionDef = textureDef.extensions?.[extensionName] as { source?: number } | undefined;
+      if (extensionDef?.source === imageIndex) {
+        textureDef.source = fallbackIndex;
+      }
+    }
+  }
+};
+
+/**
+ * EXT_texture_webp with an optional PNG/JPEG fallback per texture
+ */
+export class WebPTextureWithFallback extends EXTTextureWebP {
+  public static readonly EXTENSION_NAME = EXTTextureWebP.EXTENSION_NAME;
+
+  private fallbacks = new Map<Texture, Texture>();
+
+  public setFallback(texture: Texture, fallback: Texture): this {
+    this.fallbacks.set(texture, fallback);
+    return this;
+  }
+
+  /** @hidden */
+  public write(context: WriterContext): this {
+    super.write(context);
+    writeFallbackSources(context, this.extensionName, this.fallbacks);
+    return this;
+  }
+}
+
+/**
+ * EXT_texture_avif with an optional PNG/JPEG fallback per texture
+ */
+export class AVIFTextureWithFallback extends EXTTextureAVIF {
+  public static readonly EXTENSION_NAME = EXTTextureAVIF.EXTENSION_NAME;
+
+  private fallbacks = new Map<Texture, Texture>();
+
+  public setFallback(texture: Texture, fallback: Texture): this {
+    this.fallbacks.set(texture, fallback);
+    return this;
+  }
+
+  /** @hidden */
+  public write(context: WriterContext): this {
+    super.write(context);
+    writeFallbackSources(context, this.extensionName, this.fallbacks);
+    return this;
+  }
+}
+
+/**
+ * Texture I/O extensions: GEOMETRY_PRESERVING_IO_EXTENSIONS with the WebP and AVIF extensions
+ * replaced by their fallback-aware variants, plus MSFT_lod
+ */
+const TEXTURE_IO_EXTENSIONS = [
+  ...GEOMETRY_PRESERVING_IO_EXTENSIONS.filter(extension =>
+    extension.EXTENSION_NAME !== EXTTextureWebP.EXTENSION_NAME && extension.EXTENSION_NAME !== EXTTextureAVIF.EXTENSION_NAME),
+  WebPTextureWithFallback,
+  AVIFTextureWithFallback,
+  MSFTLod
+];
+
+/**
+ * Re-encode the PNG and JPEG textures of a GLB as WebP or AVIF.
+ * KTX2, WebP and AVIF textures are left as they are.
+ * @param inputBuffer - The ArrayBuffer of the glb file
+ * @param options - Output format, quality and fallback policy, merged with DEFAULT_IMAGE_TEXTURE_OPTIONS
+ * @returns Promise that resolves to the GLB with re-encoded textures and per-texture reports
+ */
+export const compressGLBTexturesImage = async (
+  inputBuffer: ArrayBuffer,
+  options: Partial<ImageTextureOptions> = {}
+): Promise<ImageTextureCompressionResult> => {
+  const imageOptions: ImageTextureOptions = { ...DEFAULT_IMAGE_TEXTURE_OPTIONS, ...options };
+  const resizeOptions: TextureResizeOptions = { ...DEFAULT_TEXTURE_RESIZE_OPTIONS, ...imageOptions.resize };
+  console.log(`Starting GLB texture compression to ${imageOptions.format.toUpperCase()}...`);
+  console.log("Image texture options:", imageOptions);
+
+  // sharp is a native module, so it is only loaded when WebP/AVIF output is requested
+  const { default: sharp } = await import('sharp');
+
+  const io = new NodeIO()
+    .registerExtensions(TEXTURE_IO_EXTENSIONS)
+    .registerDependencies(await loadMeshoptDependencies())
+    .registerDependencies(await loadDracoDependencies());
+
+  const document = await io.readBinary(new Uint8Array(inputBuffer));
+  const textures = document.getRoot().listTextures();
+  const mimeType = `image/${imageOptions.format}`;
+  const extension = imageOptions.format === 'webp'
+    ? document.createExtension(WebPTextureWithFallback)
+    : document.createExtension(AVIFTextureWithFallback);
+
+  const textureReports: TextureReport[] = [];
+  const errors: string[] = [];
+
+  for (const [index, texture] of textures.entries()) {
+    const textureName = texture.getName() || `texture_${index}`;
+    const sourceMimeType = texture.getMimeType();
+    if (sourceMimeType !== 'image/png' && sourceMimeType !== 'image/jpeg') {
+      console.log(`Texture ${textureName} is ${sourceMimeType} - skipping`);
+      continue;
+    }
+
+    const original = texture.getImage();
+    if (!original) {
+      console.log(`No image data found for texture ${textureName} - skipping`);
+      continue;
+    }
+    const originalURI = texture.getURI();
+
+    try {
+      const { role, slots } = classifyTexture(texture);
+
+      const [sourceWidth, sourceHeight] = ImageUtils.getSize(original, sourceMimeType) ?? [0, 0];
+      // Images whose header cannot be read are re-encoded at their original size
+      const { width, height } = sourceWidth > 0
+        ? computeTextureSize(sourceWidth, sourceHeight, resizeOptions, { role, slots })
+        : { width: sourceWidth, height: sourceHeight };
+      if (width !== sourceWidth || height !== sourceHeight) {
+        console.log(`Texture ${textureName}: resampling ${sourceWidth}x${sourceHeight} -> ${width}x${height} with ${resizeOptions.filter} filter`);
+        texture.setImage(await resizeImage(original, width, height, resizeOptions.filter)).setMimeType('image/png');
+      }
+
+      await compressTexture(texture, { encoder: sharp, targetFormat: imageOptions.format, quality: imageOptions.quality ?? null });
+
+      const compressed = texture.getImage()!;
+      console.log(`Texture ${textureName} (${role}): ${original.byteLength} -> ${compressed.byteLength} bytes`);
+
+      if (imageOptions.keepFallback) {
+        const fallback = document.createTexture(`${textureName}_fallback`)
+          .setImage(original)
+          .setMimeType(sourceMimeType)
+          .setURI(originalURI);
+        extension.setFallback(texture, fallback);
+      }
+
+      // The image data is unchanged in meaning; loaders pick the color space from the slot
+      const { oetf, source } = resolveColorSpace(texture, role);
+      textureReports.push({
+        texture: textureName,
+        role,
+        slots,
+        format: imageOptions.format,
+        oetf,
+        colorSpaceSource: source,
+        width,
+        height,
+        sourceWidth,
+        sourceHeight
+      });
+    } catch (error) {
+      const errorMsg = `Failed to compress texture ${textureName}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(errorMsg);
+      errors.push(errorMsg);
+    }
+  }
+
+  const converted = textures.some(texture => texture.getMimeType() === mimeType);
+  if (converted) {
+    // With a fallback in every texture, loaders without the extension can still render the file
+    extension.setRequired(!imageOptions.keepFallback);
+  } else {
+    extension.dispose();
+  }
+
+  const bytes = await io.writeBinary(document);
+  const buffer = bytes.slice().buffer as ArrayBuffer;
+  const compressionRatio = ((inputBuffer.byteLength - buffer.byteLength) / inputBuffer.byteLength) * 100;
+
+  console.log(`GLB ${imageOptions.format.toUpperCase()} texture compression completed. Processed ${textureReports.length}/${textures.length} textures.`);
+  console.log(`Output size: ${buffer.byteLength} (compression ratio ${compressionRatio.toFixed(2)}%)`);
+
+  return {
+    buffer,
+    compressionRatio,
+    originalSize: inputBuffer.byteLength,
+    compressedSize: buffer.byteLength,
+    format: imageOptions.format,
+    texturesProcessed: textureReports.length,
+    textures: textureReports,
+    errors
+  };
+};
@@ -8,17 +8,78 @@
  * 
  * 1. Mesh compression only:
  *    const compressedBuffer = await compressGLTFMeshOnly(inputBuffer);
+ *    const fastDecode = await compressGLTFMeshOnly(inputBuffer, { decodeSpeed: 10, quantizePosition: 16 });
+ *    const meshopt = await compressGLTFMeshOnly(inputBuffer, { codec: 'meshopt' });
+ *    const { buffer, report } = await compressGLTFMeshWithReport(inputBuffer, { codec: 'quantize' });
+ *    const optimized = await compressGLTFMeshOnly(inputBuffer, { codec: 'none', weld: true, vertexCache: true, vertexFetch: true });
+ *    const normalized = await compressGLTFMeshOnly(inputBuffer, { upAxis: 'z', unitScale: 0.01, recenter: 'ground' });
+ *    const shaded = await compressGLTFMeshOnly(inputBuffer, { generateNormals: true, normalAngle: 45, generateTangents: true });
+ *    const animated = await compressGLTFMeshWithReport(inputBuffer, { animationFps: 30, keyframeTolerance: 0.0001, quantizeAnimation: true }); // report.animation
+ *    const pruned = await compressGLTFMeshWithReport(inputBuffer, { pruneAttributes: true }); // report.attributePruning.removed
+ *    const staticOnly = await compressGLTFMeshOnly(inputBuffer, { stripAnimations: true });
+ *    const scan = await compressGLTFMeshWithReport(inputBuffer, POINT_CLOUD_MESH_OPTIONS); // POINTS as Draco point clouds
+ *    const guarded = await compressGLTFMeshWithReport(inputBuffer, { maxError: 0.0005 }); // report.errorMetrics
+ *
+ * 1a. Mesh decompression (Draco/meshopt back to plain accessors):
+ *    const { buffer, report } = await decompressGLTFMesh(inputBuffer);
+ *
+ * 1b. LOD chain generation (MSFT_lod or one GLB per level):
+ *    const { buffer, levels } = await generateLODChain(inputBuffer, { levels: [{ ratio: 0.5, error: 0.01 }] });
+ *
+ * 1c. GPU instancing (EXT_mesh_gpu_instancing) for nodes sharing a mesh:
+ *    const { buffer, report } = await applyGPUInstancing(inputBuffer, { minInstances: 2 });
+ *
+ * 1d. Mesh merging (flatten static nodes, join primitives sharing a material):
+ *    const { buffer, report } = await mergeMeshes(inputBuffer, { keepNamed: true, keepAnimated: true });
  * 
  * 2. Texture processing only (server-side):
  *    const compressedBuffer = await compressGLTFTexturesOnly(inputBuffer);
  * 
+ * 2a. GLB textures to KTX2, with color space per material slot and optional overrides:
+ *    const { buffer, textures } = await compressGLBTexturesKTX2(inputBuffer, { colorSpaceOverrides: { lightmap: 'linear' } });
+ * 
+ * 2b. GLB textures to WebP or AVIF, optionally keeping the PNG/JPEG as fallback:
+ *    const { buffer, textures } = await compressGLBTexturesImage(inputBuffer, { format: 'webp', quality: 80, keepFallback: true });
+ * 
+ * 2c. Resize policy, for KTX2 and WebP/AVIF output:
+ *    const resized = await compressGLBTexturesKTX2(inputBuffer, { resize: { maxDimension: 2048, powerOfTwo: 'nearest', roleLimits: { occlusionTexture: 1024 } } });
+ * 
+ * 2d. KTX2 container inspection (standalone files or textures embedded in a GLB):
+ *    const { vkFormatName, supercompressionScheme, payloadFormat, dfd, levels } = inspectKTX2(ktx2Buffer);
+ *    const textures = await inspectGLBTextures(inputBuffer); // textures[i].inspection
+ * 
+ * 2e. KTX2 back to PNG for previews (Basis Universal payloads are transcoded to RGBA32):
+ *    const { buffer, width, height } = await transcodeKTX2ToPNG(ktx2Buffer, { level: 0, flipY: true });
+ *    const previews = await transcodeGLBTexturesToPNG(inputBuffer); // previews[i].result.buffer
+ * 
+ * 2f. Cubemaps, arrays and 3D textures from several images (or one equirectangular panorama):
+ *    const cubemap = await compressImagesToKTX2([px, nx, py, ny, pz, nz], { textureType: 'cubemap' });
+ *    const sky = await compressImagesToKTX2([panorama], { textureType: 'cubemap', faceSize: 512 });
+ *    const sprites = await compressImagesToKTX2(frames, { textureType: 'array' });
+ * 
+ * 2g. HDR environment maps from Radiance .hdr or OpenEXR images:
+ *    const env = await compressImageToKTX2(exrBuffer, { format: KTX2TranscoderFormat.UASTC_HDR_4x4, generateMipmaps: true });
+ *    const raw = await compressImageToKTX2(hdrBuffer, { hdrUncompressed: true }); // R16G16B16A16_SFLOAT
+ * 
+ * 2h. Pre-authored mip levels, a minimum mip size and alpha coverage preservation for cutouts:
+ *    const foliage = await compressImageToKTX2(level0, { mipLevelImages: [level1, level2], minMipSize: 4, preserveAlphaCoverage: true, alphaCutoff: 0.5 });
+ * 
  * 3. Full compression pipeline:
  *    const meshCompressed = await compressGLTFMeshOnly(inputBuffer);
  *    const fullyCompressed = await compressGLTFTexturesOnly(meshCompressed);
  * 
  * COMPRESSION FEATURES:
- * - Draco geometry compression (edgebreaker method, best compression)
+ * - Draco geometry compression (edgebreaker method, best compression; point clouds via kd-tree or sequential)
+ * - Meshopt geometry compression (EXT_meshopt_compression, fastest decoding)
+ * - Quantization-only mode (KHR_mesh_quantization, no decoder required)
+ * - Optional geometry optimization (weld, vertex cache, overdraw, vertex fetch)
+ * - Optional axis, unit, recentering and fit-to-size normalization
+ * - Optional generation of missing normals and MikkTSpace tangents
+ * - Optional pruning of unused UV sets, uniform white vertex colors and empty morph targets
+ * - Optional animation resampling, keyframe pruning, quantization or stripping
+ * - LOD chain generation via meshoptimizer simplification (MSFT_lod)
  * - Server-side texture processing (preparation for KTX2 compression)
+ * - WebP/AVIF texture output (EXT_texture_webp, EXT_texture_avif) with optional PNG/JPEG fallback
  * - Automatic detection of already compressed content
  * - Detailed logging and compression statistics
  * - Error handling and graceful fallbacks
@@ -26,18 +87,74 @@
  */
 
 // Main compression functions
-export { compressGLTFMeshOnly } from './meshCompression.js';
+export { compressGLTFMeshOnly, compressGLTFMeshWithReport, decompressGLTFMesh } from './meshCompression.js';
+export { generateLODChain, resolveLODOptions, DEFAULT_LOD_OPTIONS } from './lodGeneration.js';
+export { applyGPUInstancing, DEFAULT_INSTANCING_OPTIONS } from './gpuInstancing.js';
+export { mergeMeshes, countDrawCalls, DEFAULT_MESH_MERGE_OPTIONS } from './meshMerging.js';
+export { classifyTexture, resolveColorSpace, validateColorSpaceOverrides } from './textureRoles.js';
 export { 
   compressPNGToKTX2, 
   compressImageToKTX2, 
-  compressGLBTexturesKTX2
+  compressImagesToKTX2,
+  compressGLBTexturesKTX2,
+  transcodeKTX2ToPNG,
+  transcodeGLBTexturesToPNG
 } from './ktx2TextureCompression.js';
+export { compressGLBTexturesImage, DEFAULT_IMAGE_TEXTURE_OPTIONS } from './imageTextureCompression.js';
+export { computeTextureSize, resizeImage, DEFAULT_TEXTURE_RESIZE_OPTIONS } from './textureResize.js';
+export { inspectKTX2, inspectGLBTextures, isKTX2 } from './ktx2Inspection.js';
+export { equirectToCubeFaces, CUBEMAP_FACE_NAMES } from './cubemapProjection.js';
+export { decodeHDRImage, decodeRadianceHDR, decodeOpenEXR, isHDRImage } from './hdrImageDecoding.js';
+export { completeMipChain, computeMipLevelCount, computeAlphaCoverage, DEFAULT_MIP_CHAIN_OPTIONS } from './mipmapGeneration.js';
+
+export type { GLBTextureInspection } from './ktx2Inspection.js';
+export type { HDRImage } from './hdrImageDecoding.js';
+export type { MipLevel, MipChainOptions } from './mipmapGeneration.js';
+
+export type {
+  PowerOfTwoMode,
+  TextureResizeFilter,
+  TextureResizeOptions,
+  TextureUsage
+} from './textureResize.js';
+
+export type {
+  TextureOutputFormat,
+  ImageTextureOptions,
+  ImageTextureCompressionResult
+} from './imageTextureCompression.js';
+
+export type {
+  LODLevelOptions,
+  LODOptions,
+  LODLevelReport,
+  LODResult
+} from './lodGeneration.js';
+
+export type {
+  InstancingOptions,
+  InstancingReport,
+  InstancingResult
+} from './gpuInstancing.js';
+
+export type {
+  MeshMergeOptions,
+  MeshMergeReport,
+  MeshMergeResult
+} from './meshMerging.js';
 
 export type {
   KTX2TranscoderFormat,
+  KTX2TextureType,
   BasisParams,
   KTX2CompressionSettings,
-  KTX2CompressionResult
+  KTX2CompressionResult,
+  KTX2LevelInfo,
+  KTX2DataFormatDescriptor,
+  KTX2InspectionResult,
+  KTX2TranscodeOptions,
+  KTX2TranscodeResult,
+  GLBTextureTranscodeResult
 } from './ktx2TextureCompression.js';
 
 // Utility types and functions
@@ -45,31 +162,62 @@ export type {
   CompressionStats,
   TextureCompressionOptions,
   MeshCompressionOptions,
-  CompressionResult
+  MeshCompressionReport,
+  MeshCompressionResult,
+  MeshDecompressionReport,
+  MeshDecompressionResult,
+  GeometryOptimizationOptions,
+  GeometryOptimizationReport,
+  SceneNormalizationOptions,
+  SceneNormalizationReport,
+  VertexAttributeGenerationOptions,
+  VertexAttributeGenerationReport,
+  AnimationOptimizationOptions,
+  AnimationOptimizationReport,
+  AttributePruningReport,
+  RemovedAttributeReport,
+  DeformationReport,
+  PointCloudReport,
+  SkippedPrimitiveReport,
+  MeshErrorMetrics,
+  GeometryErrorReport,
+  CompressionResult,
+  TextureRole,
+  TextureColorSpace,
+  ColorSpaceOverrides,
+  TextureReport
 } from './compressionUtils.js';
 
 export {
   calculateCompressionStats,
   logCompressionStats,
   isDracoCompressed,
+  isMeshoptCompressed,
   hasCompressibleGeometry,
   isKtx2Compressed,
   getTextureInfo,
   getMeshInfo,
   DEFAULT_TEXTURE_OPTIONS,
   DEFAULT_MESH_OPTIONS,
+  POINT_CLOUD_MESH_OPTIONS,
+  resolveMeshOptions,
   validateBuffer,
   createErrorResult
 } from './compressionUtils.js';
 
 // Import for function usage
-import { compressGLTFMeshOnly } from './meshCompression.js';
+import { compressGLTFMeshWithReport } from './meshCompression.js';
 import { 
   compressGLBTexturesKTX2 
 } from './ktx2TextureCompression.js';
+import { compressGLBTexturesImage, type ImageTextureOptions } from './imageTextureCompression.js';
+import type { TextureResizeOptions } from './textureResize.js';
 import type {
   CompressionResult,
-  CompressionStats
+  CompressionStats,
+  MeshCompressionOptions,
+  MeshCompressionReport,
+  TextureReport
 } from './compressionUtils.js';
 import {
   calculateCompressionStats,
@@ -81,7 +229,8 @@ import {
 /**
  * Combined compression function that applies both mesh and texture compression
  * @param inputBuffer - The ArrayBuffer of the glTF/glb file to compress
- * @param options - Compression options
+ * @param options - Compression options; imageTextures switches texture output from KTX2 to WebP/AVIF,
+ * resize applies the texture resize policy to either output
  * @returns Promise that resolves to a CompressionResult
  */
 export const compressGLTFComplete = async (
@@ -89,6 +238,9 @@ export const compressGLTFComplete = async (
   options: {
     compressMesh?: boolean;
     compressTextures?: boolean;
+    meshOptions?: Partial<MeshCompressionOptions>;
+    imageTextures?: Partial<ImageTextureOptions>;
+    resize?: Partial<TextureResizeOptions>;
   } = { compressMesh: true, compressTextures: true }
 ): Promise<CompressionResult> => {
   try {
@@ -96,15 +248,20 @@ export const compressGLTFComplete = async (
     
     let currentBuffer = inputBuffer;
     let meshCompressed = false;
+    let meshReport: MeshCompressionReport | undefined;
     let textureCompressed = false;
+    let texturesProcessed: number | undefined;
+    let textureReports: TextureReport[] | undefined;
     const errors: string[] = [];
 
     // Step 1: Mesh compression
     if (options.compressMesh) {
       try {
         console.log("Starting mesh compression phase...");
-        currentBuffer = await compressGLTFMeshOnly(currentBuffer);
-        meshCompressed = true;
+        const meshResult = await compressGLTFMeshWithReport(currentBuffer, options.meshOptions);
+        currentBuffer = meshResult.buffer;
+        meshReport = meshResult.report;
+        meshCompressed = meshResult.report.meshCompressed;
       } catch (error) {
         const errorMessage = `Mesh compression failed: ${error instanceof Error ? error.message : String(error)}`;
         console.error(errorMessage);
@@ -116,9 +273,13 @@ export const compressGLTFComplete = async (
     if (options.compressTextures) {
       try {
         console.log("Starting texture compression phase...");
-        const result = await compressGLBTexturesKTX2(currentBuffer);
+        const result = options.imageTextures
+          ? await compressGLBTexturesImage(currentBuffer, { ...options.imageTextures, resize: options.resize })
+          : await compressGLBTexturesKTX2(currentBuffer, { resize: options.resize });
         currentBuffer = result.buffer;
         textureCompressed = true;
+        texturesProcessed = result.texturesProcessed ?? 0;
+        textureReports = result.textures;
         if (result.errors && result.errors.length > 0) {
           errors.push(...result.errors);
         }
@@ -137,6 +298,9 @@ export const compressGLTFComplete = async (
       stats,
       meshCompressed,
       textureCompressed,
+      meshReport,
+      texturesProcessed,
+      textureReports,
       errors: errors.length > 0 ? errors : []
     };
 
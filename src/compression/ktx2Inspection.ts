@@ -0,0 +1,323 @@
+/**
+ * KTX2 container inspection
+ * Parses the header, level index, data format descriptor and key/value data of KTX2 files,
+ * standalone or embedded in a GLB, without transcoding the payload
+ */
+
+import { NodeIO } from "@gltf-transform/core";
+import { loadDracoDependencies, loadMeshoptDependencies } from './meshCodecs.js';
+import { GEOMETRY_PRESERVING_IO_EXTENSIONS } from './pointCloudCompression.js';
+import { MSFTLod } from './msftLod.js';
+import { classifyTexture } from './textureRoles.js';
+import { KTX2TranscoderFormat, type KTX2InspectionResult, type KTX2LevelInfo, type KTX2DataFormatDescriptor } from './ktx2TextureCompression.js';
+import type { TextureRole } from './compressionUtils.js';
+
+/**
+ * Inspection of one texture embedded in a GLB
+ */
+export interface GLBTextureInspection {
+  texture: string;
+  mimeType: string;
+  role: TextureRole;
+  slots: string[];
+  inspection?: KTX2InspectionResult;
+  error?: string;
+}
+
+const KTX2_IDENTIFIER = [0xAB, 0x4B, 0x54, 0x58, 0x20, 0x32, 0x30, 0xBB, 0x0D, 0x0A, 0x1A, 0x0A];
+const HEADER_BYTE_LENGTH = 80; // Identifier, header and index
+const LEVEL_INDEX_ENTRY_LENGTH = 24;
+
+const VK_FORMAT_NAMES: Record<number, string> = {
+  0: 'VK_FORMAT_UNDEFINED',
+  9: 'VK_FORMAT_R8_UNORM',
+  15: 'VK_FORMAT_R8_SRGB',
+  16: 'VK_FORMAT_R8G8_UNORM',
+  22: 'VK_FORMAT_R8G8_SRGB',
+  23: 'VK_FORMAT_R8G8B8_UNORM',
+  29: 'VK_FORMAT_R8G8B8_SRGB',
+  37: 'VK_FORMAT_R8G8B8A8_UNORM',
+  43: 'VK_FORMAT_R8G8B8A8_SRGB',
+  44: 'VK_FORMAT_B8G8R8A8_UNORM',
+  50: 'VK_FORMAT_B8G8R8A8_SRGB',
+  76: 'VK_FORMAT_R16_SFLOAT',
+  83: 'VK_FORMAT_R16G16_SFLOAT',
+  97: 'VK_FORMAT_R16G16B16A16_SFLOAT',
+  100: 'VK_FORMAT_R32_SFLOAT',
+  109: 'VK_FORMAT_R32G32B32A32_SFLOAT',
+  122: 'VK_FORMAT_B10G11R11_UFLOAT_PACK32',
+  123: 'VK_FORMAT_E5B9G9R9_UFLOAT_PACK32',
+  131: 'VK_FORMAT_BC1_RGB_UNORM_BLOCK',
+  134: 'VK_FORMAT_BC1_RGBA_SRGB_BLOCK',
+  137: 'VK_FORMAT_BC3_UNORM_BLOCK',
+  138: 'VK_FORMAT_BC3_SRGB_BLOCK',
+  139: 'VK_FORMAT_BC4_UNORM_BLOCK',
+  141: 'VK_FORMAT_BC5_UNORM_BLOCK',
+  143: 'VK_FORMAT_BC6H_UFLOAT_BLOCK',
+  145: 'VK_FORMAT_BC7_UNORM_BLOCK',
+  146: 'VK_FORMAT_BC7_SRGB_BLOCK',
+  147: 'VK_FORMAT_ETC2_R8G8B8_UNORM_BLOCK',
+  148: 'VK_FORMAT_ETC2_R8G8B8_SRGB_BLOCK',
+  151: 'VK_FORMAT_ETC2_R8G8B8A8_UNORM_BLOCK',
+  152: 'VK_FORMAT_ETC2_R8G8B8A8_SRGB_BLOCK',
+  157: 'VK_FORMAT_ASTC_4x4_UNORM_BLOCK',
+  158: 'VK_FORMAT_ASTC_4x4_SRGB_BLOCK',
+  1000066000: 'VK_FORMAT_ASTC_4x4_SFLOAT_BLOCK'
+};
+
+const SUPERCOMPRESSION_SCHEMES = ['NONE', 'BASISLZ', 'ZSTD', 'ZLIB'];
+
+const COLOR_MODELS: Record<number, string> = {
+  0: 'UNSPECIFIED',
+  1: 'RGBSDA',
+  128: 'BC1A',
+  129: 'BC2',
+  130: 'BC3',
+  131: 'BC4',
+  132: 'BC5',
+  133: 'BC6H',
+  134: 'BC7',
+  160: 'ETC1',
+  161: 'ETC2',
+  162: 'ASTC',
+  163: 'ETC1S',
+  166: 'UASTC',
+  167: 'UASTC_HDR'
+};
+
+const TRANSFER_FUNCTIONS = [
+  'UNSPECIFIED', 'LINEAR', 'SRGB', 'ITU', 'NTSC', 'SLOG', 'SLOG2', 'BT1886', 'HLG_OETF', 'HLG_EOTF',
+  'PQ_EOTF', 'PQ_OETF', 'DCIP3', 'PAL_OETF', 'PAL625_EOTF', 'ST240', 'ACESCC', 'ACESCCT', 'ADOBERGB'
+];
+
+const COLOR_PRIMARIES = [
+  'UNSPECIFIED', 'BT709', 'BT601_EBU', 'BT601_SMPTE', 'BT2020', 'CIEXYZ', 'ACES', 'ACESCC',
+  'NTSC1953', 'PAL525', 'DISPLAYP3', 'ADOBERGB'
+];
+
+// Sample channel ids by color model; other models are reported by number
+const ETC1S_CHANNELS: Record<number, string> = { 0: 'RGB', 3: 'RRR', 4: 'GGG', 15: 'AAA' };
+const UASTC_CHANNELS: Record<number, string> = { 0: 'RGB', 3: 'RGBA', 4: 'RRR', 5: 'RRRG', 6: 'RG' };
+const RGBSDA_CHANNELS: Record<number, string> = { 0: 'R', 1: 'G', 2: 'B', 13: 'S', 14: 'D', 15: 'A' };
+
+const COLOR_MODEL_ETC1S = 163;
+const COLOR_MODEL_UASTC = 166;
+const SUPERCOMPRESSION_BASISLZ = 1;
+
+const nameOf = (names: Record<number, string> | string[], value: number): string => {
+  return (names as Record<number, string>)[value] ?? `UNKNOWN_${value}`;
+};
+
+const channelName = (colorModel: number, channelId: number): string => {
+  const names = colorModel === COLOR_MODEL_ETC1S ? ETC1S_CHANNELS
+    : colorModel === COLOR_MODEL_UASTC ? UASTC_CHANNELS
+    : colorModel === 1 ? RGBSDA_CHANNELS
+    : {};
+  return names[channelId] ?? `CHANNEL_${channelId}`;
+};
+
+/**
+ * Check the KTX2 file identifier
+ * @param data - File contents
+ * @returns True if the data starts with the KTX 2.0 identifier
+ */
+export const isKTX2 = (data: ArrayBuffer | Uint8Array): boolean => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  return bytes.byteLength >= KTX2_IDENTIFIER.length && KTX2_IDENTIFIER.every((byte, i) => bytes[i] === byte);
+};
+
+const readUint64 = (view: DataView, offset: number): number => {
+  const value = view.getBigUint64(offset, true);
+  if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new Error(`Invalid KTX2 file: 64-bit offset ${value} at byte ${offset} is out of range`);
+  }
+  return Number(value);
+};
+
+const checkRange = (data: Uint8Array, offset: number, length: number, section: string): void => {
+  if (offset + length > data.byteLength) {
+    throw new Error(`Invalid KTX2 file: ${section} (${offset}-${offset + length}) exceeds file size ${data.byteLength}`);
+  }
+};
+
+const parseDFD = (view: DataView, offset: number, length: number): KTX2DataFormatDescriptor => {
+  // totalSize (4 bytes), then the basic descriptor block header (24 bytes) and 16-byte samples
+  if (length < 28) {
+    throw new Error(`Invalid KTX2 file: data format descriptor is ${length} bytes, expected at least 28`);
+  }
+  const block = offset + 4;
+  const descriptorBlockSize = view.getUint16(block + 6, true);
+  const colorModel = view.getUint8(block + 8);
+  const colorPrimaries = view.getUint8(block + 9);
+  const transferFunction = view.getUint8(block + 10);
+  const flags = view.getUint8(block + 11);
+  // Dimensions are stored minus one
+  const texelBlockDimensions = [0, 1, 2, 3].map(i => view.getUint8(block + 12 + i) + 1);
+
+  const sampleCount = Math.max(0, Math.floor((Math.min(descriptorBlockSize, length - 4) - 24) / 16));
+  const channels: string[] = [];
+  for (let i = 0; i < sampleCount; i++) {
+    const channelType = view.getUint8(block + 24 + i * 16 + 3);
+    channels.push(channelName(colorModel, channelType & 0x0F));
+  }
+
+  return {
+    colorModel: nameOf(COLOR_MODELS, colorModel),
+    colorPrimaries: nameOf(COLOR_PRIMARIES, colorPrimaries),
+    transferFunction: nameOf(TRANSFER_FUNCTIONS, transferFunction),
+    premultipliedAlpha: (flags & 1) === 1,
+    texelBlockDimensions,
+    channels
+  };
+};
+
+const parseKeyValues = (data: Uint8Array, view: DataView, offset: number, length: number): Record<string, string> => {
+  const keyValues: Record<string, string> = {};
+  const decoder = new TextDecoder();
+  const end = offset + length;
+  let cursor = offset;
+
+  while (cursor + 4 <= end) {
+    const entryLength = view.getUint32(cursor, true);
+    const entryStart = cursor + 4;
+    if (entryStart + entryLength > end) {
+      throw new Error(`Invalid KTX2 file: key/value entry at byte ${cursor} exceeds key/value data`);
+    }
+    const entry = data.subarray(entryStart, entryStart + entryLength);
+    const separator = entry.indexOf(0);
+    if (separator > 0) {
+      const key = decoder.decode(entry.subarray(0, separator));
+      const value = entry.subarray(separator + 1);
+      // Text values end with a NUL; anything else is shown as hex
+      const isText = value.byteLength > 0 && value[value.byteLength - 1] === 0 && value.indexOf(0) === value.byteLength - 1;
+      keyValues[key] = isText
+        ? decoder.decode(value.subarray(0, value.byteLength - 1))
+        : Array.from(value, byte => byte.toString(16).padStart(2, '0')).join('');
+    }
+    // Entries are padded to 4 bytes
+    cursor = entryStart + Math.ceil(entryLength / 4) * 4;
+  }
+
+  return keyValues;
+};
+
+/**
+ * Parse the container metadata of a KTX2 file
+ * @param data - KTX2 file contents
+ * @returns Header, levels, data format descriptor and key/value data
+ */
+export const inspectKTX2 = (data: ArrayBuffer | Uint8Array): KTX2InspectionResult => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (!isKTX2(bytes)) {
+    throw new Error('Invalid KTX2 file: missing KTX 2.0 identifier');
+  }
+  checkRange(bytes, 0, HEADER_BYTE_LENGTH, 'header');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  const vkFormat = view.getUint32(12, true);
+  const typeSize = view.getUint32(16, true);
+  const pixelWidth = view.getUint32(20, true);
+  const pixelHeight = view.getUint32(24, true);
+  const pixelDepth = view.getUint32(28, true);
+  const layerCount = view.getUint32(32, true);
+  const faceCount = view.getUint32(36, true);
+  const levelCount = view.getUint32(40, true);
+  const supercompressionScheme = view.getUint32(44, true);
+
+  const dfdByteOffset = view.getUint32(48, true);
+  const dfdByteLength = view.getUint32(52, true);
+  const kvdByteOffset = view.getUint32(56, true);
+  const kvdByteLength = view.getUint32(60, true);
+
+  // A level count of 0 still has one level in the index
+  const indexedLevels = Math.max(1, levelCount);
+  checkRange(bytes, HEADER_BYTE_LENGTH, indexedLevels * LEVEL_INDEX_ENTRY_LENGTH, 'level index');
+  const levels: KTX2LevelInfo[] = [];
+  for (let level = 0; level < indexedLevels; level++) {
+    const entry = HEADER_BYTE_LENGTH + level * LEVEL_INDEX_ENTRY_LENGTH;
+    const byteOffset = readUint64(view, entry);
+    const byteLength = readUint64(view, entry + 8);
+    checkRange(bytes, byteOffset, byteLength, `level ${level}`);
+    levels.push({
+      level,
+      width: Math.max(1, pixelWidth >> level),
+      height: Math.max(1, pixelHeight >> level),
+      byteOffset,
+      byteLength,
+      uncompressedByteLength: readUint64(view, entry + 16)
+    });
+  }
+
+  checkRange(bytes, dfdByteOffset, dfdByteLength, 'data format descriptor');
+  const dfd = parseDFD(view, dfdByteOffset, dfdByteLength);
+
+  checkRange(bytes, kvdByteOffset, kvdByteLength, 'key/value data');
+  const keyValues = kvdByteLength > 0 ? parseKeyValues(bytes, view, kvdByteOffset, kvdByteLength) : {};
+
+  let payloadFormat: KTX2TranscoderFormat | null = null;
+  if (dfd.colorModel === 'ETC1S' || supercompressionScheme === SUPERCOMPRESSION_BASISLZ) {
+    payloadFormat = KTX2TranscoderFormat.ETC1S;
+  } else if (dfd.colorModel === 'UASTC') {
+    payloadFormat = KTX2TranscoderFormat.UASTC_4x4;
+  } else if (dfd.colorModel === 'UASTC_HDR') {
+    payloadFormat = KTX2TranscoderFormat.UASTC_HDR_4x4;
+  }
+
+  return {
+    byteLength: bytes.byteLength,
+    vkFormat,
+    vkFormatName: nameOf(VK_FORMAT_NAMES, vkFormat),
+    typeSize,
+    pixelWidth,
+    pixelHeight,
+    pixelDepth,
+    layerCount,
+    faceCount,
+    levelCount,
+    supercompressionScheme: nameOf(SUPERCOMPRESSION_SCHEMES, supercompressionScheme),
+    payloadFormat,
+    levels,
+    dfd,
+    keyValues,
+    orientation: keyValues['KTXorientation'] ?? null,
+    writer: keyValues['KTXwriter'] ?? null
+  };
+};
+
+/**
+ * Inspect the KTX2 textures embedded in a GLB.
+ * Textures in other formats are listed without an inspection.
+ * @param inputBuffer - The ArrayBuffer of the glb file
+ * @returns One entry per texture, with the inspection or the parse error
+ */
+export const inspectGLBTextures = async (inputBuffer: ArrayBuffer): Promise<GLBTextureInspection[]> => {
+  const io = new NodeIO()
+    .registerExtensions([...GEOMETRY_PRESERVING_IO_EXTENSIONS, MSFTLod])
+    .registerDependencies(await loadMeshoptDependencies())
+    .registerDependencies(await loadDracoDependencies());
+
+  const document = await io.readBinary(new Uint8Array(inputBuffer));
+  const textures = document.getRoot().listTextures();
+  console.log(`Inspecting ${textures.length} GLB textures`);
+
+  return textures.map((texture, index) => {
+    const { role, slots } = classifyTexture(texture);
+    const report: GLBTextureInspection = {
+      texture: texture.getName() || `texture_${index}`,
+      mimeType: texture.getMimeType(),
+      role,
+      slots
+    };
+    const image = texture.getImage();
+    if (report.mimeType !== 'image/ktx2' || !image) {
+      return report;
+    }
+    try {
+      report.inspection = inspectKTX2(image);
+    } catch (error) {
+      report.error = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Failed to inspect texture ${report.texture}: ${report.error}`);
+    }
+    return report;
+  });
+};
@@ -1,6 +1,12 @@
-import { createCanvas, loadImage, ImageData } from 'canvas';
+import { createCanvas, loadImage, ImageData, type Image } from 'canvas';
 import { readFileSync } from 'fs';
+import { createRequire } from 'module';
 import { resolve } from 'path';
+import type { ColorSpaceOverrides, TextureReport, TextureRole } from './compressionUtils.js';
+import { computeTextureSize, resizeImage, DEFAULT_TEXTURE_RESIZE_OPTIONS, type TextureResizeOptions, type TextureUsage } from './textureResize.js';
+import { equirectToCubeFaces } from './cubemapProjection.js';
+import { decodeHDRImage, isHDRImage, resampleHDRImage, toHalfFloatRGBA, type HDRImage } from './hdrImageDecoding.js';
+import { buildVolumeMipChain, completeMipChain, computeMipLevelCount, getMipLevelSize, DEFAULT_MIP_CHAIN_OPTIONS, type MipChainOptions, type MipLevel } from './mipmapGeneration.js';
 
 export interface KTX2CompressionResult {
   buffer: ArrayBuffer;
@@ -8,16 +14,114 @@ export interface KTX2CompressionResult {
   originalSize: number;
   compressedSize: number;
   format?: string;
+  vkFormat?: string; // R8G8B8A8_SRGB or R8G8B8A8_UNORM; ASTC_4x4_SFLOAT_BLOCK or R16G16B16A16_SFLOAT for HDR input
+  textureType?: KTX2TextureType;
+  sliceCount?: number; // Faces, layers or depth slices
+  mipLevels?: number; // Levels in the KTX2 file, including level 0
+  suppliedMipLevels?: number; // Pre-authored levels used, excluding level 0
+  width?: number;
+  height?: number;
+  sourceWidth?: number;
+  sourceHeight?: number;
   texturesProcessed?: number;
+  textures?: TextureReport[]; // Per-texture role and settings, for GLB inputs
   errors?: string[];
 }
 
+/**
+ * Layout of a KTX2 texture: a single image, six cubemap faces, array layers or 3D depth slices
+ */
+export type KTX2TextureType = '2d' | 'cubemap' | 'array' | '3d';
+
+const MAX_TEXTURE_SLICES = 256; // Array layers or 3D depth slices
+const MAX_CUBEMAP_FACE_SIZE = 4096;
+const MAX_MIP_LEVELS = 14; // Levels below an 8192 texture
+
 /**
  * KTX2 transcoder format constants matching Basis Universal transcoder formats
  */
 export enum KTX2TranscoderFormat {
   UASTC_4x4 = 'UASTC_4x4',
-  ETC1S = 'ETC1S'
+  ETC1S = 'ETC1S',
+  UASTC_HDR_4x4 = 'UASTC_HDR_4x4' // Radiance .hdr and OpenEXR input only
+}
+
+/**
+ * One mip level of a KTX2 container
+ */
+export interface KTX2LevelInfo {
+  level: number;
+  width: number;
+  height: number;
+  byteOffset: number;
+  byteLength: number;
+  uncompressedByteLength: number; // Size before supercompression (0 for BasisLZ)
+}
+
+/**
+ * Basic data format descriptor (DFD) of a KTX2 container
+ */
+export interface KTX2DataFormatDescriptor {
+  colorModel: string; // e.g. ETC1S, UASTC, RGBSDA
+  colorPrimaries: string; // e.g. BT709
+  transferFunction: string; // LINEAR or SRGB for most textures
+  premultipliedAlpha: boolean;
+  texelBlockDimensions: number[]; // Block width, height, depth and layers in texels
+  channels: string[]; // Channel of each sample, e.g. ['RGB', 'AAA'] for ETC1S with alpha
+}
+
+/**
+ * Container metadata parsed from a KTX2 file
+ */
+export interface KTX2InspectionResult {
+  byteLength: number;
+  vkFormat: number;
+  vkFormatName: string; // VK_FORMAT_UNDEFINED for Basis Universal payloads
+  typeSize: number;
+  pixelWidth: number;
+  pixelHeight: number;
+  pixelDepth: number;
+  layerCount: number;
+  faceCount: number;
+  levelCount: number; // 0 asks the loader to generate mipmaps
+  supercompressionScheme: string; // NONE, BASISLZ, ZSTD or ZLIB
+  payloadFormat: KTX2TranscoderFormat | null; // Basis Universal payload, null for other formats
+  levels: KTX2LevelInfo[];
+  dfd: KTX2DataFormatDescriptor;
+  keyValues: Record<string, string>; // Text values as strings, binary values as hex
+  orientation: string | null; // KTXorientation, e.g. "rd"
+  writer: string | null; // KTXwriter
+}
+
+/**
+ * KTX2 to PNG transcoding options
+ */
+export interface KTX2TranscodeOptions {
+  level?: number; // Mip level to decode (default 0, the full-size image)
+  flipY?: boolean; // Flip rows back, undoing flipY applied at compression time
+}
+
+/**
+ * PNG decoded from a KTX2 texture
+ */
+export interface KTX2TranscodeResult {
+  buffer: ArrayBuffer; // PNG data
+  width: number;
+  height: number;
+  level: number;
+  levelCount: number;
+  transcoded: boolean; // True for Basis Universal payloads, false for uncompressed RGBA8
+}
+
+/**
+ * PNG preview of one KTX2 texture embedded in a GLB
+ */
+export interface GLBTextureTranscodeResult {
+  texture: string;
+  role: TextureRole;
+  slots: string[];
+  result?: KTX2TranscodeResult;
+  error?: string;
 }
 
 /**
@@ -33,7 +137,17 @@ export interface KTX2CompressionSettings {
   generateMipmaps?: boolean;
   useZstandard?: boolean;
   flipY?: boolean;
-  forceFormat?: boolean; // If true, overrides normal map auto-detection
+  forceFormat?: boolean; // If true, uses format for every texture instead of UASTC for normal maps
+  colorSpaceOverrides?: ColorSpaceOverrides; // GLB only: color space by texture name, URI or role
+  resize?: Partial<TextureResizeOptions>; // Resize policy; sides are always resampled to multiples of 4
+  usage?: TextureUsage; // Role and slots, set by the GLB path for role and slot size limits
+  textureType?: KTX2TextureType; // Layout of the input images (default: '2d', one image)
+  faceSize?: number; // Cubemap only: project one equirectangular image to faces of this size
+  hdrUncompressed?: boolean; // HDR input only: store R16G16B16A16_SFLOAT instead of UASTC HDR 4x4
+  mipLevelImages?: ArrayBuffer[]; // 2d only: pre-authored mip levels 1..n, each half the size of the previous one
+  minMipSize?: number; // The mip chain stops before the longer side drops below this size (default 1, the full chain)
+  preserveAlphaCoverage?: boolean; // Rescale generated mip alpha so alpha-tested (cutout) textures keep their coverage
+  alphaCutoff?: number; // Alpha test threshold for preserveAlphaCoverage (0-1, default 0.5)
   customBasisParams?: Partial<BasisParams>; // Legacy support
 }
 
@@ -46,7 +160,7 @@ let isInitializing = false;
 interface CompressionRequest {
   resolve: (result: KTX2CompressionResult) => void;
   reject: (error: Error) => void;
-  imageArrayBuffer: ArrayBuffer;
+  imageArrayBuffers: ArrayBuffer[];
   settings: KTX2CompressionSettings;
 }
 
@@ -56,9 +170,9 @@ class KTX2RequestQueue {
   private maxConcurrent = 1; // Process one request at a time to prevent WASM crashes
   private currentRequests = 0;
 
-  async add(imageArrayBuffer: ArrayBuffer, settings: KTX2CompressionSettings): Promise<KTX2CompressionResult> {
+  async add(imageArrayBuffers: ArrayBuffer[], settings: KTX2CompressionSettings): Promise<KTX2CompressionResult> {
     return new Promise((resolve, reject) => {
-      this.queue.push({ resolve, reject, imageArrayBuffer, settings });
+      this.queue.push({ resolve, reject, imageArrayBuffers, settings });
       this.processQueue();
     });
   }
@@ -77,7 +191,7 @@ class KTX2RequestQueue {
     this.currentRequests++;
 
     try {
-      const result = await this.processRequest(request.imageArrayBuffer, request.settings);
+      const result = await this.processRequest(request.imageArrayBuffers, request.settings);
       // Reset error count on successful compression
       consecutiveErrors = 0;
       request.resolve(result);
@@ -94,11 +208,12 @@ class KTX2RequestQueue {
     }
   }
 
-  private async processRequest(imageArrayBuffer: ArrayBuffer, settings: KTX2CompressionSettings): Promise<KTX2CompressionResult> {
+  private async processRequest(imageArrayBuffers: ArrayBuffer[], settings: KTX2CompressionSettings): Promise<KTX2CompressionResult> {
     // Add timeout protection
-    const timeoutMs = 30000; // 30 seconds timeout
+    const sliceCount = settings.faceSize ? 6 : imageArrayBuffers.length;
+    const timeoutMs = 30000 * sliceCount; // 30 seconds timeout per slice
     return Promise.race([
-      compressImageToKTX2Internal(imageArrayBuffer, settings),
+      compressImagesToKTX2Internal(imageArrayBuffers, settings),
       new Promise<never>((_, reject) => {
         setTimeout(() => {
           reject(new Error(`Compression timeout after ${timeoutMs}ms`));
@@ -339,6 +454,44 @@ async function initKtxModule(): Promise<void> {
   }
 }
 
+// Basis Universal encoder module, used for UASTC HDR (libktx only encodes LDR images)
+let basisEncoder: any = null;
+
+// Initialize the Basis Universal encoder from local files; calls are serialized by the request queue
+async function initBasisEncoderModule(): Promise<any> {
+  if (basisEncoder) return basisEncoder;
+
+  try {
+    console.log("KTX2: Initializing Basis Universal encoder from local files...");
+
+    const publicPath = resolve(process.cwd(), 'public', 'ktx2');
+    const encoderJsPath = resolve(publicPath, 'basis_encoder.js');
+    const encoderWasmPath = resolve(publicPath, 'basis_encoder.wasm');
+    console.log(`KTX2: Loading basis_encoder.js from: ${encoderJsPath}`);
+
+    // The Emscripten build expects CommonJS require, __filename and __dirname
+    const scriptContent = readFileSync(encoderJsPath, 'utf8');
+    const getBasisFactory = new Function('require', '__filename', '__dirname', scriptContent + "\nreturn BASIS;");
+    const basisFactory = getBasisFactory(createRequire(import.meta.url), encoderJsPath, publicPath);
+    if (typeof basisFactory !== 'function') {
+      throw new Error("Failed to retrieve BASIS function after executing basis_encoder.js.");
+    }
+
+    const module = await basisFactory({ wasmBinary: readFileSync(encoderWasmPath) });
+    if (!module || !module.BasisEncoder || !module.hdr_image_type) {
+      throw new Error('Basis encoder initialization succeeded but essential components are missing');
+    }
+    module.initializeBasis();
+
+    basisEncoder = module;
+    console.log("KTX2: Basis Universal encoder initialized successfully");
+    return basisEncoder;
+  } catch (error) {
+    console.error("KTX2: Failed to initialize Basis Universal encoder:", error);
+    throw new Error(`Basis encoder initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 /**
  * Comprehensive Basis Universal compression parameters interface
  */
@@ -366,6 +519,9 @@ export interface BasisParams {
   rdo_uastc_smooth_block_max_std_dev?: number;
   rdo_uastc_max_allowed_rms_increase_ratio?: number;
   rdo_uastc_skip_block_rms_thresh?: number;
+
+  // UASTC HDR specific parameters
+  uastcHDRQuality?: number; // For UASTC HDR mode (0-4, higher = better quality, default 1)
   
   // Advanced settings
   mipSrgb?: boolean;
@@ -520,8 +676,8 @@ function validateCompressionInputs(imageArrayBuffer: ArrayBuffer, settings: KTX2
 /**
  * Checks if there's enough memory available for processing
  */
-function checkMemoryAvailability(imageArrayBuffer: ArrayBuffer): void {
-  const requiredMemory = imageArrayBuffer.byteLength * 4; // More conservative estimate: 4x memory usage for processing
+function checkMemoryAvailability(inputByteLength: number): void {
+  const requiredMemory = inputByteLength * 4; // More conservative estimate: 4x memory usage for processing
 
   // Check if we have enough memory (rough estimate)
   if (typeof performance !== 'undefined' && 'memory' in performance) {
@@ -547,27 +703,189 @@ function checkMemoryAvailability(imageArrayBuffer: ArrayBuffer): void {
   }
 }
 
+/**
+ * Validates image dimensions to prevent WASM crashes
+ */
+function validateImageDimensions(width: number, height: number): void {
+  const maxDimension = 8192; // 8K max dimension
+  if (width > maxDimension || height > maxDimension) {
+    throw new Error(`Image dimensions too large: ${width}x${height}. Maximum allowed: ${maxDimension}x${maxDimension}`);
+  }
+
+  if (width < 4 || height < 4) {
+    throw new Error(`Image dimensions too small: ${width}x${height}. Minimum required: 4x4`);
+  }
+
+  // Check for reasonable aspect ratios to prevent extreme memory usage
+  const aspectRatio = Math.max(width, height) / Math.min(width, height);
+  if (aspectRatio > 16) {
+    throw new Error(`Image aspect ratio too extreme: ${aspectRatio.toFixed(2)}:1. Maximum allowed: 16:1`);
+  }
+}
+
+/**
+ * Validates the number of images for the texture type
+ */
+function validateTextureLayout(imageCount: number, settings: KTX2CompressionSettings): void {
+  const textureType = settings.textureType ?? '2d';
+
+  if (settings.faceSize !== undefined) {
+    if (textureType !== 'cubemap') {
+      throw new Error(`Invalid faceSize: only cubemaps are projected from an equirectangular image`);
+    }
+    if (!Number.isInteger(settings.faceSize) || settings.faceSize < 4 || settings.faceSize > MAX_CUBEMAP_FACE_SIZE) {
+      throw new Error(`Invalid faceSize: ${settings.faceSize}. Must be an integer between 4 and ${MAX_CUBEMAP_FACE_SIZE}`);
+    }
+    if (imageCount !== 1) {
+      throw new Error(`Invalid image count: an equirectangular cubemap takes 1 image, received ${imageCount}`);
+    }
+    return;
+  }
+
+  if (textureType === '2d' && imageCount !== 1) {
+    throw new Error(`Invalid image count: a 2d texture takes 1 image, received ${imageCount}`);
+  }
+  if (textureType === 'cubemap' && imageCount !== 6) {
+    throw new Error(`Invalid image count: a cubemap takes 6 faces (+X, -X, +Y, -Y, +Z, -Z) or 1 equirectangular image with faceSize, received ${imageCount}`);
+  }
+  if (imageCount < 1 || imageCount > MAX_TEXTURE_SLICES) {
+    throw new Error(`Invalid image count: ${imageCount}. A ${textureType} texture takes 1 to ${MAX_TEXTURE_SLICES} images`);
+  }
+}
+
+/**
+ * Validates the mip chain settings
+ */
+function validateMipSettings(settings: KTX2CompressionSettings): void {
+  if (settings.minMipSize !== undefined && (!Number.isInteger(settings.minMipSize) || settings.minMipSize < 1 || settings.minMipSize > 8192)) {
+    throw new Error(`Invalid minMipSize: ${settings.minMipSize}. Must be an integer between 1 and 8192`);
+  }
+  if (settings.alphaCutoff !== undefined && (!Number.isFinite(settings.alphaCutoff) || settings.alphaCutoff <= 0 || settings.alphaCutoff > 1)) {
+    throw new Error(`Invalid alphaCutoff: ${settings.alphaCutoff}. Must be a number greater than 0 and at most 1`);
+  }
+
+  const mipLevelImages = settings.mipLevelImages ?? [];
+  if (mipLevelImages.length > 0) {
+    if ((settings.textureType ?? '2d') !== '2d') {
+      throw new Error(`Invalid mip levels: pre-authored mip levels are only supported for 2d textures`);
+    }
+    if (mipLevelImages.length > MAX_MIP_LEVELS - 1) {
+      throw new Error(`Invalid mip levels: ${mipLevelImages.length} pre-authored levels. Maximum allowed: ${MAX_MIP_LEVELS - 1}`);
+    }
+    for (const mipLevelImage of mipLevelImages) {
+      validateCompressionInputs(mipLevelImage, settings);
+    }
+  }
+}
+
+/**
+ * Draw an image at the given size and read back its RGBA pixels, optionally flipped vertically
+ */
+function drawImagePixels(image: Image, width: number, height: number, flipY: boolean): Uint8ClampedArray {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Failed to get 2D context from canvas');
+  }
+
+  if (flipY) {
+    ctx.save();
+    ctx.scale(1, -1); // Flip Y axis
+    ctx.drawImage(image, 0, -height, width, height); // Draw flipped
+    ctx.restore();
+  } else {
+    ctx.drawImage(image, 0, 0, width, height);
+  }
+
+  const imageData = ctx.getImageData(0, 0, width, height);
+  if (!imageData || !imageData.data || imageData.data.length === 0) {
+    throw new Error('Failed to extract valid image data from canvas');
+  }
+
+  // Additional safety check for image dimensions
+  if (imageData.width !== width || imageData.height !== height) {
+    throw new Error(`Image data dimensions mismatch. Expected: ${width}x${height}, Got: ${imageData.width}x${imageData.height}`);
+  }
+
+  return imageData.data;
+}
+
+/**
+ * Reverse the row order of RGBA pixels
+ */
+function flipRows(pixels: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray {
+  const rowLength = width * 4;
+  const flipped = new Uint8ClampedArray(pixels.length);
+  for (let row = 0; row < height; row++) {
+    flipped.set(pixels.subarray((height - 1 - row) * rowLength, (height - row) * rowLength), row * rowLength);
+  }
+  return flipped;
+}
+
 export async function compressImageToKTX2(
   imageArrayBuffer: ArrayBuffer,
   settings: KTX2CompressionSettings = {}
 ): Promise<KTX2CompressionResult> {
   // Validate inputs
   validateCompressionInputs(imageArrayBuffer, settings);
-  checkMemoryAvailability(imageArrayBuffer);
+  validateMipSettings(settings);
+  const mipByteLength = (settings.mipLevelImages ?? []).reduce((sum, buffer) => sum + buffer.byteLength, 0);
+  checkMemoryAvailability(imageArrayBuffer.byteLength + mipByteLength);
 
   // Use request queue to prevent WASM module overload
-  return requestQueue.add(imageArrayBuffer, settings);
+  return requestQueue.add([imageArrayBuffer], settings);
+}
+
+/**
+ * Compress several images into one cubemap, array or 3D KTX2 texture
+ * @param imageArrayBuffers - Cubemap faces in +X, -X, +Y, -Y, +Z, -Z order (or one equirectangular
+ *   image with settings.faceSize), array layers or 3D depth slices
+ * @param settings - Compression settings; textureType selects the layout
+ * @returns Promise that resolves to the KTX2 texture
+ */
+export async function compressImagesToKTX2(
+  imageArrayBuffers: ArrayBuffer[],
+  settings: KTX2CompressionSettings = {}
+): Promise<KTX2CompressionResult> {
+  validateTextureLayout(imageArrayBuffers.length, settings);
+  for (const imageArrayBuffer of imageArrayBuffers) {
+    validateCompressionInputs(imageArrayBuffer, settings);
+  }
+  validateMipSettings(settings);
+  const totalByteLength = imageArrayBuffers.reduce((sum, buffer) => sum + buffer.byteLength, 0);
+  checkMemoryAvailability(totalByteLength);
+
+  // Use request queue to prevent WASM module overload
+  return requestQueue.add(imageArrayBuffers, settings);
 }
 
 /**
  * Internal compression function that does the actual work
  */
-async function compressImageToKTX2Internal(
-  imageArrayBuffer: ArrayBuffer,
+async function compressImagesToKTX2Internal(
+  imageArrayBuffers: ArrayBuffer[],
   settings: KTX2CompressionSettings = {}
 ): Promise<KTX2CompressionResult> {
-  console.log("KTX2: Starting image to KTX2 compression");
-  console.log(`KTX2: Input buffer size: ${imageArrayBuffer.byteLength} bytes`);
+  const textureType = settings.textureType ?? '2d';
+  const equirectangular = textureType === 'cubemap' && settings.faceSize !== undefined;
+  const inputSize = imageArrayBuffers.reduce((sum, buffer) => sum + buffer.byteLength, 0);
+  console.log(`KTX2: Starting image to KTX2 compression (${textureType}, ${imageArrayBuffers.length} image(s))`);
+  console.log(`KTX2: Input buffer size: ${inputSize} bytes`);
+
+  // Radiance .hdr and OpenEXR images take the HDR path; canvas only decodes 8-bit images
+  if (imageArrayBuffers.some(imageArrayBuffer => isHDRImage(imageArrayBuffer))) {
+    if (imageArrayBuffers.length !== 1 || textureType !== '2d' || equirectangular) {
+      throw new Error(`Invalid HDR input: only 2d textures are supported, received a ${textureType} texture with ${imageArrayBuffers.length} image(s)`);
+    }
+    if (settings.mipLevelImages?.length) {
+      throw new Error('Invalid HDR input: pre-authored mip levels are only supported for 8-bit images');
+    }
+    return compressHDRImageToKTX2Internal(imageArrayBuffers[0], settings);
+  }
+  if (settings.format === KTX2TranscoderFormat.UASTC_HDR_4x4 || settings.hdrUncompressed) {
+    throw new Error(`Invalid format: ${settings.hdrUncompressed ? 'R16G16B16A16_SFLOAT' : settings.format} requires a Radiance .hdr or OpenEXR image`);
+  }
 
   // Initialize KTX module if needed
   await initKtxModule();
@@ -613,122 +931,123 @@ async function compressImageToKTX2Internal(
 
   let ktxTextureInstance: any = null;
   let basisParams: any = null;
-  let imageData: ImageData | null = null;
-  let canvas: any = null;
+  let slices: Uint8ClampedArray[] = [];
+  let levelSlices: MipLevel[][] = []; // Slices of each mip level
 
   try {
-    // Convert ArrayBuffer to Buffer for canvas operations
-    const imageBuffer = Buffer.from(imageArrayBuffer);
-    
-    // Load the image using canvas (supports PNG, JPG, JPEG, etc.)
-    const image = await loadImage(imageBuffer);
-    console.log(`KTX2: Image loaded - ${image.width}x${image.height}`);
-
-    // Validate image dimensions to prevent WASM crashes
-    const maxDimension = 8192; // 8K max dimension
-    if (image.width > maxDimension || image.height > maxDimension) {
-      throw new Error(`Image dimensions too large: ${image.width}x${image.height}. Maximum allowed: ${maxDimension}x${maxDimension}`);
+    // Load the images using canvas (supports PNG, JPG, JPEG, etc.)
+    const images = [];
+    for (const imageArrayBuffer of imageArrayBuffers) {
+      const image = await loadImage(Buffer.from(imageArrayBuffer));
+      validateImageDimensions(image.width, image.height);
+      images.push(image);
     }
-
-    if (image.width < 4 || image.height < 4) {
-      throw new Error(`Image dimensions too small: ${image.width}x${image.height}. Minimum required: 4x4`);
+    console.log(`KTX2: ${images.length} image(s) loaded - ${images[0].width}x${images[0].height}`);
+
+    // Every slice of a cubemap, array or 3D texture shares one size
+    const sourceWidth = images[0].width;
+    const sourceHeight = images[0].height;
+    const mismatched = images.find(image => image.width !== sourceWidth || image.height !== sourceHeight);
+    if (mismatched) {
+      throw new Error(`Image dimensions mismatch: ${mismatched.width}x${mismatched.height} differs from ${sourceWidth}x${sourceHeight}. All ${textureType} images must have the same size`);
     }
-
-    // Check for reasonable aspect ratios to prevent extreme memory usage
-    const aspectRatio = Math.max(image.width, image.height) / Math.min(image.width, image.height);
-    if (aspectRatio > 16) {
-      throw new Error(`Image aspect ratio too extreme: ${aspectRatio.toFixed(2)}:1. Maximum allowed: 16:1`);
+    if (textureType === 'cubemap' && !equirectangular && sourceWidth !== sourceHeight) {
+      throw new Error(`Cubemap faces must be square. Received: ${sourceWidth}x${sourceHeight}`);
     }
-    
-    // Ensure WebGL-compatible dimensions for mipmaps
-    // WebGL requires each mipmap level to have dimensions that are multiples of 4 or equal to 0, 1, or 2
-    const adjustDimensionForWebGL = (dimension: number): number => {
-      // If already small enough for WebGL compatibility
-      if (dimension <= 2) return dimension;
 
-      // Round down to nearest multiple of 4 for optimal mipmap chain
-      const adjusted = Math.floor(dimension / 4) * 4;
-
-      // Ensure minimum dimension of 4 for block compression
-      return Math.max(4, adjusted);
-    };
-
-    const width = adjustDimensionForWebGL(image.width);
-    const height = adjustDimensionForWebGL(image.height);
-    console.log(`KTX2: WebGL-compatible dimensions - ${width}x${height} (original: ${image.width}x${image.height})`);
-    
-    // Create canvas and get image data
-    canvas = createCanvas(width, height);
-    const ctx = canvas.getContext('2d');
-
-    if (!ctx) {
-      throw new Error('Failed to get 2D context from canvas');
-    }
-    
-    // Handle image flipping for GLB textures if requested
-    if (compressionSettings.flipY) {
-      console.log("KTX2: Flipping image vertically for GLB compatibility");
-      ctx.save();
-      ctx.scale(1, -1); // Flip Y axis
-      ctx.drawImage(image, 0, -height, width, height); // Draw flipped
-      ctx.restore();
+    // Apply the resize policy; WebGL also requires each mipmap level of a block-compressed
+    // texture to have dimensions that are multiples of 4, so other sizes are resampled, not cropped
+    const resizeOptions: TextureResizeOptions = { ...DEFAULT_TEXTURE_RESIZE_OPTIONS, ...settings.resize };
+    let width: number;
+    let height: number;
+
+    if (equirectangular) {
+      // Project the panorama at its full resolution, then flip each face like any other slice
+      ({ width, height } = computeTextureSize(settings.faceSize!, settings.faceSize!, resizeOptions, settings.usage, true));
+      console.log(`KTX2: Projecting ${sourceWidth}x${sourceHeight} equirectangular image to six ${width}x${height} faces`);
+      const panorama = drawImagePixels(images[0], sourceWidth, sourceHeight, false);
+      slices = equirectToCubeFaces(panorama, sourceWidth, sourceHeight, width)
+        .map(face => compressionSettings.flipY ? flipRows(face, width, height) : face);
     } else {
-      ctx.drawImage(image, 0, 0, width, height);
-    }
-    
-    imageData = ctx.getImageData(0, 0, width, height);
-    if (!imageData) {
-      throw new Error('Failed to extract image data from canvas context');
-    }
-    console.log(`KTX2: Image data extracted - ${imageData.data.length} bytes`);
-
-    // Validate image data
-    if (!imageData || !imageData.data || imageData.data.length === 0) {
-      throw new Error('Failed to extract valid image data from canvas');
+      ({ width, height } = computeTextureSize(sourceWidth, sourceHeight, resizeOptions, settings.usage, true));
+      if (width !== sourceWidth || height !== sourceHeight) {
+        console.log(`KTX2: Resampling ${sourceWidth}x${sourceHeight} -> ${width}x${height} with ${resizeOptions.filter} filter`);
+      }
+      for (const [index, image] of images.entries()) {
+        const resized = width !== sourceWidth || height !== sourceHeight
+          ? await loadImage(Buffer.from(await resizeImage(imageArrayBuffers[index], width, height, resizeOptions.filter)))
+          : image;
+        slices.push(drawImagePixels(resized, width, height, compressionSettings.flipY));
+      }
     }
-
-    // Additional safety check for image dimensions
-    if (imageData.width !== width || imageData.height !== height) {
-      throw new Error(`Image data dimensions mismatch. Expected: ${width}x${height}, Got: ${imageData.width}x${imageData.height}`);
+    if (compressionSettings.flipY) {
+      console.log("KTX2: Flipped image vertically for GLB compatibility");
     }
+    console.log(`KTX2: WebGL-compatible dimensions - ${width}x${height} (original: ${sourceWidth}x${sourceHeight})`);
+    console.log(`KTX2: Image data extracted - ${slices.length} slice(s) of ${width * height * 4} bytes`);
 
     // Create KTX texture
     console.log("KTX2: Creating textureCreateInfo...");
     const createInfo = new ktx.textureCreateInfo();
     
-    // Set Vulkan format based on OETF setting with better color space detection
     const mergedParams = compressionSettings.basisParams;
-    const isColorTexture = !mergedParams?.normalMap; // Normal maps should use linear space
 
-    if (compressionSettings.oetf === 'srgb' || (isColorTexture && compressionSettings.oetf !== 'linear')) {
-      createInfo.vkFormat = ktx.VkFormat.R8G8B8A8_SRGB;
-      console.log("KTX2: Using VK_FORMAT_R8G8B8A8_SRGB for sRGB color texture");
-    } else {
-      createInfo.vkFormat = ktx.VkFormat.R8G8B8A8_UNORM;
-      console.log("KTX2: Using VK_FORMAT_R8G8B8A8_UNORM for linear/normal map data");
-    }
+    // Set Vulkan format from the OETF; GLB textures get it from their material slots
+    const vkFormat = compressionSettings.oetf === 'linear' ? 'R8G8B8A8_UNORM' : 'R8G8B8A8_SRGB';
+    createInfo.vkFormat = ktx.VkFormat[vkFormat];
+    console.log(`KTX2: Using VK_FORMAT_${vkFormat} for ${compressionSettings.oetf === 'linear' ? 'linear data' : 'sRGB color'}`);
     
     createInfo.baseWidth = width;
     createInfo.baseHeight = height;
-    createInfo.baseDepth = 1;
-    createInfo.numDimensions = 2;
+    createInfo.baseDepth = textureType === '3d' ? slices.length : 1;
+    createInfo.numDimensions = textureType === '3d' ? 3 : 2;
 
-    // Calculate correct number of mipmap levels when mipmaps are enabled
+    // libktx encodes the levels stored in the texture, so every mip level is uploaded:
+    // pre-authored levels first, then box-filtered levels down to minMipSize
     const generateMipmaps = mergedParams?.generateMipmaps || false;
-    if (generateMipmaps) {
-      // Calculate the number of mipmap levels (same logic as the logging)
-      const maxDimension = Math.max(width, height);
-      const numLevels = Math.floor(Math.log2(maxDimension)) + 1;
-      createInfo.numLevels = numLevels;
-      console.log(`KTX2: Setting KTX2 container for ${numLevels} mipmap levels`);
+    const suppliedLevels: MipLevel[] = [];
+    for (const [index, mipLevelImage] of (settings.mipLevelImages ?? []).entries()) {
+      const level = index + 1;
+      const image = await loadImage(Buffer.from(mipLevelImage));
+      const expected = getMipLevelSize(sourceWidth, sourceHeight, level);
+      if (image.width !== expected.width || image.height !== expected.height) {
+        throw new Error(`Invalid mip level ${level}: expected ${expected.width}x${expected.height} for a ${sourceWidth}x${sourceHeight} image, received ${image.width}x${image.height}`);
+      }
+      // Pre-authored levels follow the base image when it is resampled
+      const target = getMipLevelSize(width, height, level);
+      const resized = target.width !== image.width || target.height !== image.height
+        ? await loadImage(Buffer.from(await resizeImage(mipLevelImage, target.width, target.height, resizeOptions.filter)))
+        : image;
+      suppliedLevels.push({ ...target, pixels: drawImagePixels(resized, target.width, target.height, compressionSettings.flipY) });
+    }
+
+    const maxLevels = computeMipLevelCount(width, height, settings.minMipSize ?? 1);
+    const levelCount = generateMipmaps ? maxLevels : Math.min(maxLevels, 1 + suppliedLevels.length);
+    if (suppliedLevels.length + 1 > levelCount) {
+      console.log(`KTX2: Dropping ${suppliedLevels.length + 1 - levelCount} pre-authored level(s) below minMipSize ${settings.minMipSize}`);
+    }
+    const mipOptions: MipChainOptions = {
+      ...DEFAULT_MIP_CHAIN_OPTIONS,
+      srgb: vkFormat === 'R8G8B8A8_SRGB',
+      preserveAlphaCoverage: settings.preserveAlphaCoverage ?? DEFAULT_MIP_CHAIN_OPTIONS.preserveAlphaCoverage,
+      alphaCutoff: settings.alphaCutoff ?? DEFAULT_MIP_CHAIN_OPTIONS.alphaCutoff
+    };
+    const baseLevels = slices.map(pixels => ({ width, height, pixels }));
+    if (textureType === '3d') {
+      levelSlices = buildVolumeMipChain(baseLevels, levelCount, mipOptions);
     } else {
-      createInfo.numLevels = 1;
+      const chains = baseLevels.map((base, index) => completeMipChain(index === 0 ? [base, ...suppliedLevels] : [base], levelCount, mipOptions));
+      levelSlices = Array.from({ length: levelCount }, (_, level) => chains.map(chain => chain[level]));
     }
+    createInfo.numLevels = levelCount;
+    const preAuthoredLevels = Math.min(suppliedLevels.length, levelCount - 1);
+    console.log(`KTX2: Setting KTX2 container for ${levelCount} mipmap level(s) (${preAuthoredLevels} pre-authored${mipOptions.preserveAlphaCoverage ? `, alpha coverage preserved at cutoff ${mipOptions.alphaCutoff}` : ''})`);
 
-    createInfo.numLayers = 1;
-    createInfo.numFaces = 1;
-    createInfo.isArray = false;
-    createInfo.generateMipmaps = false; // Always false for texture creation - mipmaps handled by Basis compression
+    createInfo.numLayers = textureType === 'array' ? slices.length : 1;
+    createInfo.numFaces = textureType === 'cubemap' ? 6 : 1;
+    createInfo.isArray = textureType === 'array';
+    createInfo.generateMipmaps = false; // Always false - the mip levels are uploaded below
+    console.log(`KTX2: Texture type ${textureType} - ${createInfo.numLayers} layer(s), ${createInfo.numFaces} face(s), depth ${createInfo.baseDepth}`);
 
     console.log("KTX2: Creating KTX texture object...");
     ktxTextureInstance = new ktx.texture(createInfo, ktx.TextureCreateStorageEnum.ALLOC_STORAGE);
@@ -738,24 +1057,27 @@ async function compressImageToKTX2Internal(
 
     console.log("KTX2: Setting image data...");
 
-    // Additional validation before calling WASM function
-    if (!imageData.data || imageData.data.length === 0) {
-      throw new Error('Image data is empty or invalid');
-    }
-
-    if (imageData.data.length !== width * height * 4) {
-      throw new Error(`Image data size mismatch. Expected: ${width * height * 4}, Got: ${imageData.data.length}`);
-    }
+    for (const [level, levelImages] of levelSlices.entries()) {
+      for (const [index, slice] of levelImages.entries()) {
+        // Additional validation before calling WASM function
+        if (slice.pixels.length !== slice.width * slice.height * 4) {
+          throw new Error(`Image data size mismatch for level ${level} slice ${index}. Expected: ${slice.width * slice.height * 4}, Got: ${slice.pixels.length}`);
+        }
 
-    let setImageResult;
-    try {
-      setImageResult = ktxTextureInstance.setImageFromMemory(0, 0, 0, imageData.data);
-    } catch (wasmError) {
-      throw new Error(`WASM setImageFromMemory call failed: ${wasmError instanceof Error ? wasmError.message : 'Unknown WASM error'}`);
-    }
+        // Array slices are layers; cubemap faces and 3D depth slices share the faceSlice index
+        const layer = textureType === 'array' ? index : 0;
+        const faceSlice = textureType === 'array' ? 0 : index;
+        let setImageResult;
+        try {
+          setImageResult = ktxTextureInstance.setImageFromMemory(level, layer, faceSlice, slice.pixels);
+        } catch (wasmError) {
+          throw new Error(`WASM setImageFromMemory call failed: ${wasmError instanceof Error ? wasmError.message : 'Unknown WASM error'}`);
+        }
 
-    if (setImageResult !== ktx.ErrorCode.SUCCESS) {
-      throw new Error(`Failed to set image from memory. Error code: ${setImageResult}`);
+        if (setImageResult !== ktx.ErrorCode.SUCCESS) {
+          throw new Error(`Failed to set image from memory for level ${level} slice ${index}. Error code: ${setImageResult}`);
+        }
+      }
     }
 
     // Configure Basis Universal compression with merged parameters
@@ -771,8 +1093,9 @@ async function compressImageToKTX2Internal(
       console.log(`KTX2: Compression mode: ${params.uastc ? 'UASTC' : 'ETC1S'}`);
     }
     if (params.verbose !== undefined) basisParams.verbose = params.verbose;
-    if (params.generateMipmaps !== undefined) basisParams.generateMipmaps = params.generateMipmaps;
-    if (params.mipmapFilter !== undefined) basisParams.mipmapFilter = params.mipmapFilter;
+    // generateMipmaps only sets the level count above; Basis must not regenerate the uploaded levels,
+    // so mipmapFilter is not forwarded either
+    basisParams.generateMipmaps = false;
     if (params.perceptual !== undefined) basisParams.perceptual = params.perceptual;
     
     // Format-specific quality settings
@@ -821,15 +1144,13 @@ async function compressImageToKTX2Internal(
     if (params.resampleFactor !== undefined) basisParams.resampleFactor = params.resampleFactor;
     
     console.log(`KTX2: Applied comprehensive basis parameters successfully`);
-    console.log(`KTX2: Mipmaps: ${basisParams.generateMipmaps ? 'enabled' : 'disabled'}`);
-    console.log(`KTX2: Mipmap filter: ${basisParams.mipmapFilter || 'default'}`);
+    console.log(`KTX2: Mip levels: ${levelCount} uploaded (${preAuthoredLevels} pre-authored, ${levelCount - 1 - preAuthoredLevels} generated)`);
     console.log(`KTX2: Perceptual: ${basisParams.perceptual ? 'enabled' : 'disabled'}`);
     console.log(`KTX2: Color space: ${compressionSettings.oetf || 'auto-detected'}`);
 
     // Log WebGL compatibility information
-    if (basisParams.generateMipmaps) {
-      const maxMipLevels = Math.floor(Math.log2(Math.max(width, height))) + 1;
-      console.log(`KTX2: Will generate ${maxMipLevels} mipmap levels for WebGL compatibility`);
+    if (levelCount > 1) {
+      console.log(`KTX2: Will encode ${levelCount} mipmap levels for WebGL compatibility`);
       console.log(`KTX2: Base dimensions (${width}x${height}) are WebGL-compatible for mipmapping`);
     }
 
@@ -863,10 +1184,10 @@ async function compressImageToKTX2Internal(
     }
 
     const compressedSize = ktx2FileBytes.length;
-    const compressionRatio = ((imageArrayBuffer.byteLength - compressedSize) / imageArrayBuffer.byteLength) * 100;
+    const compressionRatio = ((inputSize - compressedSize) / inputSize) * 100;
     
     console.log(`KTX2: Compression completed successfully`);
-    console.log(`KTX2: Original size: ${imageArrayBuffer.byteLength} bytes`);
+    console.log(`KTX2: Original size: ${inputSize} bytes`);
     console.log(`KTX2: Compressed size: ${compressedSize} bytes`);
     console.log(`KTX2: Compression ratio: ${compressionRatio.toFixed(2)}%`);
     
@@ -878,8 +1199,17 @@ async function compressImageToKTX2Internal(
     return {
       buffer: resultBuffer,
       compressionRatio,
-      originalSize: imageArrayBuffer.byteLength,
-      compressedSize
+      originalSize: inputSize,
+      compressedSize,
+      vkFormat,
+      textureType,
+      sliceCount: slices.length,
+      mipLevels: levelSlices.length,
+      suppliedMipLevels: Math.min(settings.mipLevelImages?.length ?? 0, levelSlices.length - 1),
+      width,
+      height,
+      sourceWidth,
+      sourceHeight
     };
     
   } catch (error) {
@@ -908,8 +1238,8 @@ async function compressImageToKTX2Internal(
     // Clear references
     ktxTextureInstance = null;
     basisParams = null;
-    imageData = null;
-    canvas = null;
+    slices = [];
+    levelSlices = [];
 
     // Force garbage collection hint
     if (typeof global !== 'undefined' && global.gc) {
@@ -918,6 +1248,176 @@ async function compressImageToKTX2Internal(
   }
 }
 
+/**
+ * Build a mip chain by halving each side
+ */
+function buildHDRMipChain(image: HDRImage, levelCount: number): HDRImage[] {
+  const levels = [image];
+  let level = image;
+  while (levels.length < levelCount) {
+    level = resampleHDRImage(level, Math.max(1, level.width >> 1), Math.max(1, level.height >> 1));
+    levels.push(level);
+  }
+  return levels;
+}
+
+/**
+ * Compress a Radiance .hdr or OpenEXR image to a UASTC HDR 4x4 or uncompressed R16G16B16A16_SFLOAT KTX2 texture.
+ * The image is linear, so oetf is ignored; the resize policy resamples bilinearly.
+ */
+async function compressHDRImageToKTX2Internal(
+  imageArrayBuffer: ArrayBuffer,
+  settings: KTX2CompressionSettings
+): Promise<KTX2CompressionResult> {
+  const uncompressed = settings.hdrUncompressed === true;
+  const format = uncompressed ? 'R16G16B16A16_SFLOAT' : KTX2TranscoderFormat.UASTC_HDR_4x4;
+  if (!uncompressed && settings.format && settings.format !== KTX2TranscoderFormat.UASTC_HDR_4x4) {
+    throw new Error(`Invalid format for HDR input: ${settings.format}. Use UASTC_HDR_4x4 or R16G16B16A16_SFLOAT`);
+  }
+
+  const userBasisParams = settings.basisParams || settings.customBasisParams;
+  const generateMipmaps = userBasisParams?.generateMipmaps ?? settings.generateMipmaps ?? false;
+  const zstdLevel = userBasisParams?.zstdLevel ?? (settings.useZstandard === false ? 0 : 3);
+  const quality = userBasisParams?.uastcHDRQuality ?? 1;
+  if (!Number.isInteger(quality) || quality < 0 || quality > 4) {
+    throw new Error(`Invalid basisParams: uastcHDRQuality ${quality}. Must be an integer between 0 and 4`);
+  }
+  const flipY = settings.flipY || false;
+  console.log(`KTX2: HDR compression settings - format: ${format}, mipmaps: ${generateMipmaps}, zstd: ${zstdLevel}, flipY: ${flipY}`);
+
+  const source = decodeHDRImage(imageArrayBuffer);
+  console.log(`KTX2: Decoded ${source.sourceFormat} image - ${source.width}x${source.height}`);
+  validateImageDimensions(source.width, source.height);
+
+  // UASTC HDR is block-compressed, so its sides are resampled to multiples of 4 like LDR textures
+  const resizeOptions: TextureResizeOptions = { ...DEFAULT_TEXTURE_RESIZE_OPTIONS, ...settings.resize };
+  const { width, height } = computeTextureSize(source.width, source.height, resizeOptions, settings.usage, !uncompressed);
+  if (width !== source.width || height !== source.height) {
+    console.log(`KTX2: Resampling HDR image ${source.width}x${source.height} -> ${width}x${height} with bilinear filter`);
+  }
+  const image = resampleHDRImage(source, width, height);
+  const levelCount = generateMipmaps ? computeMipLevelCount(width, height, settings.minMipSize ?? 1) : 1;
+
+  let ktx2FileBytes: Uint8Array;
+  let vkFormat: string;
+
+  if (uncompressed) {
+    await initKtxModule();
+    vkFormat = 'R16G16B16A16_SFLOAT';
+    const levels = buildHDRMipChain(image, levelCount);
+
+    let ktxTextureInstance: any = null;
+    try {
+      const createInfo = new ktx.textureCreateInfo();
+      createInfo.vkFormat = ktx.VkFormat[vkFormat];
+      createInfo.baseWidth = width;
+      createInfo.baseHeight = height;
+      createInfo.baseDepth = 1;
+      createInfo.numDimensions = 2;
+      createInfo.numLevels = levels.length;
+      createInfo.numLayers = 1;
+      createInfo.numFaces = 1;
+      createInfo.isArray = false;
+      createInfo.generateMipmaps = false;
+      console.log(`KTX2: Creating VK_FORMAT_${vkFormat} texture with ${levels.length} level(s)`);
+
+      ktxTextureInstance = new ktx.texture(createInfo, ktx.TextureCreateStorageEnum.ALLOC_STORAGE);
+      if (!ktxTextureInstance) {
+        throw new Error("Failed to create ktx.texture object");
+      }
+
+      for (const [index, level] of levels.entries()) {
+        const halves = toHalfFloatRGBA(level, flipY);
+        const setImageResult = ktxTextureInstance.setImageFromMemory(index, 0, 0, new Uint8Array(halves.buffer));
+        if (setImageResult !== ktx.ErrorCode.SUCCESS) {
+          throw new Error(`Failed to set image from memory for level ${index}. Error code: ${setImageResult}`);
+        }
+      }
+
+      if (zstdLevel > 0) {
+        const deflateResult = ktxTextureInstance.deflateZstd(zstdLevel);
+        if (deflateResult !== ktx.ErrorCode.SUCCESS) {
+          throw new Error(`Failed to apply Zstandard supercompression. Error code: ${deflateResult}`);
+        }
+        console.log(`KTX2: ZSTD compression level: ${zstdLevel}`);
+      }
+
+      // Copy out of the WASM heap before the texture is deleted
+      ktx2FileBytes = new Uint8Array(ktxTextureInstance.writeToMemory());
+    } catch (error) {
+      console.error("KTX2: HDR compression failed:", error);
+      throw new Error(`KTX2 compression failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      if (ktxTextureInstance) {
+        ktxTextureInstance.delete();
+      }
+    }
+  } else {
+    const basis = await initBasisEncoderModule();
+    vkFormat = 'ASTC_4x4_SFLOAT_BLOCK';
+
+    const encoder = new basis.BasisEncoder();
+    try {
+      encoder.setCreateKTX2File(true);
+      encoder.setDebug(false);
+      encoder.setHDR(true);
+      encoder.setUASTCHDRQualityLevel(quality);
+      encoder.setMipGen(generateMipmaps);
+      encoder.setMipSmallestDimension(settings.minMipSize ?? 1);
+      encoder.setKTX2UASTCSupercompression(zstdLevel > 0);
+      console.log(`KTX2: UASTC HDR mode. Quality level: ${quality}`);
+
+      // The encoder takes RGBA half floats as raw bytes
+      const halves = toHalfFloatRGBA(image, flipY);
+      const sourceSet = encoder.setSliceSourceImageHDR(0, new Uint8Array(halves.buffer), width, height, basis.hdr_image_type.cHITRGBAHalfFloat, false);
+      if (!sourceSet) {
+        throw new Error('Failed to set HDR source image');
+      }
+
+      // One byte per texel, plus room for the mip chain and container headers
+      const output = new Uint8Array(width * height * 2 + 65536);
+      const encodedSize = encoder.encode(output);
+      if (!encodedSize) {
+        throw new Error('UASTC HDR encoding returned no data');
+      }
+      ktx2FileBytes = output.slice(0, encodedSize);
+    } catch (error) {
+      console.error("KTX2: HDR compression failed:", error);
+      throw new Error(`KTX2 compression failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      encoder.delete();
+    }
+  }
+
+  if (!ktx2FileBytes || ktx2FileBytes.length === 0) {
+    throw new Error("KTX2 compression failed: no data was written");
+  }
+
+  const inputSize = imageArrayBuffer.byteLength;
+  const compressedSize = ktx2FileBytes.length;
+  const compressionRatio = ((inputSize - compressedSize) / inputSize) * 100;
+  console.log(`KTX2: HDR compression completed - ${inputSize} -> ${compressedSize} bytes (${compressionRatio.toFixed(2)}%)`);
+
+  const resultBuffer = new ArrayBuffer(compressedSize);
+  new Uint8Array(resultBuffer).set(ktx2FileBytes);
+
+  return {
+    buffer: resultBuffer,
+    compressionRatio,
+    originalSize: inputSize,
+    compressedSize,
+    format,
+    vkFormat,
+    textureType: '2d',
+    sliceCount: 1,
+    mipLevels: levelCount,
+    width,
+    height,
+    sourceWidth: source.width,
+    sourceHeight: source.height
+  };
+}
+
 /**
  * Backward compatibility alias for PNG compression
  */
@@ -989,52 +1489,22 @@ export async function compressGLBTexturesKTX2(
   try {
     // Import gltf-transform dependencies
     const { NodeIO } = await import("@gltf-transform/core");
-    const { 
-      KHRTextureBasisu,
-      KHRTextureTransform,
-      KHRMaterialsPBRSpecularGlossiness,
-      KHRMaterialsUnlit,
-      KHRMaterialsEmissiveStrength,
-      KHRMaterialsIOR,
-      KHRMaterialsTransmission,
-      KHRMaterialsSpecular,
-      KHRMaterialsSheen,
-      KHRMaterialsClearcoat,
-      KHRMaterialsIridescence,
-      KHRMaterialsAnisotropy,
-      KHRMaterialsVolume,
-      KHRMaterialsVariants,
-      EXTTextureWebP,
-      EXTTextureAVIF
-    } = await import("@gltf-transform/extensions");
-    
-    // Use only texture-related extensions, explicitly excluding mesh compression extensions
-    const textureOnlyExtensions = [
-      KHRTextureBasisu,
-      KHRTextureTransform,
-      KHRMaterialsPBRSpecularGlossiness,
-      KHRMaterialsUnlit,
-      KHRMaterialsEmissiveStrength,
-      KHRMaterialsIOR,
-      KHRMaterialsTransmission,
-      KHRMaterialsSpecular,
-      KHRMaterialsSheen,
-      KHRMaterialsClearcoat,
-      KHRMaterialsIridescence,
-      KHRMaterialsAnisotropy,
-      KHRMaterialsVolume,
-      KHRMaterialsVariants,
-      EXTTextureWebP,
-      EXTTextureAVIF
-    ];
+    const { loadDracoDependencies, loadMeshoptDependencies } = await import("./meshCodecs.js");
+    const { GEOMETRY_PRESERVING_IO_EXTENSIONS } = await import("./pointCloudCompression.js");
+    const { classifyTexture, resolveColorSpace } = await import("./textureRoles.js");
+    const { MSFTLod } = await import("./msftLod.js");
     
+    // Read with the same extensions as the mesh passes, so their output (meshopt and quantized
+    // geometry, GPU instancing, LODs) round-trips; Draco primitives keep their original bitstreams.
     const io = new NodeIO()
-      .registerExtensions(textureOnlyExtensions);
+      .registerExtensions([...GEOMETRY_PRESERVING_IO_EXTENSIONS, MSFTLod])
+      .registerDependencies(await loadMeshoptDependencies())
+      .registerDependencies(await loadDracoDependencies());
 
     // Convert ArrayBuffer to Uint8Array before reading
     const uint8Input = new Uint8Array(inputBuffer);
 
-    // Read the glTF/glb data from the ArrayBuffer - this may still have Draco data but we'll ignore it
+    // Read the glTF/glb data from the ArrayBuffer - Draco geometry is decoded, and written back as it was read
     let document;
     try {
       document = await io.readBinary(uint8Input);
@@ -1051,13 +1521,7 @@ export async function compressGLBTexturesKTX2(
     const textures = document.getRoot().listTextures();
     let processedCount = 0;
     const errors: string[] = [];
-    
-    // Helper function to detect normal maps by texture name
-    const isNormalMap = (textureName: string): boolean => {
-      const normalMapKeywords = ['normal', 'norm', 'nrm'];
-      const lowerName = textureName.toLowerCase();
-      return normalMapKeywords.some(keyword => lowerName.includes(keyword));
-    };
+    const textureReports: TextureReport[] = [];
     
     // Check for existing KTX2 compression
     for (const texture of textures) {
@@ -1077,24 +1541,32 @@ export async function compressGLBTexturesKTX2(
         const textureName = texture.getName() || `texture_${processedCount}`;
         console.log(`Processing texture ${processedCount + 1}: ${textureName}`);
 
-        // Detect if this is a normal map and adjust format accordingly
-        const isNormal = isNormalMap(textureName);
+        // Classify from the material slots using the texture, e.g. normalTexture or occlusionTexture
+        const { role, slots } = classifyTexture(texture);
+        const isNormal = role === 'normal';
+        const { oetf, source: colorSpaceSource } = resolveColorSpace(texture, role, finalSettings.colorSpaceOverrides, finalSettings.oetf);
         const textureFormat = finalSettings.forceFormat 
           ? finalSettings.format // Force the specified format for all textures
           : (isNormal ? KTX2TranscoderFormat.UASTC_4x4 : finalSettings.format); // Auto-detect format
         
         const formatReason = finalSettings.forceFormat 
           ? 'forced format' 
-          : (isNormal ? 'normal map auto-detection' : 'default format');
-        console.log(`  Detected as ${isNormal ? 'normal map' : 'regular texture'}, using ${textureFormat} format (${formatReason})`);
+          : (isNormal ? 'normal map slot' : 'default format');
+        console.log(`  Classified as ${role} (${slots.join(', ') || 'not referenced by a material'}), using ${textureFormat} format (${formatReason}) and ${oetf} OETF (${colorSpaceSource})`);
 
         // Create texture-specific compression settings
         const textureSettings: KTX2CompressionSettings = {
           ...finalSettings,
           format: textureFormat,
+          oetf,
+          usage: { role, slots },
           basisParams: {
             ...finalSettings.basisParams,
             normalMap: isNormal,
+            // glTF loaders read normals from RGB, so the two-channel RG layout is opt-in for normal maps only
+            separateRGToRGB_A: isNormal && (finalSettings.basisParams?.separateRGToRGB_A ?? false),
+            perceptual: oetf === 'srgb',
+            mipSrgb: oetf === 'srgb',
             // Use format-specific settings unless forced
             ...(finalSettings.forceFormat ? {
               // When forcing format, use the format's default settings
@@ -1113,7 +1585,7 @@ export async function compressGLBTexturesKTX2(
         };
 
         // Compress the image data to KTX2 using internal function to bypass queue
-        const compressionResult = await compressImageToKTX2Internal(image.buffer as ArrayBuffer, textureSettings);
+        const compressionResult = await compressImagesToKTX2Internal([image.buffer as ArrayBuffer], textureSettings);
 
         // Update the texture with compressed data
         texture.setImage(new Uint8Array(compressionResult.buffer));
@@ -1124,7 +1596,20 @@ export async function compressGLBTexturesKTX2(
         console.log(`  Compressed size: ${compressionResult.compressedSize} bytes`);
         console.log(`  Compression ratio: ${compressionResult.compressionRatio.toFixed(2)}%`);
         console.log(`  Format used: ${textureFormat}`);
-        
+
+        textureReports.push({
+          texture: textureName,
+          role,
+          slots,
+          format: textureFormat ?? KTX2TranscoderFormat.ETC1S,
+          oetf,
+          vkFormat: compressionResult.vkFormat,
+          colorSpaceSource,
+          width: compressionResult.width,
+          height: compressionResult.height,
+          sourceWidth: compressionResult.sourceWidth,
+          sourceHeight: compressionResult.sourceHeight
+        });
         processedCount++;
       } catch (error) {
         const errorMsg = `Failed to compress texture ${texture.getName()}: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -1152,6 +1637,7 @@ export async function compressGLBTexturesKTX2(
       compressionRatio: compressionRatio,
       format: finalSettings.format || 'ETC1S',
       texturesProcessed: processedCount,
+      textures: textureReports,
       errors: errors.length > 0 ? errors : []
     };
     
@@ -1159,4 +1645,149 @@ export async function compressGLBTexturesKTX2(
     console.error("GLB texture compression failed:", error);
     throw new Error(`GLB texture compression failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
-}
\ No newline at end of file
+}
+/**
+ * Decode a KTX2 texture to PNG for previews.
+ * Basis Universal payloads (ETC1S, UASTC) are transcoded to RGBA32 with the loaded libktx module;
+ * uncompressed R8G8B8A8 textures are read directly. Other formats are not supported.
+ * @param ktx2ArrayBuffer - KTX2 file contents
+ * @param options - Mip level and flipY undo
+ * @returns PNG of the requested level with its dimensions
+ */
+export async function transcodeKTX2ToPNG(
+  ktx2ArrayBuffer: ArrayBuffer,
+  options: KTX2TranscodeOptions = {}
+): Promise<KTX2TranscodeResult> {
+  const level = options.level ?? 0;
+  const flipY = options.flipY ?? false;
+  console.log(`KTX2: Transcoding KTX2 to PNG (level ${level}, flipY ${flipY})`);
+
+  if (!ktx2ArrayBuffer || ktx2ArrayBuffer.byteLength === 0) {
+    throw new Error('Input KTX2 buffer is empty');
+  }
+
+  // The level count and format come from the container; libktx does not expose them
+  const { inspectKTX2 } = await import("./ktx2Inspection.js");
+  const inspection = inspectKTX2(ktx2ArrayBuffer);
+  const levelCount = Math.max(1, inspection.levelCount);
+  if (!Number.isInteger(level) || level < 0 || level >= levelCount) {
+    throw new Error(`Invalid level: ${level}. The texture has ${levelCount} mip level(s)`);
+  }
+  if (inspection.payloadFormat === KTX2TranscoderFormat.UASTC_HDR_4x4) {
+    throw new Error('Unsupported KTX2 format for PNG preview: UASTC HDR textures are not transcoded to 8-bit images');
+  }
+
+  // Initialize KTX module if needed
+  await initKtxModule();
+
+  if (!ktx || !ktx.texture || !ktx.ErrorCode || !ktx.transcode_fmt) {
+    throw new Error('KTX module or essential transcoding components not available');
+  }
+
+  // Everything below runs synchronously, so it cannot interleave with queued compressions
+  let ktxTextureInstance: any = null;
+  try {
+    try {
+      ktxTextureInstance = new ktx.texture(new Uint8Array(ktx2ArrayBuffer));
+    } catch (wasmError) {
+      throw new Error(`Invalid KTX2 file: ${wasmError instanceof Error ? wasmError.message : 'libktx could not read the container'}`);
+    }
+
+    const transcoded = !!ktxTextureInstance.needsTranscoding;
+    if (transcoded) {
+      const transcodeResult = ktxTextureInstance.transcodeBasis(ktx.transcode_fmt.RGBA32, 0);
+      if (transcodeResult !== ktx.ErrorCode.SUCCESS) {
+        throw new Error(`Failed to transcode Basis Universal payload to RGBA32. Error code: ${transcodeResult}`);
+      }
+    } else if (inspection.vkFormatName !== 'VK_FORMAT_R8G8B8A8_UNORM' && inspection.vkFormatName !== 'VK_FORMAT_R8G8B8A8_SRGB') {
+      throw new Error(`Unsupported KTX2 format for PNG preview: ${inspection.vkFormatName}. Only Basis Universal (ETC1S/UASTC) and R8G8B8A8 textures can be decoded`);
+    }
+
+    const width = Math.max(1, ktxTextureInstance.baseWidth >> level);
+    const height = Math.max(1, ktxTextureInstance.baseHeight >> level);
+    const levelData: Uint8Array = ktxTextureInstance.getImage(level, 0, 0);
+    const rowLength = width * 4;
+    if (!levelData || levelData.length < rowLength * height) {
+      throw new Error(`Decoded level ${level} is ${levelData?.length ?? 0} bytes, expected ${rowLength * height}`);
+    }
+
+    // Copy out of WASM memory, flipping rows if requested
+    const pixels = new Uint8ClampedArray(rowLength * height);
+    for (let row = 0; row < height; row++) {
+      const sourceRow = flipY ? height - 1 - row : row;
+      pixels.set(levelData.subarray(sourceRow * rowLength, (sourceRow + 1) * rowLength), row * rowLength);
+    }
+
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    ctx.putImageData(new ImageData(pixels, width, height), 0, 0);
+    const png = canvas.toBuffer('image/png');
+    console.log(`KTX2: Decoded ${transcoded ? 'Basis Universal' : 'RGBA8'} level ${level} (${width}x${height}) to ${png.byteLength} byte PNG`);
+
+    return {
+      buffer: png.buffer.slice(png.byteOffset, png.byteOffset + png.byteLength) as ArrayBuffer,
+      width,
+      height,
+      level,
+      levelCount,
+      transcoded
+    };
+  } finally {
+    try {
+      if (ktxTextureInstance) {
+        ktxTextureInstance.delete();
+      }
+    } catch (error) {
+      console.warn("KTX2: Warning - Failed to delete KTX texture object:", error);
+    }
+    ktxTextureInstance = null;
+  }
+}
+
+/**
+ * Decode every KTX2 texture embedded in a GLB to PNG.
+ * A texture with fewer levels than requested falls back to its smallest level.
+ * @param inputBuffer - The ArrayBuffer of the glb file
+ * @param options - Mip level and flipY undo, applied to every texture
+ * @returns One entry per KTX2 texture, with the PNG or the error
+ */
+export async function transcodeGLBTexturesToPNG(
+  inputBuffer: ArrayBuffer,
+  options: KTX2TranscodeOptions = {}
+): Promise<GLBTextureTranscodeResult[]> {
+  const { NodeIO } = await import("@gltf-transform/core");
+  const { loadDracoDependencies, loadMeshoptDependencies } = await import("./meshCodecs.js");
+  const { GEOMETRY_PRESERVING_IO_EXTENSIONS } = await import("./pointCloudCompression.js");
+  const { classifyTexture } = await import("./textureRoles.js");
+  const { MSFTLod } = await import("./msftLod.js");
+  const { inspectKTX2 } = await import("./ktx2Inspection.js");
+
+  const io = new NodeIO()
+    .registerExtensions([...GEOMETRY_PRESERVING_IO_EXTENSIONS, MSFTLod])
+    .registerDependencies(await loadMeshoptDependencies())
+    .registerDependencies(await loadDracoDependencies());
+
+  const document = await io.readBinary(new Uint8Array(inputBuffer));
+  const textures = document.getRoot().listTextures();
+  const results: GLBTextureTranscodeResult[] = [];
+
+  for (const [index, texture] of textures.entries()) {
+    const image = texture.getImage();
+    if (texture.getMimeType() !== 'image/ktx2' || !image) continue;
+
+    const { role, slots } = classifyTexture(texture);
+    const entry: GLBTextureTranscodeResult = { texture: texture.getName() || `texture_${index}`, role, slots };
+    try {
+      const levelCount = Math.max(1, inspectKTX2(image).levelCount);
+      const level = Math.min(options.level ?? 0, levelCount - 1);
+      entry.result = await transcodeKTX2ToPNG(image.slice().buffer as ArrayBuffer, { ...options, level });
+    } catch (error) {
+      entry.error = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Failed to decode texture ${entry.texture}: ${entry.error}`);
+    }
+    results.push(entry);
+  }
+
+  console.log(`GLB KTX2 to PNG completed. Decoded ${results.filter(entry => entry.result).length}/${results.length} KTX2 textures.`);
+  return results;
+}
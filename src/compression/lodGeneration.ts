@@ -0,0 +1,351 @@
+/**
+ * Server-side LOD chain generation via mesh simplification
+ * Produces either separate GLBs per level or a single GLB using MSFT_lod
+ */
+
+import { Document, Mesh, Node, Primitive, WebIO } from "@gltf-transform/core";
+import { compactPrimitive, prune, weld } from "@gltf-transform/functions";
+import { loadDracoDependencies, loadMeshoptDependencies, loadMeshoptSimplifier } from './meshCodecs.js';
+import { MESH_IO_EXTENSIONS } from './pointCloudCompression.js';
+import { MSFTLod, MSFT_LOD } from './msftLod.js';
+
+/**
+ * Simplification target for one LOD level
+ */
+export interface LODLevelOptions {
+  ratio: number; // Target fraction of triangles to keep (0-1)
+  error: number; // Maximum error as a fraction of mesh extents (0-1)
+}
+
+/**
+ * LOD generation options
+ */
+export interface LODOptions {
+  levels: LODLevelOptions[]; // Levels after the original (LOD0), highest detail first
+  output: 'msft_lod' | 'separate';
+  lockBorder: boolean; // Keep topological borders fixed to avoid seams between mesh chunks
+}
+
+/**
+ * Per-level simplification results
+ */
+export interface LODLevelReport {
+  level: number; // 0 = original geometry
+  targetRatio: number;
+  targetError: number;
+  triangleCount: number;
+  achievedRatio: number;
+  achievedError: number; // Largest error across primitives, as a fraction of mesh extents
+}
+
+/**
+ * LOD generation output
+ */
+export interface LODResult {
+  buffer?: ArrayBuffer; // Single GLB ('msft_lod' output)
+  levelBuffers?: ArrayBuffer[]; // One GLB per level, LOD0 first ('separate' output)
+  levels: LODLevelReport[]; // Empty when skipped
+  skippedReason?: string; // Set when no triangles could be simplified; the input is returned as LOD0
+}
+
+/**
+ * Default LOD options: three levels at 50%, 25% and 12.5% of the original triangles
+ */
+export const DEFAULT_LOD_OPTIONS: LODOptions = {
+  levels: [
+    { ratio: 0.5, error: 0.01 },
+    { ratio: 0.25, error: 0.02 },
+    { ratio: 0.125, error: 0.05 }
+  ],
+  output: 'msft_lod',
+  lockBorder: false
+};
+
+const MAX_LOD_LEVELS = 8;
+
+/**
+ * Merge user-provided LOD options with defaults and validate ranges
+ * @param options - Partial LOD options
+ * @returns Complete, validated LOD options
+ * @throws Error if any option is out of range
+ */
+export const resolveLODOptions = (options: Partial<LODOptions> = {}): LODOptions => {
+  const resolved: LODOptions = {
+    levels: options.levels ?? DEFAULT_LOD_OPTIONS.levels,
+    output: options.output ?? DEFAULT_LOD_OPTIONS.output,
+    lockBorder: options.lockBorder ?? DEFAULT_LOD_OPTIONS.lockBorder
+  };
+
+  if (resolved.output !== 'msft_lod' && resolved.output !== 'separate') {
+    throw new Error(`Invalid LOD output: ${resolved.output}. Must be 'msft_lod' or 'separate'`);
+  }
+
+  if (resolved.levels.length === 0 || resolved.levels.length > MAX_LOD_LEVELS) {
+    throw new Error(`Invalid LOD level count: ${resolved.levels.length}. Must be between 1 and ${MAX_LOD_LEVELS}`);
+  }
+
+  resolved.levels.forEach((level, index) => {
+    if (!(level.ratio > 0 && level.ratio < 1)) {
+      throw new Error(`Invalid ratio for LOD${index + 1}: ${level.ratio}. Must be between 0 and 1 (exclusive)`);
+    }
+    if (!(level.error >= 0 && level.error <= 1)) {
+      throw new Error(`Invalid error for LOD${index + 1}: ${level.error}. Must be between 0 and 1`);
+    }
+  });
+
+  return resolved;
+};
+
+type Simplifier = Awaited<ReturnType<typeof loadMeshoptSimplifier>>;
+
+interface PrimitiveSimplification {
+  sourceTriangles: number;
+  triangles: number;
+  error: number;
+}
+
+/**
+ * Count triangles drawn by a primitive (non-triangle primitives count as zero)
+ */
+const countTriangles = (prim: Primitive): number => {
+  if (prim.getMode() !== Primitive.Mode.TRIANGLES) return 0;
+  const indices = prim.getIndices();
+  const position = prim.getAttribute('POSITION');
+  const count = indices ? indices.getCount() : (position ? position.getCount() : 0);
+  return Math.floor(count / 3);
+};
+
+/**
+ * Simplify one indexed triangle primitive in place, returning the achieved error
+ */
+const simplifyPrimitive = (
+  document: Document,
+  prim: Primitive,
+  level: LODLevelOptions,
+  lockBorder: boolean,
+  simplifier: Simplifier
+): PrimitiveSimplification => {
+  const sourceTriangles = countTriangles(prim);
+  const position = prim.getAttribute('POSITION');
+  const srcIndices = prim.getIndices();
+
+  // Only indexed triangle lists can be simplified; weld() adds indices beforehand
+  if (prim.getMode() !== Primitive.Mode.TRIANGLES || !position || !srcIndices) {
+    return { sourceTriangles, triangles: sourceTriangles, error: 0 };
+  }
+
+  // Gather positions as floats, dequantizing normalized attributes if needed
+  let positionArray = position.getArray();
+  if (!(positionArray instanceof Float32Array)) {
+    const floats = new Float32Array(position.getCount() * 3);
+    const element: number[] = [0, 0, 0];
+    for (let i = 0; i < position.getCount(); i++) {
+      position.getElement(i, element);
+      floats.set(element, i * 3);
+    }
+    positionArray = floats;
+  }
+
+  const indexArray = new Uint32Array(srcIndices.getArray()!);
+  const targetCount = Math.floor(level.ratio * indexArray.length / 3) * 3;
+  const [dstIndices, error] = simplifier.simplify(
+    indexArray,
+    positionArray as Float32Array,
+    3,
+    targetCount,
+    level.error,
+    lockBorder ? ['LockBorder'] : []
+  );
+
+  prim.setIndices(
+    document.createAccessor(srcIndices.getName())
+      .setType('SCALAR')
+      .setArray(dstIndices)
+      .setBuffer(srcIndices.getBuffer())
+  );
+  if (srcIndices.listParents().length === 1) srcIndices.dispose();
+
+  // Drop vertices no longer referenced by the simplified index list
+  compactPrimitive(prim);
+  const indices = prim.getIndices()!;
+  if (prim.getAttribute('POSITION')!.getCount() <= 65534) {
+    indices.setArray(new Uint16Array(indices.getArray()!));
+  }
+
+  return { sourceTriangles, triangles: dstIndices.length / 3, error };
+};
+
+/**
+ * Accumulate primitive results into a level report
+ */
+const createLevelReport = (
+  levelIndex: number,
+  level: LODLevelOptions | null,
+  results: PrimitiveSimplification[]
+): LODLevelReport => {
+  const sourceTriangles = results.reduce((sum, result) => sum + result.sourceTriangles, 0);
+  const triangleCount = results.reduce((sum, result) => sum + result.triangles, 0);
+
+  return {
+    level: levelIndex,
+    targetRatio: level ? level.ratio : 1,
+    targetError: level ? level.error : 0,
+    triangleCount,
+    achievedRatio: sourceTriangles > 0 ? triangleCount / sourceTriangles : 1,
+    achievedError: results.reduce((max, result) => Math.max(max, result.error), 0)
+  };
+};
+
+/**
+ * Build a simplified copy of a mesh; primitives share attributes until compacted
+ */
+const createSimplifiedMesh = (
+  document: Document,
+  mesh: Mesh,
+  levelIndex: number,
+  level: LODLevelOptions,
+  lockBorder: boolean,
+  simplifier: Simplifier,
+  results: PrimitiveSimplification[]
+): Mesh => {
+  const lodMesh = document.createMesh(`${mesh.getName() || 'mesh'}_LOD${levelIndex}`)
+    .setWeights(mesh.getWeights());
+
+  for (const prim of mesh.listPrimitives()) {
+    const lodPrim = prim.clone();
+    results.push(simplifyPrimitive(document, lodPrim, level, lockBorder, simplifier));
+    lodMesh.addPrimitive(lodPrim);
+  }
+
+  return lodMesh;
+};
+
+/**
+ * Generate an LOD chain for every mesh in a glTF/GLB file
+ * @param inputBuffer - The ArrayBuffer of the glTF/glb file
+ * @param options - LOD options, merged with DEFAULT_LOD_OPTIONS
+ * @returns Promise that resolves to the LOD output and per-level report
+ */
+export const generateLODChain = async (
+  inputBuffer: ArrayBuffer,
+  options: Partial<LODOptions> = {}
+): Promise<LODResult> => {
+  console.log("Starting LOD chain generation...");
+  console.log("Input buffer size:", inputBuffer.byteLength);
+
+  const lodOptions = resolveLODOptions(options);
+  console.log("LOD options:", JSON.stringify(lodOptions));
+
+  const simplifier = await loadMeshoptSimplifier();
+  const io = new WebIO()
+    .registerExtensions([...MESH_IO_EXTENSIONS, MSFTLod])
+    .registerDependencies(await loadMeshoptDependencies())
+    .registerDependencies(await loadDracoDependencies({ decoder: true }));
+
+  // Read a fresh, welded copy of the input; simplification requires indexed geometry.
+  // Compressed geometry is decoded on read and written uncompressed, ready for a mesh codec.
+  const readDocument = async (): Promise<Document> => {
+    const document = await io.readBinary(new Uint8Array(inputBuffer));
+    for (const extension of document.getRoot().listExtensionsUsed()) {
+      if (extension.extensionName === 'KHR_draco_mesh_compression' || extension.extensionName === 'EXT_meshopt_compression') {
+        extension.dispose();
+      }
+    }
+    await document.transform(weld());
+    return document;
+  };
+
+  // Copy into a standalone ArrayBuffer so the result can be analyzed and re-read like any upload
+  const toArrayBuffer = async (document: Document): Promise<ArrayBuffer> => {
+    const bytes = await io.writeBinary(document);
+    return bytes.slice().buffer as ArrayBuffer;
+  };
+
+  const baseDocument = await readDocument();
+
+  // Instanced batches are left as they are in a single document: LOD nodes cannot carry the instance transforms
+  const meshNodes = baseDocument.getRoot().listNodes()
+    .filter(node => node.getMesh() && !node.getExtension(MSFT_LOD) && !node.getExtension('EXT_mesh_gpu_instancing'));
+  const simplifiedMeshes = lodOptions.output === 'separate'
+    ? baseDocument.getRoot().listMeshes()
+    : Array.from(new Set(meshNodes.map(node => node.getMesh()!)));
+
+  // LOD0 counts the same meshes as the simplified levels, so the ratios share a basis
+  const baseResults = simplifiedMeshes
+    .flatMap(mesh => mesh.listPrimitives())
+    .map(prim => {
+      const triangles = countTriangles(prim);
+      return { sourceTriangles: triangles, triangles, error: 0 };
+    });
+  const levels: LODLevelReport[] = [createLevelReport(0, null, baseResults)];
+  console.log(`LOD0: ${levels[0].triangleCount} triangles`);
+
+  if (levels[0].triangleCount === 0) {
+    const allInstanced = lodOptions.output === 'msft_lod' && meshNodes.length === 0
+      && baseDocument.getRoot().listNodes().some(node => node.getMesh() && node.getExtension('EXT_mesh_gpu_instancing'));
+    const skippedReason = allInstanced ? "LODs are not generated for GPU instanced meshes" : "no triangle geometry to simplify";
+    console.log(`Skipping LOD generation - ${skippedReason}`);
+    return lodOptions.output === 'separate'
+      ? { levelBuffers: [inputBuffer], levels: [], skippedReason }
+      : { buffer: inputBuffer, levels: [], skippedReason };
+  }
+
+  if (lodOptions.output === 'separate') {
+    // One document per level, simplified in place
+    const levelBuffers: ArrayBuffer[] = [await toArrayBuffer(baseDocument)];
+
+    for (const [index, level] of lodOptions.levels.entries()) {
+      const document = await readDocument();
+      const results = document.getRoot().listMeshes()
+        .flatMap(mesh => mesh.listPrimitives())
+        .map(prim => simplifyPrimitive(document, prim, level, lodOptions.lockBorder, simplifier));
+      await document.transform(prune());
+
+      levels.push(createLevelReport(index + 1, level, results));
+      levelBuffers.push(await toArrayBuffer(document));
+      console.log(`LOD${index + 1}: ${levels[index + 1].triangleCount} triangles, error ${levels[index + 1].achievedError.toFixed(4)}`);
+    }
+
+    return { levelBuffers, levels };
+  }
+
+  // Single document: attach simplified sibling nodes to each mesh node through MSFT_lod
+  const document = baseDocument;
+  const lodExtension = document.createExtension(MSFTLod);
+  const lodMeshes = new Map<Mesh, Mesh[]>();
+
+  for (const [index, level] of lodOptions.levels.entries()) {
+    const results: PrimitiveSimplification[] = [];
+    for (const mesh of simplifiedMeshes) {
+      const lodMesh = createSimplifiedMesh(document, mesh, index + 1, level, lodOptions.lockBorder, simplifier, results);
+      lodMeshes.set(mesh, [...(lodMeshes.get(mesh) || []), lodMesh]);
+    }
+    levels.push(createLevelReport(index + 1, level, results));
+    console.log(`LOD${index + 1}: ${levels[index + 1].triangleCount} triangles, error ${levels[index + 1].achievedError.toFixed(4)}`);
+  }
+
+  for (const node of meshNodes) {
+    const lod = lodExtension.createLod();
+    lodMeshes.get(node.getMesh()!)!.forEach((lodMesh, index) => {
+      const lodNode: Node = document.createNode(`${node.getName() || 'node'}_LOD${index + 1}`)
+        .setMesh(lodMesh)
+        .setSkin(node.getSkin())
+        .setWeights(node.getWeights())
+        .setTranslation(node.getTranslation())
+        .setRotation(node.getRotation())
+        .setScale(node.getScale());
+      lod.addLod(lodNode);
+    });
+    node.setExtension(MSFT_LOD, lod);
+
+    // Screen coverage thresholds, one per level plus a final cull threshold
+    const coverage = [...lodOptions.levels.map((_, index) => Math.pow(0.5, index + 1)), 0];
+    node.setExtras({ ...node.getExtras(), MSFT_screencoverage: coverage });
+  }
+
+  const buffer = await toArrayBuffer(document);
+  console.log("LOD chain generation complete!");
+  console.log("Output size:", buffer.byteLength);
+
+  return { buffer, levels };
+};
@@ -0,0 +1,162 @@
+/**
+ * Mesh codec module loading
+ * Lazily initializes the WASM encoders/decoders used by gltf-transform I/O
+ */
+
+import { MeshoptEncoder, MeshoptDecoder, MeshoptSimplifier } from 'meshoptimizer';
+import * as path from 'path';
+
+// Meshopt modules are stateless after initialization, so they are shared across requests
+let meshoptReady: Promise<void> | null = null;
+let simplifierReady: Promise<void> | null = null;
+
+// Draco WASM modules are instantiated once and reused; gltf-transform allocates per-mesh buffers itself
+let dracoEncoder: Promise<unknown> | null = null;
+let dracoDecoder: Promise<unknown> | null = null;
+// The glTF build of the decoder only decodes triangle meshes; point clouds need the full build
+let dracoPointCloudDecoder: Promise<unknown> | null = null;
+
+// MikkTSpace WASM module, used for tangent generation
+let mikktspace: Promise<MikkTSpaceGenerateTangents> | null = null;
+
+/**
+ * MikkTSpace tangent generator: takes unwelded position, normal and texcoord arrays
+ * and returns one VEC4 tangent per vertex
+ */
+export type MikkTSpaceGenerateTangents = (position: Float32Array, normal: Float32Array, texcoord: Float32Array) => Float32Array;
+
+/**
+ * Load the meshoptimizer encoder and decoder modules
+ * @returns Dependencies suitable for `io.registerDependencies()`
+ */
+export const loadMeshoptDependencies = async (): Promise<Record<string, unknown>> => {
+  if (!meshoptReady) {
+    console.log("Loading meshoptimizer encoder and decoder...");
+    meshoptReady = Promise.all([MeshoptEncoder.ready, MeshoptDecoder.ready]).then(() => undefined);
+  }
+
+  try {
+    await meshoptReady;
+  } catch (error) {
+    // Allow a later request to retry initialization
+    meshoptReady = null;
+    throw new Error(`Failed to initialize meshoptimizer: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return {
+    'meshopt.encoder': MeshoptEncoder,
+    'meshopt.decoder': MeshoptDecoder
+  };
+};
+
+/**
+ * Load the meshoptimizer simplifier module
+ * @returns Initialized MeshoptSimplifier
+ */
+export const loadMeshoptSimplifier = async (): Promise<typeof MeshoptSimplifier> => {
+  if (!simplifierReady) {
+    console.log("Loading meshoptimizer simplifier...");
+    simplifierReady = MeshoptSimplifier.ready;
+  }
+
+  try {
+    await simplifierReady;
+  } catch (error) {
+    simplifierReady = null;
+    throw new Error(`Failed to initialize meshoptimizer simplifier: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return MeshoptSimplifier;
+};
+
+/**
+ * Resolve Draco WASM files shipped in public/
+ */
+const locateDracoFile = (fileName: string): string => {
+  // For server-side Node.js environment, use absolute file path
+  if (typeof (globalThis as any).window === 'undefined') {
+    return path.join(process.cwd(), 'public', fileName);
+  }
+  // For client-side (if ever needed), use relative URL
+  return `/public/${fileName}`;
+};
+
+/**
+ * Load the Draco encoder and/or decoder modules
+ * @param modules - Which modules to load (default: both)
+ * @returns Dependencies suitable for `io.registerDependencies()`
+ * @throws Error if draco3dgltf cannot be loaded
+ */
+export const loadDracoDependencies = async (
+  modules: { encoder?: boolean; decoder?: boolean } = { encoder: true, decoder: true }
+): Promise<Record<string, unknown>> => {
+  if (typeof (globalThis as any).window !== 'undefined') {
+    throw new Error("Draco modules are only available server-side");
+  }
+
+  const dependencies: Record<string, unknown> = {};
+
+  try {
+    // Dynamic import for draco3dgltf to avoid loading WASM until it is needed
+    const draco3d: any = await import("draco3dgltf");
+
+    if (modules.encoder) {
+      if (!dracoEncoder) {
+        console.log("Loading Draco encoder...");
+        dracoEncoder = draco3d.createEncoderModule({ locateFile: locateDracoFile });
+      }
+      dependencies['draco3d.encoder'] = await dracoEncoder;
+    }
+
+    if (modules.decoder) {
+      if (!dracoDecoder) {
+        console.log("Loading Draco decoder...");
+        dracoDecoder = draco3d.createDecoderModule({ locateFile: locateDracoFile });
+      }
+      dependencies['draco3d.decoder'] = await dracoDecoder;
+    }
+  } catch (error) {
+    // Allow a later request to retry initialization
+    dracoEncoder = null;
+    dracoDecoder = null;
+    throw new Error(`Failed to initialize Draco: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (modules.decoder) {
+    try {
+      if (!dracoPointCloudDecoder) {
+        console.log("Loading Draco point cloud decoder...");
+        const draco3dFull: any = await import("draco3d");
+        dracoPointCloudDecoder = draco3dFull.createDecoderModule({});
+      }
+      dependencies['draco3d.pointCloudDecoder'] = await dracoPointCloudDecoder;
+    } catch (error) {
+      // Triangle meshes still decode without it; only Draco point clouds become unreadable
+      dracoPointCloudDecoder = null;
+      console.warn("Draco point cloud decoder not available:", error instanceof Error ? error.message : error);
+    }
+  }
+
+  return dependencies;
+};
+
+/**
+ * Load the MikkTSpace tangent generator
+ * @returns The generateTangents function of the mikktspace module
+ * @throws Error if mikktspace cannot be loaded
+ */
+export const loadMikkTSpace = async (): Promise<MikkTSpaceGenerateTangents> => {
+  if (!mikktspace) {
+    console.log("Loading MikkTSpace tangent generator...");
+    // Dynamic import to avoid loading WASM until a request needs tangents
+    mikktspace = import("mikktspace").then((module: any) => module.generateTangents ?? module.default.generateTangents);
+  }
+
+  try {
+    return await mikktspace;
+  } catch (error) {
+    // Allow a later request to retry initialization
+    mikktspace = null;
+    throw new Error(`Failed to initialize MikkTSpace: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
@@ -3,89 +3,216 @@
  * Extracted from compressGLTFServer.ts and adapted for standalone service
  */
 
-import { NodeIO, WebIO } from "@gltf-transform/core";
-import { ALL_EXTENSIONS } from "@gltf-transform/extensions";
-import { dedup, prune, draco } from "@gltf-transform/functions";
-import * as path from 'path';
+import { Accessor, Document, NodeIO, WebIO, type JSONDocument, type Transform } from "@gltf-transform/core";
+import { dedup, prune, draco, meshopt, quantize } from "@gltf-transform/functions";
+import type {
+  MeshCompressionOptions,
+  MeshCompressionReport,
+  MeshCompressionResult,
+  MeshDecompressionReport,
+  MeshDecompressionResult
+} from './compressionUtils.js';
+import { resolveMeshOptions, isDracoCompressed, isMeshoptCompressed } from './compressionUtils.js';
+import { loadDracoDependencies, loadMeshoptDependencies, loadMikkTSpace } from './meshCodecs.js';
+import { MSFTLod } from './msftLod.js';
+import { hasGeometryOptimization, optimizeGeometry } from './geometryOptimization.js';
+import {
+  classifyPrimitives,
+  listDracoSkippedPrimitives,
+  normalizeSkinWeights,
+  sparsifyMorphTargets,
+  summarizeDeformation
+} from './deformableGeometry.js';
+import { MESH_IO_EXTENSIONS, PointCloudDracoMeshCompression, summarizePointClouds } from './pointCloudCompression.js';
+import { hasAnimationOptimization, optimizeAnimations } from './animationOptimization.js';
+import { pruneVertexAttributes } from './attributePruning.js';
+import { hasSceneNormalization, normalizeScene } from './sceneNormalization.js';
+import { hasAttributeGeneration, generateVertexAttributes } from './vertexAttributeGeneration.js';
+import { captureGeometry, compareGeometry, type MeshGeometrySnapshot } from './geometryErrorMetrics.js';
+import type { MeshoptEncoder } from 'meshoptimizer';
+
+/**
+ * Measure the stored size of each primitive in a raw glTF JSON document.
+ * Draco primitives use their compressed bufferView; other primitives sum their accessors,
+ * scaled by the compression ratio of EXT_meshopt_compression bufferViews where present.
+ * @param jsonDocument - Raw glTF JSON and resources, as returned by `io.binaryToJSON()`
+ * @returns Map from "<mesh>#<primitive index>" to stored bytes
+ */
+const measurePrimitiveSizes = (jsonDocument: JSONDocument): Map<string, number> => {
+  const { json } = jsonDocument;
+  const accessors = json.accessors || [];
+  const bufferViews = json.bufferViews || [];
+  const sizes = new Map<string, number>();
+
+  const accessorSize = (index: number): number => {
+    const accessor = accessors[index];
+    if (!accessor) return 0;
+    const rawSize = accessor.count
+      * Accessor.getElementSize(accessor.type)
+      * Accessor.getComponentSize(accessor.componentType);
+    const bufferView = accessor.bufferView !== undefined ? bufferViews[accessor.bufferView] : undefined;
+    const meshopt = bufferView?.extensions?.['EXT_meshopt_compression'] as { byteLength: number } | undefined;
+    return meshopt && bufferView ? Math.round(rawSize * meshopt.byteLength / bufferView.byteLength) : rawSize;
+  };
+
+  (json.meshes || []).forEach((mesh, meshIndex) => {
+    const meshName = mesh.name || `mesh_${meshIndex}`;
+    mesh.primitives.forEach((primitive, primitiveIndex) => {
+      const draco = primitive.extensions?.['KHR_draco_mesh_compression'] as { bufferView: number } | undefined;
+      const size = draco
+        ? bufferViews[draco.bufferView].byteLength
+        : [...Object.values(primitive.attributes), ...(primitive.indices !== undefined ? [primitive.indices] : [])]
+          .reduce((sum, index) => sum + accessorSize(index), 0);
+      sizes.set(`${meshName}#${primitiveIndex}`, size);
+    });
+  });
+
+  return sizes;
+};
+
+/**
+ * Load Draco modules, logging instead of failing so that non-Draco work can continue
+ * @param includeEncoder - Whether the encoder is needed in addition to the decoder
+ * @returns Draco dependencies, or an empty object if draco3dgltf is unavailable
+ */
+const loadDracoDependenciesSafe = async (includeEncoder: boolean): Promise<Record<string, unknown>> => {
+  try {
+    return await loadDracoDependencies({ encoder: includeEncoder, decoder: true });
+  } catch (error) {
+    console.error("Failed to load Draco module on server:", error);
+    return {};
+  }
+};
 
 /**
  * Server-side GLTF mesh compression only (NO TEXTURE COMPRESSION)
  * @param inputBuffer - The ArrayBuffer of the glTF/glb file to compress
+ * @param options - Codec (Draco, meshopt or quantize-only) options, merged with DEFAULT_MESH_OPTIONS
  * @returns Promise that resolves to the mesh-compressed ArrayBuffer
  */
-export const compressGLTFMeshOnly = async (inputBuffer: ArrayBuffer): Promise<ArrayBuffer> => {
-  console.log("Starting GLTF mesh compression only...");
-  console.log("Input buffer size:", inputBuffer.byteLength);
+export const compressGLTFMeshOnly = async (
+  inputBuffer: ArrayBuffer,
+  options: Partial<MeshCompressionOptions> = {}
+): Promise<ArrayBuffer> => {
+  const result = await compressGLTFMeshWithReport(inputBuffer, options);
+  return result.buffer;
+};
 
-  // Dynamic import for draco3dgltf to avoid server-side issues
-  let draco3d: any = null;
+/**
+ * Position bits to retry with when the maxError guard is exceeded
+ * @returns The next bit depth, or null when the codec cannot be made more precise
+ */
+const nextPositionBits = (meshOptions: MeshCompressionOptions): number | null => {
+  const bits = meshOptions.quantizePosition;
+  if (meshOptions.codec === 'none' || (meshOptions.codec === 'draco' && bits === 0)) {
+    return null; // No quantization to relax (Draco 0 bits is lossless)
+  }
+  const maxBits = meshOptions.codec === 'draco' ? 30 : 16;
+  return bits < maxBits ? Math.min(bits + 2, maxBits) : null;
+};
 
-  const loadDraco3d = async () => {
-    if (typeof (globalThis as any).window === 'undefined') {
-      // Server-side: try to load anyway since this is server-side module
-      console.log("Loading Draco compression for server-side...");
-      try {
-        if (!draco3d) {
-          draco3d = await import("draco3dgltf");
-        }
-        return draco3d;
-      } catch (error) {
-        console.error("Failed to load Draco module on server:", error);
-        return null;
-      }
-    } else {
-      // Client-side: should not happen in server module
-      console.log("Draco compression not available on client-side");
-      return null;
+/**
+ * Server-side GLTF mesh compression returning a report of what was applied.
+ * With `maxError` set, compression is retried with more position bits until the measured
+ * position error is within the limit or the codec's maximum precision is reached.
+ * @param inputBuffer - The ArrayBuffer of the glTF/glb file to compress
+ * @param options - Codec (Draco, meshopt or quantize-only) options, merged with DEFAULT_MESH_OPTIONS
+ * @returns Promise that resolves to the mesh-compressed ArrayBuffer and compression report
+ */
+export const compressGLTFMeshWithReport = async (
+  inputBuffer: ArrayBuffer,
+  options: Partial<MeshCompressionOptions> = {}
+): Promise<MeshCompressionResult> => {
+  // Validate options before doing any work
+  const meshOptions = resolveMeshOptions(options);
+  console.log("Mesh compression options:", meshOptions);
+
+  let attemptOptions = meshOptions;
+  for (let attempts = 1; ; attempts++) {
+    const result = await compressGLTFMeshAttempt(inputBuffer, attemptOptions);
+    const metrics = result.report.errorMetrics;
+    if (!metrics) {
+      return result;
+    }
+    metrics.attempts = attempts;
+
+    if (meshOptions.maxError === 0 || metrics.maxPositionError <= meshOptions.maxError) {
+      return result;
     }
+
+    const nextBits = nextPositionBits(attemptOptions);
+    if (nextBits === null) {
+      console.warn(`Max position error ${metrics.maxPositionError} still exceeds maxError ${meshOptions.maxError} at the highest precision`);
+      metrics.maxErrorExceeded = true;
+      return result;
+    }
+
+    console.log(`Max position error ${metrics.maxPositionError} exceeds maxError ${meshOptions.maxError}, retrying with quantizePosition=${nextBits}...`);
+    attemptOptions = { ...attemptOptions, quantizePosition: nextBits };
+  }
+};
+
+/**
+ * Run the mesh compression pipeline once with fully resolved options
+ * @param inputBuffer - The ArrayBuffer of the glTF/glb file to compress
+ * @param meshOptions - Validated mesh compression options
+ * @returns Promise that resolves to the mesh-compressed ArrayBuffer and compression report
+ */
+const compressGLTFMeshAttempt = async (
+  inputBuffer: ArrayBuffer,
+  meshOptions: MeshCompressionOptions
+): Promise<MeshCompressionResult> => {
+  console.log("Starting GLTF mesh compression only...");
+  console.log("Input buffer size:", inputBuffer.byteLength);
+
+  const report: MeshCompressionReport = {
+    codec: meshOptions.codec,
+    meshCompressed: false,
+    quantized: false
+  };
+  const skip = (reason: string): MeshCompressionResult => {
+    console.log(`Skipping compression - ${reason}`);
+    return { buffer: inputBuffer, report: { ...report, skippedReason: reason } };
   };
 
-  const draco3dModule = await loadDraco3d();
+  // The Draco decoder is always requested so that Draco-compressed inputs can be read
+  const dracoDependencies = await loadDracoDependenciesSafe(meshOptions.codec === 'draco');
+  const dracoEncoderAvailable = 'draco3d.encoder' in dracoDependencies;
+
+  // Meshopt is always registered so that meshopt-compressed inputs can be read
+  const meshoptDependencies = await loadMeshoptDependencies();
 
   const io = new WebIO()
-    .registerExtensions(ALL_EXTENSIONS)
-    .registerDependencies(
-      draco3dModule ? {
-        "draco3d.encoder": await draco3dModule.createEncoderModule({
-          locateFile: (fileName: string) => {
-            // For server-side Node.js environment, use absolute file path
-            if (typeof (globalThis as any).window === 'undefined') {
-              return path.join(process.cwd(), 'public', fileName);
-            }
-            // For client-side (if ever needed), use relative URL
-            return `/public/${fileName}`;
-          },
-        }),
-      } : {}
-    );
+    .registerExtensions([...MESH_IO_EXTENSIONS, MSFTLod])
+    .registerDependencies(meshoptDependencies)
+    .registerDependencies(dracoDependencies);
 
   // Convert ArrayBuffer to Uint8Array before reading
   const uint8Input = new Uint8Array(inputBuffer);
 
-  // Read the glTF/glb data from the ArrayBuffer
-  const document = await io.readBinary(uint8Input);
+  // Read the glTF/glb data from the ArrayBuffer, keeping the raw JSON to measure stored primitive sizes
+  const jsonDocument = await io.binaryToJSON(uint8Input);
+  const inputPrimitiveSizes = meshOptions.reencode ? measurePrimitiveSizes(jsonDocument) : null;
+  const document = await io.readJSON(jsonDocument);
   
   console.log("Document loaded successfully");
   console.log("Number of meshes before compression:", document.getRoot().listMeshes().length);
   console.log("Number of accessors before compression:", document.getRoot().listAccessors().length);
 
-  // Check if file is already compressed
+  // Check if file is already compressed (Draco is decoded on read, but the extension stays registered)
   const meshes = document.getRoot().listMeshes();
-  let alreadyDracoCompressed = false;
+  const alreadyDracoCompressed = isDracoCompressed(document);
   let hasCompressibleGeometry = false;
   
-  // Check for existing Draco compression
+  if (alreadyDracoCompressed) {
+    console.log("File is already Draco compressed!");
+  }
+
   for (const mesh of meshes) {
     const primitives = mesh.listPrimitives();
     console.log(`Mesh has ${primitives.length} primitives`);
     
     for (const primitive of primitives) {
-      if (primitive.getExtension('KHR_draco_mesh_compression')) {
-        alreadyDracoCompressed = true;
-        console.log("File is already Draco compressed!");
-        break;
-      }
-      
       // Check if primitive has geometry that can be compressed
       const attributes = primitive.listAttributes();
       if (attributes.length > 0) {
@@ -93,56 +220,291 @@ export const compressGLTFMeshOnly = async (inputBuffer: ArrayBuffer): Promise<Ar
         console.log(`Primitive has ${attributes.length} attributes that can be compressed`);
         
         // Log attribute details
-        for (const [semantic, accessor] of Object.entries(attributes)) {
-          console.log(`  - ${semantic}: ${(accessor as any).getCount()} vertices`);
+        for (const semantic of primitive.listSemantics()) {
+          console.log(`  - ${semantic}: ${primitive.getAttribute(semantic)?.getCount()} vertices`);
+        }
+        if (primitive.listTargets().length > 0) {
+          console.log(`  - ${primitive.listTargets().length} morph targets`);
         }
       }
     }
-    if (alreadyDracoCompressed) break;
   }
 
-  // Skip if already compressed
-  if (alreadyDracoCompressed) {
-    console.log("Skipping compression - file already Draco compressed");
-    return inputBuffer;
+  const alreadyMeshoptCompressed = isMeshoptCompressed(document);
+
+  // Skip if already compressed, unless re-encoding was requested
+  if (alreadyDracoCompressed && !meshOptions.reencode) {
+    return skip("file already Draco compressed");
+  }
+
+  if (alreadyMeshoptCompressed && !meshOptions.reencode) {
+    return skip("file already meshopt compressed");
   }
 
   if (!hasCompressibleGeometry) {
-    console.log("No compressible geometry found");
-    return inputBuffer;
+    return skip("no compressible geometry found");
+  }
+
+  // Geometry was decoded on read; dropping the old codec extensions lets the requested codec take over
+  if (alreadyDracoCompressed || alreadyMeshoptCompressed) {
+    console.log("Re-encoding existing compressed geometry with the requested settings...");
+    for (const extension of document.getRoot().listExtensionsUsed()) {
+      if (extension.extensionName === 'KHR_draco_mesh_compression' || extension.extensionName === 'EXT_meshopt_compression') {
+        extension.dispose();
+      }
+    }
+    report.reencoded = true;
+  }
+
+  // Build transformation pipeline; geometry is captured after cleanup and normalization so that
+  // error metrics only measure what optimization and the codec changed
+  let referenceGeometry: MeshGeometrySnapshot[] = [];
+  const transforms: Transform[] = [];
+
+  // Animations go first, so stripped or replaced accessors are pruned along with everything else,
+  // and stripped models can be normalized with normalizeMode 'bake'
+  if (hasAnimationOptimization(meshOptions)) {
+    transforms.push(async (doc: Document) => {
+      report.animation = await optimizeAnimations(doc, meshOptions);
+    });
   }
 
-  // Build transformation pipeline
-  const transforms = [prune(), dedup()];
+  // Attributes prune() keeps because they are referenced, though they never affect rendering
+  if (meshOptions.pruneAttributes) {
+    transforms.push((doc: Document) => {
+      report.attributePruning = pruneVertexAttributes(doc);
+    });
+  }
+
+  transforms.push(prune(), dedup());
+
+  // Normalization follows animation optimization, attribute pruning and prune/dedup, and precedes
+  // attribute generation, optimization and quantization so that those work on the final extents
+  if (hasSceneNormalization(meshOptions)) {
+    transforms.push((doc: Document) => {
+      report.normalization = normalizeScene(doc, meshOptions);
+    });
+  }
+
+  // Generated normals and tangents are part of the reference, so their quantization error is measured
+  if (hasAttributeGeneration(meshOptions)) {
+    const generateTangents = meshOptions.generateTangents ? await loadMikkTSpace() : undefined;
+    transforms.push((doc: Document) => {
+      report.attributes = generateVertexAttributes(doc, meshOptions, generateTangents);
+    });
+  }
+
+  // Measuring decodes the output and searches it for each reference vertex, so it only runs on request
+  const measureError = meshOptions.maxError > 0 || meshOptions.reportErrorMetrics;
+  if (measureError) {
+    transforms.push((doc: Document) => {
+      referenceGeometry = captureGeometry(doc);
+    });
+  }
+
+  // Optional geometry optimization runs before any codec, and also with codec 'none'
+  if (hasGeometryOptimization(meshOptions)) {
+    transforms.push((doc: Document) => {
+      report.optimization = optimizeGeometry(doc, meshOptions, meshoptDependencies['meshopt.encoder'] as typeof MeshoptEncoder);
+    });
+  }
+
+  // Add meshopt compression (reorder + quantize + EXT_meshopt_compression)
+  if (meshOptions.codec === 'meshopt') {
+    console.log(`Applying meshopt geometry compression (${meshOptions.meshoptMethod} mode)...`);
+    transforms.push(
+      meshopt({
+        encoder: meshoptDependencies['meshopt.encoder'],
+        level: meshOptions.meshoptMethod === 'filter' ? 'high' : 'medium',
+        quantizationVolume: meshOptions.quantizationVolume,
+        quantizePosition: meshOptions.quantizePosition,
+        quantizeNormal: meshOptions.quantizeNormal,
+        quantizeTexcoord: meshOptions.quantizeTexcoord,
+        quantizeColor: meshOptions.quantizeColor,
+        quantizeGeneric: meshOptions.quantizeGeneric
+      })
+    );
+  }
+
+  // Add quantization only (KHR_mesh_quantization), no entropy codec and no decoder required
+  if (meshOptions.codec === 'quantize') {
+    console.log("Applying KHR_mesh_quantization without an entropy codec...");
+    transforms.push(
+      quantize({
+        quantizationVolume: meshOptions.quantizationVolume,
+        quantizePosition: meshOptions.quantizePosition,
+        quantizeNormal: meshOptions.quantizeNormal,
+        quantizeTexcoord: meshOptions.quantizeTexcoord,
+        quantizeColor: meshOptions.quantizeColor,
+        quantizeGeneric: meshOptions.quantizeGeneric
+      })
+    );
+  }
 
   // Add Draco compression if geometry exists and isn't already compressed
-  if (hasCompressibleGeometry && !alreadyDracoCompressed && draco3dModule) {
+  const applyDraco = meshOptions.codec === 'draco' && hasCompressibleGeometry && dracoEncoderAvailable;
+  if (applyDraco) {
     console.log("Applying Draco geometry compression...");
     transforms.push(
+      // draco() reuses an existing extension of the same name, so this variant does the encoding
+      (doc: Document) => {
+        doc.createExtension(PointCloudDracoMeshCompression);
+      },
       draco({
-        method: 'edgebreaker',
-        encodeSpeed: 0, // Slowest encoding for best compression
-        decodeSpeed: 0, // Slowest decoding for best compression
-        quantizationVolume: 'mesh'
+        method: meshOptions.method,
+        encodeSpeed: meshOptions.encodeSpeed,
+        decodeSpeed: meshOptions.decodeSpeed,
+        quantizationVolume: meshOptions.quantizationVolume,
+        quantizePosition: meshOptions.quantizePosition,
+        quantizeNormal: meshOptions.quantizeNormal,
+        quantizeTexcoord: meshOptions.quantizeTexcoord,
+        quantizeColor: meshOptions.quantizeColor,
+        quantizeGeneric: meshOptions.quantizeGeneric
       })
     );
   }
 
+  // Skinned, morph-target and point primitives: runs after quantization and before Draco encodes on write
+  let dracoPrimitivesRemaining = true;
+  transforms.push((doc: Document) => {
+    const classifications = classifyPrimitives(doc);
+    report.deformation = summarizeDeformation(classifications);
+    report.pointCloud = summarizePointClouds(classifications, applyDraco);
+
+    if (applyDraco) {
+      const skipped = listDracoSkippedPrimitives(classifications);
+      const excluded = classifications.filter(entry => entry.dracoSkipReason).map(entry => entry.primitive);
+      doc.createExtension(PointCloudDracoMeshCompression).setExcludedPrimitives(excluded);
+      dracoPrimitivesRemaining = skipped.length < classifications.length;
+      if (skipped.length > 0) {
+        report.primitivesSkipped = skipped;
+        for (const entry of skipped) {
+          console.log(`  Draco skipped ${entry.mesh}[${entry.primitive}]: ${entry.reason}`);
+        }
+      }
+    }
+
+    if (report.deformation) {
+      report.deformation.weightsNormalized = normalizeSkinWeights(classifications, applyDraco);
+      report.deformation.sparseMorphAccessors = sparsifyMorphTargets(classifications);
+      console.log("Deformable geometry:", report.deformation);
+    }
+  });
+
   // Apply geometry transformations
   await document.transform(...transforms);
 
   console.log("Number of meshes after compression:", document.getRoot().listMeshes().length);
   console.log("Number of accessors after compression:", document.getRoot().listAccessors().length);
 
+  // Draco is only applied when its encoder module could be loaded and at least one primitive qualifies
+  report.meshCompressed = meshOptions.codec === 'draco'
+    ? dracoEncoderAvailable && dracoPrimitivesRemaining
+    : meshOptions.codec !== 'none';
+  if (meshOptions.codec === 'draco' && !dracoEncoderAvailable) {
+    report.skippedReason = "Draco encoder module not available";
+  } else if (meshOptions.codec === 'draco' && !dracoPrimitivesRemaining) {
+    report.skippedReason = "no primitive can be Draco compressed";
+  }
+  report.quantized = document.getRoot().listExtensionsUsed()
+    .some(extension => extension.extensionName === 'KHR_mesh_quantization');
+
   // Serialize the compressed glTF back to an ArrayBuffer
   const compressedArrayBuffer = (await io.writeBinary(
     document
   )) as unknown as ArrayBuffer;
 
+  // Decode the output and measure how far its geometry moved
+  if (measureError) {
+    const outputDocument = await io.readBinary(new Uint8Array(compressedArrayBuffer));
+    report.errorMetrics = {
+      ...compareGeometry(referenceGeometry, captureGeometry(outputDocument)),
+      attempts: 1,
+      quantizePosition: meshOptions.quantizePosition
+    };
+    console.log("Geometry error:", {
+      maxPositionError: report.errorMetrics.maxPositionError,
+      maxNormalError: report.errorMetrics.maxNormalError,
+      maxUVError: report.errorMetrics.maxUVError
+    });
+  }
+
+  if (report.reencoded && inputPrimitiveSizes) {
+    const outputPrimitiveSizes = measurePrimitiveSizes(await io.binaryToJSON(new Uint8Array(compressedArrayBuffer)));
+    report.primitiveSizes = Array.from(inputPrimitiveSizes.entries()).map(([key, beforeBytes]) => {
+      const separator = key.lastIndexOf('#');
+      return {
+        mesh: key.slice(0, separator),
+        primitive: Number(key.slice(separator + 1)),
+        beforeBytes,
+        afterBytes: outputPrimitiveSizes.get(key) ?? null
+      };
+    });
+    for (const entry of report.primitiveSizes) {
+      console.log(`  ${entry.mesh}[${entry.primitive}]: ${entry.beforeBytes} -> ${entry.afterBytes ?? 'removed'} bytes`);
+    }
+  }
+
   console.log("Mesh compression complete!");
   console.log("Original size:", inputBuffer.byteLength);
   console.log("Compressed size:", compressedArrayBuffer.byteLength);
   console.log("Compression ratio:", ((inputBuffer.byteLength - compressedArrayBuffer.byteLength) / inputBuffer.byteLength * 100).toFixed(2) + "%");
 
-  return compressedArrayBuffer;
-};
\ No newline at end of file
+  return { buffer: compressedArrayBuffer, report };
+};
+
+/**
+ * Server-side GLTF mesh decompression: decodes Draco (and meshopt) geometry and writes plain accessors
+ * @param inputBuffer - The ArrayBuffer of the glTF/glb file to decompress
+ * @returns Promise that resolves to the decompressed ArrayBuffer and decompression report
+ */
+export const decompressGLTFMesh = async (
+  inputBuffer: ArrayBuffer
+): Promise<MeshDecompressionResult> => {
+  console.log("Starting GLTF mesh decompression...");
+  console.log("Input buffer size:", inputBuffer.byteLength);
+
+  const dracoDependencies = await loadDracoDependencies({ decoder: true });
+  const io = new WebIO()
+    .registerExtensions([...MESH_IO_EXTENSIONS, MSFTLod])
+    .registerDependencies(await loadMeshoptDependencies())
+    .registerDependencies(dracoDependencies);
+
+  // Count Draco primitives from the raw JSON, since they are decoded transparently on read
+  const jsonDocument = await io.binaryToJSON(new Uint8Array(inputBuffer));
+  const primitivesDecoded = (jsonDocument.json.meshes || [])
+    .flatMap(mesh => mesh.primitives)
+    .filter(primitive => primitive.extensions?.['KHR_draco_mesh_compression'])
+    .length;
+
+  const document = await io.readJSON(jsonDocument);
+  console.log("Document loaded successfully");
+
+  const report: MeshDecompressionReport = {
+    decodedExtensions: [],
+    primitivesDecoded
+  };
+
+  // Disposing the codec extensions makes the writer emit plain accessors
+  for (const extension of document.getRoot().listExtensionsUsed()) {
+    if (extension.extensionName === 'KHR_draco_mesh_compression' || extension.extensionName === 'EXT_meshopt_compression') {
+      console.log(`Removing ${extension.extensionName}`);
+      report.decodedExtensions.push(extension.extensionName);
+      extension.dispose();
+    }
+  }
+
+  if (report.decodedExtensions.length === 0) {
+    console.log("Skipping decompression - no compressed geometry found");
+    return { buffer: inputBuffer, report: { ...report, skippedReason: "no compressed geometry found" } };
+  }
+
+  const decompressedArrayBuffer = (await io.writeBinary(document)) as unknown as ArrayBuffer;
+
+  console.log("Mesh decompression complete!");
+  console.log("Original size:", inputBuffer.byteLength);
+  console.log("Decompressed size:", decompressedArrayBuffer.byteLength);
+  console.log("Primitives decoded:", primitivesDecoded);
+
+  return { buffer: decompressedArrayBuffer, report };
+};
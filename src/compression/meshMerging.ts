@@ -0,0 +1,225 @@
+/**
+ * Mesh merging pass
+ * Flattens static node hierarchies and joins primitives that share a material to reduce draw calls
+ */
+
+import { Document, Node, WebIO, type Transform } from "@gltf-transform/core";
+import { clearNodeParent, dedup, join, prune } from "@gltf-transform/functions";
+import { KHRDracoMeshCompression } from "@gltf-transform/extensions";
+import { resolveMeshOptions, type MeshCompressionOptions } from './compressionUtils.js';
+import { loadDracoDependencies, loadMeshoptDependencies } from './meshCodecs.js';
+import { GEOMETRY_PRESERVING_IO_EXTENSIONS } from './pointCloudCompression.js';
+import { MSFTLod, MSFT_LOD } from './msftLod.js';
+
+/**
+ * Node hierarchy policy for mesh merging
+ */
+export interface MeshMergeOptions {
+  keepNamed: boolean; // Named nodes stay in place and are never merged
+  keepAnimated: boolean; // Static nodes below animated nodes are also left unmerged
+}
+
+/**
+ * Report describing the draw-call reduction
+ */
+export interface MeshMergeReport {
+  drawCallsBefore: number;
+  drawCallsAfter: number;
+  meshCountBefore: number;
+  meshCountAfter: number;
+  nodeCountBefore: number;
+  nodeCountAfter: number;
+  nodesKept: number; // Nodes excluded from merging by the policy, skinning or animation
+  skippedReason?: string;
+}
+
+/**
+ * Mesh merging output with its report
+ */
+export interface MeshMergeResult {
+  buffer: ArrayBuffer;
+  report: MeshMergeReport;
+}
+
+export const DEFAULT_MESH_MERGE_OPTIONS: MeshMergeOptions = {
+  keepNamed: false,
+  keepAnimated: true
+};
+
+/**
+ * Count draw calls as one per primitive of every node in a scene that references a mesh.
+ * An EXT_mesh_gpu_instancing node draws all of its instances in one call per primitive.
+ * @param document - The glTF document to count
+ * @returns Total draw calls across all scenes
+ */
+export const countDrawCalls = (document: Document): number => {
+  let drawCalls = 0;
+  for (const scene of document.getRoot().listScenes()) {
+    scene.traverse(node => {
+      const mesh = node.getMesh();
+      if (mesh) {
+        drawCalls += mesh.listPrimitives().length;
+      }
+    });
+  }
+  return drawCalls;
+};
+
+/**
+ * Find the nodes that must keep their place in the hierarchy.
+ * Animated nodes, skin joints and everything below them are never moved, since their world
+ * transform changes at runtime; the policy decides which other nodes are kept.
+ */
+const listKeptNodes = (document: Document, options: MeshMergeOptions): { pinned: Set<Node>; kept: Set<Node> } => {
+  const root = document.getRoot();
+  const animated = new Set<Node>();
+  for (const animation of root.listAnimations()) {
+    for (const channel of animation.listChannels()) {
+      const target = channel.getTargetNode();
+      if (target) animated.add(target);
+    }
+  }
+  const joints = new Set<Node>(root.listSkins().flatMap(skin => skin.listJoints()));
+
+  // Moving nodes cannot be reparented without changing how they move
+  const moving = new Set<Node>();
+  // Pinned nodes stay in place: moving nodes plus those kept by the policy
+  const pinned = new Set<Node>();
+  // Kept nodes are additionally excluded from joining
+  const kept = new Set<Node>();
+
+  for (const scene of root.listScenes()) {
+    scene.traverse(node => {
+      const parent = node.getParentNode();
+      const underMovingParent = !!parent && moving.has(parent);
+
+      if (animated.has(node) || joints.has(node) || underMovingParent) {
+        moving.add(node);
+        pinned.add(node);
+      }
+      if (animated.has(node) || node.getSkin() || (options.keepAnimated && underMovingParent)) {
+        kept.add(node);
+      }
+      if (options.keepNamed && node.getName()) {
+        pinned.add(node);
+        kept.add(node);
+      }
+    });
+  }
+
+  return { pinned, kept };
+};
+
+/**
+ * Merge static primitives that share a material into fewer meshes.
+ * Static nodes are moved to the scene root with their world transform baked in, then sibling
+ * primitives with the same material and vertex layout are joined.
+ * @param inputBuffer - The ArrayBuffer of the glTF/glb file
+ * @param options - Node hierarchy policy, merged with DEFAULT_MESH_MERGE_OPTIONS
+ * @param meshOptions - Mesh compression options of the request; joined primitives of a Draco file
+ * are encoded with their Draco settings
+ * @returns Promise that resolves to the merged ArrayBuffer and report
+ */
+export const mergeMeshes = async (
+  inputBuffer: ArrayBuffer,
+  options: Partial<MeshMergeOptions> = {},
+  meshOptions: Partial<MeshCompressionOptions> = {}
+): Promise<MeshMergeResult> => {
+  console.log("Starting mesh merging pass...");
+  console.log("Input buffer size:", inputBuffer.byteLength);
+
+  const mergeOptions: MeshMergeOptions = { ...DEFAULT_MESH_MERGE_OPTIONS, ...options };
+  console.log("Mesh merge options:", mergeOptions);
+  const dracoOptions = resolveMeshOptions(meshOptions);
+
+  // Primitives left unjoined keep their Draco bitstreams and meshopt filters
+  const io = new WebIO()
+    .registerExtensions([...GEOMETRY_PRESERVING_IO_EXTENSIONS, MSFTLod])
+    .registerDependencies(await loadMeshoptDependencies())
+    .registerDependencies(await loadDracoDependencies());
+
+  const document = await io.readBinary(new Uint8Array(inputBuffer));
+  const root = document.getRoot();
+
+  const report: MeshMergeReport = {
+    drawCallsBefore: countDrawCalls(document),
+    drawCallsAfter: 0,
+    meshCountBefore: root.listMeshes().length,
+    meshCountAfter: root.listMeshes().length,
+    nodeCountBefore: root.listNodes().length,
+    nodeCountAfter: root.listNodes().length,
+    nodesKept: 0
+  };
+  report.drawCallsAfter = report.drawCallsBefore;
+
+  const skip = (reason: string): MeshMergeResult => {
+    console.log(`Skipping mesh merging - ${reason}`);
+    return { buffer: inputBuffer, report: { ...report, skippedReason: reason } };
+  };
+
+  // Joined meshes would no longer match the levels an MSFT_lod node points to
+  if (root.listNodes().some(node => node.getExtension(MSFT_LOD))) {
+    return skip("merging is not supported for MSFT_lod nodes");
+  }
+
+  const { pinned, kept } = listKeptNodes(document, mergeOptions);
+  report.nodesKept = kept.size;
+  console.log(`Nodes pinned in hierarchy: ${pinned.size}, excluded from merging: ${kept.size}`);
+
+  const flattenStatic: Transform = (doc: Document) => {
+    // Collected parents-first, so world transforms are baked top-down without reparenting mid-traversal
+    const nodes: Node[] = [];
+    for (const scene of doc.getRoot().listScenes()) {
+      scene.traverse(node => {
+        nodes.push(node);
+      });
+    }
+    for (const node of nodes) {
+      if (!pinned.has(node) && node.getParentNode()) {
+        clearNodeParent(node);
+      }
+    }
+  };
+
+  // Instanced nodes, morph targets and mismatched vertex layouts are left alone by join();
+  // named nodes are handled by the filter, so join() itself does not look at names
+  await document.transform(
+    dedup(),
+    flattenStatic,
+    join({ keepNamed: false, filter: (node: Node) => !kept.has(node) }),
+    prune()
+  );
+
+  report.drawCallsAfter = countDrawCalls(document);
+  report.meshCountAfter = root.listMeshes().length;
+  report.nodeCountAfter = root.listNodes().length;
+
+  if (report.drawCallsAfter >= report.drawCallsBefore) {
+    return skip("no primitives could be merged");
+  }
+
+  // Joined primitives have no source bitstream, so Draco encodes them with the request's settings
+  const dracoExtension = root.listExtensionsUsed()
+    .find(extension => extension.extensionName === KHRDracoMeshCompression.EXTENSION_NAME) as KHRDracoMeshCompression | undefined;
+  dracoExtension?.setEncoderOptions({
+    method: dracoOptions.method === 'edgebreaker' ? KHRDracoMeshCompression.EncoderMethod.EDGEBREAKER : KHRDracoMeshCompression.EncoderMethod.SEQUENTIAL,
+    encodeSpeed: dracoOptions.encodeSpeed,
+    decodeSpeed: dracoOptions.decodeSpeed,
+    quantizationBits: {
+      POSITION: dracoOptions.quantizePosition,
+      NORMAL: dracoOptions.quantizeNormal,
+      COLOR: dracoOptions.quantizeColor,
+      TEX_COORD: dracoOptions.quantizeTexcoord,
+      GENERIC: dracoOptions.quantizeGeneric
+    },
+    quantizationVolume: dracoOptions.quantizationVolume
+  });
+
+  const bytes = await io.writeBinary(document);
+  const buffer = bytes.slice().buffer as ArrayBuffer;
+
+  console.log(`Mesh merging: ${report.drawCallsBefore} -> ${report.drawCallsAfter} draw calls, ${report.meshCountBefore} -> ${report.meshCountAfter} meshes`);
+  console.log("Output size:", buffer.byteLength);
+
+  return { buffer, report };
+};
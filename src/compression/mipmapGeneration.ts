@@ -0,0 +1,225 @@
+/**
+ * Mipmap chain generation for KTX2 textures
+ * libktx encodes the levels stored in the texture rather than generating them, so mip levels are
+ * built here: box-filtered from the previous level, capped at a minimum size, and optionally
+ * rescaled in alpha so alpha-tested (cutout) textures keep their coverage at a distance
+ */
+
+/**
+ * RGBA8 pixels of one mip level
+ */
+export interface MipLevel {
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray;
+}
+
+/**
+ * Mip chain options
+ */
+export interface MipChainOptions {
+  srgb: boolean; // Average color in linear light
+  preserveAlphaCoverage: boolean; // Keep the share of texels passing the alpha test at every level
+  alphaCutoff: number; // Alpha test threshold, 0-1 (glTF default 0.5)
+}
+
+export const DEFAULT_MIP_CHAIN_OPTIONS: MipChainOptions = {
+  srgb: true,
+  preserveAlphaCoverage: false,
+  alphaCutoff: 0.5
+};
+
+const SRGB_TO_LINEAR = Array.from({ length: 256 }, (_, value) => {
+  const c = value / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+});
+
+const linearToSRGB = (value: number): number => {
+  const c = value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055;
+  return c * 255;
+};
+
+/**
+ * Dimensions of a mip level
+ * @param width - Level 0 width
+ * @param height - Level 0 height
+ * @param level - Mip level
+ * @returns Width and height, never below 1
+ */
+export const getMipLevelSize = (width: number, height: number, level: number): { width: number; height: number } => {
+  return { width: Math.max(1, width >> level), height: Math.max(1, height >> level) };
+};
+
+/**
+ * Number of levels in a chain that stops before the longer side drops below minMipSize,
+ * as the Basis Universal encoder does
+ * @param width - Level 0 width
+ * @param height - Level 0 height
+ * @param minMipSize - Smallest longer side of the last level
+ * @returns Level count, at least 1
+ */
+export const computeMipLevelCount = (width: number, height: number, minMipSize = 1): number => {
+  const fullChain = Math.floor(Math.log2(Math.max(width, height))) + 1;
+  let levels = 1;
+  while (levels < fullChain) {
+    const next = getMipLevelSize(width, height, levels);
+    if (Math.max(next.width, next.height) < minMipSize) break;
+    levels++;
+  }
+  return levels;
+};
+
+/**
+ * Halve a level with a box filter; odd sides fold their last row or column into the filter
+ * @param level - Source level
+ * @param srgb - Average color in linear light
+ * @returns The next mip level
+ */
+export const downsampleMipLevel = (level: MipLevel, srgb: boolean): MipLevel => {
+  const { width, height } = getMipLevelSize(level.width, level.height, 1);
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const scaleX = level.width / width;
+  const scaleY = level.height / height;
+
+  for (let row = 0; row < height; row++) {
+    const y0 = Math.floor(row * scaleY);
+    const y1 = Math.min(level.height, Math.floor((row + 1) * scaleY));
+    for (let column = 0; column < width; column++) {
+      const x0 = Math.floor(column * scaleX);
+      const x1 = Math.min(level.width, Math.floor((column + 1) * scaleX));
+      const sum = [0, 0, 0, 0];
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const offset = (y * level.width + x) * 4;
+          for (let channel = 0; channel < 3; channel++) {
+            const value = level.pixels[offset + channel];
+            sum[channel] += srgb ? SRGB_TO_LINEAR[value] : value;
+          }
+          sum[3] += level.pixels[offset + 3];
+        }
+      }
+      const count = (x1 - x0) * (y1 - y0);
+      const offset = (row * width + column) * 4;
+      for (let channel = 0; channel < 3; channel++) {
+        pixels[offset + channel] = srgb ? linearToSRGB(sum[channel] / count) : sum[channel] / count;
+      }
+      pixels[offset + 3] = sum[3] / count;
+    }
+  }
+
+  return { width, height, pixels };
+};
+
+/**
+ * Average two equally sized levels, for the depth axis of 3D textures
+ */
+export const averageMipLevels = (a: MipLevel, b: MipLevel, srgb: boolean): MipLevel => {
+  const pixels = new Uint8ClampedArray(a.pixels.length);
+  for (let i = 0; i < pixels.length; i++) {
+    pixels[i] = srgb && i % 4 !== 3
+      ? linearToSRGB((SRGB_TO_LINEAR[a.pixels[i]] + SRGB_TO_LINEAR[b.pixels[i]]) / 2)
+      : (a.pixels[i] + b.pixels[i]) / 2;
+  }
+  return { width: a.width, height: a.height, pixels };
+};
+
+/**
+ * Share of texels whose alpha passes the alpha test
+ * @param pixels - RGBA pixels
+ * @param alphaCutoff - Alpha test threshold, 0-1
+ * @param scale - Alpha multiplier
+ * @returns Coverage between 0 and 1
+ */
+export const computeAlphaCoverage = (pixels: Uint8ClampedArray, alphaCutoff: number, scale = 1): number => {
+  const threshold = alphaCutoff * 255;
+  let covered = 0;
+  for (let i = 3; i < pixels.length; i += 4) {
+    if (Math.min(255, pixels[i] * scale) >= threshold) covered++;
+  }
+  return covered / (pixels.length / 4);
+};
+
+/**
+ * Scale the alpha of a level so its coverage matches a target (Castaño's method).
+ * The scale is found by bisection, since coverage grows with it.
+ * @param level - Level to adjust in place
+ * @param targetCoverage - Coverage of level 0
+ * @param alphaCutoff - Alpha test threshold, 0-1
+ * @returns The alpha scale that was applied
+ */
+export const scaleAlphaToCoverage = (level: MipLevel, targetCoverage: number, alphaCutoff: number): number => {
+  let low = 0;
+  let high = 4;
+  let scale = 1;
+  for (let step = 0; step < 10; step++) {
+    scale = (low + high) / 2;
+    const coverage = computeAlphaCoverage(level.pixels, alphaCutoff, scale);
+    if (coverage < targetCoverage) low = scale;
+    else if (coverage > targetCoverage) high = scale;
+    else break;
+  }
+  for (let i = 3; i < level.pixels.length; i += 4) {
+    level.pixels[i] = level.pixels[i] * scale;
+  }
+  return scale;
+};
+
+/**
+ * Build the mip levels that follow the given ones
+ * @param levels - Level 0 and any pre-authored levels, in order
+ * @param levelCount - Total number of levels
+ * @param options - Filtering and alpha coverage options
+ * @returns All levels; generated levels are box-filtered from the previous one
+ */
+export const completeMipChain = (levels: MipLevel[], levelCount: number, options: MipChainOptions): MipLevel[] => {
+  const chain = levels.slice(0, levelCount);
+  const targetCoverage = options.preserveAlphaCoverage ? computeAlphaCoverage(chain[0].pixels, options.alphaCutoff) : 0;
+
+  // Filter from the unscaled alpha, so coverage corrections do not compound down the chain
+  let source = chain[chain.length - 1];
+  while (chain.length < levelCount) {
+    source = downsampleMipLevel(source, options.srgb);
+    if (options.preserveAlphaCoverage) {
+      const level = { ...source, pixels: source.pixels.slice() };
+      scaleAlphaToCoverage(level, targetCoverage, options.alphaCutoff);
+      chain.push(level);
+    } else {
+      chain.push(source);
+    }
+  }
+
+  return chain;
+};
+
+/**
+ * Build the mip chain of a 3D texture; each level halves the depth as well as the sides
+ * @param slices - Depth slices of level 0
+ * @param levelCount - Total number of levels
+ * @param options - Filtering and alpha coverage options
+ * @returns Depth slices of every level
+ */
+export const buildVolumeMipChain = (slices: MipLevel[], levelCount: number, options: MipChainOptions): MipLevel[][] => {
+  const chain = [slices];
+  const targetCoverage = options.preserveAlphaCoverage
+    ? slices.reduce((sum, slice) => sum + computeAlphaCoverage(slice.pixels, options.alphaCutoff), 0) / slices.length
+    : 0;
+
+  let source = slices;
+  while (chain.length < levelCount) {
+    const halved = source.map(slice => downsampleMipLevel(slice, options.srgb));
+    source = Array.from({ length: Math.max(1, halved.length >> 1) }, (_, index) => {
+      const first = halved[index * 2];
+      const second = halved[Math.min(index * 2 + 1, halved.length - 1)];
+      return averageMipLevels(first, second, options.srgb);
+    });
+    chain.push(options.preserveAlphaCoverage
+      ? source.map(slice => {
+        const level = { ...slice, pixels: slice.pixels.slice() };
+        scaleAlphaToCoverage(level, targetCoverage, options.alphaCutoff);
+        return level;
+      })
+      : source);
+  }
+
+  return chain;
+};
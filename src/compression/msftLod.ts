@@ -0,0 +1,102 @@
+/**
+ * MSFT_lod extension support for gltf-transform
+ * gltf-transform does not ship MSFT_lod, so this provides a minimal read/write implementation.
+ * See: https://github.com/KhronosGroup/glTF/tree/main/extensions/2.0/Vendor/MSFT_lod
+ */
+
+import {
+  Extension,
+  ExtensionProperty,
+  PropertyType,
+  RefList,
+  type IProperty,
+  type Node,
+  type Nullable,
+  type ReaderContext,
+  type WriterContext
+} from "@gltf-transform/core";
+
+export const MSFT_LOD = 'MSFT_lod';
+
+interface ILod extends IProperty {
+  lods: RefList<Node>;
+}
+
+/**
+ * Ordered list of lower-detail nodes replacing the parent node, highest detail first
+ */
+export class Lod extends ExtensionProperty<ILod> {
+  public static EXTENSION_NAME = MSFT_LOD;
+  public declare extensionName: typeof MSFT_LOD;
+  public declare propertyType: 'Lod';
+  public declare parentTypes: [PropertyType.NODE];
+
+  protected init(): void {
+    this.extensionName = MSFT_LOD;
+    this.propertyType = 'Lod';
+    this.parentTypes = [PropertyType.NODE];
+  }
+
+  protected getDefaults(): Nullable<ILod> {
+    return Object.assign(super.getDefaults() as IProperty, { lods: new RefList<Node>() });
+  }
+
+  addLod(node: Node): this {
+    return this.addRef('lods', node);
+  }
+
+  removeLod(node: Node): this {
+    return this.removeRef('lods', node);
+  }
+
+  listLods(): Node[] {
+    return this.listRefs('lods');
+  }
+}
+
+/**
+ * MSFT_lod extension. LOD nodes are referenced by index from the highest-detail node;
+ * screen coverage thresholds are stored in the node's `extras.MSFT_screencoverage`.
+ */
+export class MSFTLod extends Extension {
+  public readonly extensionName = MSFT_LOD;
+  public static readonly EXTENSION_NAME = MSFT_LOD;
+
+  createLod(): Lod {
+    return new Lod(this.document.getGraph());
+  }
+
+  read(context: ReaderContext): this {
+    const nodeDefs = context.jsonDoc.json.nodes || [];
+
+    nodeDefs.forEach((nodeDef, nodeIndex) => {
+      const lodDef = nodeDef.extensions?.[MSFT_LOD] as { ids?: number[] } | undefined;
+      if (!lodDef || !Array.isArray(lodDef.ids)) return;
+
+      const lod = this.createLod();
+      for (const id of lodDef.ids) {
+        lod.addLod(context.nodes[id]);
+      }
+      context.nodes[nodeIndex].setExtension(MSFT_LOD, lod);
+    });
+
+    return this;
+  }
+
+  write(context: WriterContext): this {
+    const jsonDoc = context.jsonDoc;
+
+    for (const node of this.document.getRoot().listNodes()) {
+      const lod = node.getExtension<Lod>(MSFT_LOD);
+      if (!lod) continue;
+
+      const nodeDef = jsonDoc.json.nodes![context.nodeIndexMap.get(node)!];
+      nodeDef.extensions = nodeDef.extensions || {};
+      nodeDef.extensions[MSFT_LOD] = {
+        ids: lod.listLods().map(lodNode => context.nodeIndexMap.get(lodNode)!)
+      };
+    }
+
+    return this;
+  }
+}
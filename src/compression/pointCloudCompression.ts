@@ -0,0 +1,540 @@
+/**
+ * Point cloud support for KHR_draco_mesh_compression
+ * gltf-transform only encodes and decodes Draco triangle meshes; this variant also handles
+ * POINTS primitives with Draco's point cloud encoder (kd-tree or sequential)
+ */
+
+import { Accessor, GLB_BUFFER, Primitive, PropertyType, type ReaderContext, type WriterContext } from "@gltf-transform/core";
+import { ALL_EXTENSIONS, EXTMeshoptCompression, KHRDracoMeshCompression } from "@gltf-transform/extensions";
+import { getBounds } from "@gltf-transform/functions";
+import { SelectiveDracoMeshCompression, type PrimitiveClassification } from './deformableGeometry.js';
+import type { PointCloudReport } from './compressionUtils.js';
+
+type EncoderOptions = Parameters<KHRDracoMeshCompression['setEncoderOptions']>[0];
+
+// Point cloud values of Draco's encoding method option; the JS bindings only name the mesh methods
+const POINT_CLOUD_SEQUENTIAL_ENCODING = 0;
+
+// Quantization bits used when the encoder options do not set them (Draco defaults)
+const DEFAULT_QUANTIZATION_BITS: Record<string, number> = {
+  POSITION: 14,
+  NORMAL: 10,
+  COLOR: 8,
+  TEX_COORD: 12,
+  GENERIC: 12
+};
+
+/**
+ * Encoded point cloud, shared by primitives using the same accessors
+ */
+interface EncodedPointCloud {
+  data: Uint8Array;
+  attributeIDs: Record<string, number>;
+}
+
+/**
+ * Draco attribute type for a glTF attribute semantic
+ */
+const getAttributeType = (semantic: string): string => {
+  if (semantic === 'POSITION') return 'POSITION';
+  if (semantic === 'NORMAL') return 'NORMAL';
+  if (semantic.startsWith('COLOR_')) return 'COLOR';
+  if (semantic.startsWith('TEXCOORD_')) return 'TEX_COORD';
+  return 'GENERIC';
+};
+
+/**
+ * Check whether a primitive is a point cloud this extension can encode: non-indexed POINTS
+ * @param primitive - Primitive to check
+ * @returns True for Draco-encodable point primitives
+ */
+export const isDracoPointCloud = (primitive: Primitive): boolean => {
+  return primitive.getMode() === Primitive.Mode.POINTS
+    && !primitive.getIndices()
+    && !!primitive.getAttribute('POSITION');
+};
+
+/**
+ * Summarize POINTS primitives for the compression report
+ * @param classifications - Result of classifyPrimitives()
+ * @param dracoApplied - Whether Draco encodes the output
+ * @returns Point cloud report, or undefined when no primitive is a point cloud
+ */
+export const summarizePointClouds = (
+  classifications: PrimitiveClassification[],
+  dracoApplied: boolean
+): PointCloudReport | undefined => {
+  const pointPrimitives = classifications.filter(entry => entry.points > 0);
+  if (pointPrimitives.length === 0) {
+    return undefined;
+  }
+  return {
+    primitives: pointPrimitives.length,
+    points: pointPrimitives.reduce((sum, entry) => sum + entry.points, 0),
+    primitivesCompressed: dracoApplied ? pointPrimitives.filter(entry => !entry.dracoSkipReason).length : 0
+  };
+};
+
+/**
+ * KHR_draco_mesh_compression with point cloud support.
+ * Triangle primitives are encoded by the base extension; POINTS primitives are encoded here after
+ * it, and point cloud buffers are decoded here before the base extension reads the meshes.
+ */
+export class PointCloudDracoMeshCompression extends SelectiveDracoMeshCompression {
+  public static readonly EXTENSION_NAME = KHRDracoMeshCompression.EXTENSION_NAME;
+
+  public readonly readDependencies = ['draco3d.decoder', 'draco3d.pointCloudDecoder'];
+
+  private encoder: any = null;
+  private decoder: any = null;
+  private options: EncoderOptions = {};
+  private encodedPointClouds = new Map<Primitive, EncodedPointCloud>();
+
+  /** @hidden */
+  public install(key: string, dependency: unknown): this {
+    if (key !== 'draco3d.pointCloudDecoder') super.install(key, dependency);
+    if (key === 'draco3d.encoder') this.encoder = dependency;
+    if (key === 'draco3d.pointCloudDecoder') this.decoder = dependency;
+    return this;
+  }
+
+  public setEncoderOptions(options: EncoderOptions): this {
+    this.options = options;
+    return super.setEncoderOptions(options);
+  }
+
+  /** @hidden */
+  public preread(context: ReaderContext): this {
+    this.decodePointClouds(context);
+    return super.preread(context);
+  }
+
+  /** @hidden */
+  public prewrite(context: WriterContext, propertyType: PropertyType): this {
+    super.prewrite(context, propertyType);
+    this.encodedPointClouds = new Map();
+
+    const root = this.document.getRoot();
+    const primitives = root.listMeshes()
+      .flatMap(mesh => mesh.listPrimitives())
+      .filter(primitive => isDracoPointCloud(primitive) && !this.excludedPrimitives.has(primitive));
+    if (primitives.length === 0) {
+      return this;
+    }
+
+    // Draco reorders and requantizes points, so each encoded set of accessors must belong to
+    // exactly one point cloud; accessors used anywhere else are copied first
+    const owners = new Map<Accessor, string>();
+    const keyOf = (primitive: Primitive) => primitive.listSemantics()
+      .map(semantic => `${semantic}:${root.listAccessors().indexOf(primitive.getAttribute(semantic)!)}`)
+      .join('|');
+    for (const primitive of primitives) {
+      const key = keyOf(primitive);
+      for (const accessor of primitive.listAttributes()) {
+        const usedElsewhere = accessor.listParents().some(parent =>
+          parent.propertyType !== PropertyType.ROOT && !(parent instanceof Primitive && primitives.includes(parent) && keyOf(parent) === key)
+        );
+        if ((owners.has(accessor) && owners.get(accessor) !== key) || usedElsewhere) {
+          primitive.swap(accessor, accessor.clone());
+        }
+      }
+      for (const accessor of primitive.listAttributes()) {
+        owners.set(accessor, keyOf(primitive));
+      }
+    }
+
+    const quantizationVolume = this.options.quantizationVolume === 'scene' && root.listScenes().length === 1
+      ? getBounds(root.listScenes()[0])
+      : null;
+    const encodedByKey = new Map<string, EncodedPointCloud>();
+
+    for (const primitive of primitives) {
+      const key = keyOf(primitive);
+      let encoded = encodedByKey.get(key);
+      if (!encoded) {
+        encoded = this.encodePointCloud(primitive, quantizationVolume);
+        encodedByKey.set(key, encoded);
+
+        // Accessor definitions keep type and bounds; Draco supplies the data
+        const accessorDefs = context.jsonDoc.json.accessors!;
+        for (const semantic of primitive.listSemantics()) {
+          if (encoded.attributeIDs[semantic] === undefined) continue;
+          const accessor = primitive.getAttribute(semantic)!;
+          context.accessorIndexMap.set(accessor, accessorDefs.length);
+          accessorDefs.push(context.createAccessorDef(accessor));
+        }
+
+        const buffer = primitive.getAttribute('POSITION')!.getBuffer() || root.listBuffers()[0];
+        if (!context.otherBufferViews.has(buffer)) context.otherBufferViews.set(buffer, []);
+        context.otherBufferViews.get(buffer)!.push(encoded.data);
+      }
+      this.encodedPointClouds.set(primitive, encoded);
+    }
+
+    console.log(`Draco point clouds encoded: ${encodedByKey.size} (${primitives.length} primitives)`);
+    return this;
+  }
+
+  /** @hidden */
+  public write(context: WriterContext): this {
+    super.write(context);
+    if (this.encodedPointClouds.size === 0) {
+      return this;
+    }
+
+    for (const mesh of this.document.getRoot().listMeshes()) {
+      const meshDef = context.jsonDoc.json.meshes![context.meshIndexMap.get(mesh)!];
+      mesh.listPrimitives().forEach((primitive, index) => {
+        const encoded = this.encodedPointClouds.get(primitive);
+        if (!encoded) return;
+        const primitiveDef = meshDef.primitives[index];
+        primitiveDef.extensions = primitiveDef.extensions || {};
+        primitiveDef.extensions[this.extensionName] = {
+          bufferView: context.otherBufferViewsIndexMap.get(encoded.data),
+          attributes: encoded.attributeIDs
+        };
+      });
+    }
+
+    // The base extension drops itself from the file when it compressed no triangle primitive
+    const json = context.jsonDoc.json;
+    json.extensionsUsed = Array.from(new Set([...(json.extensionsUsed || []), this.extensionName]));
+    if (this.isRequired()) {
+      json.extensionsRequired = Array.from(new Set([...(json.extensionsRequired || []), this.extensionName]));
+    }
+
+    return this;
+  }
+
+  /**
+   * Encode one POINTS primitive as a Draco point cloud
+   */
+  private encodePointCloud(primitive: Primitive, quantizationVolume: ReturnType<typeof getBounds> | null): EncodedPointCloud {
+    const draco = this.encoder;
+    const builder = new draco.PointCloudBuilder();
+    const pointCloud = new draco.PointCloud();
+    const encoder = new draco.ExpertEncoder(pointCloud);
+    const dracoBuffer = new draco.DracoInt8Array();
+    const quantizationBits = { ...DEFAULT_QUANTIZATION_BITS, ...this.options.quantizationBits };
+    const attributeIDs: Record<string, number> = {};
+    let hasSparseAttributes = false;
+
+    try {
+      const pointCount = primitive.getAttribute('POSITION')!.getCount();
+      for (const semantic of primitive.listSemantics()) {
+        const accessor = primitive.getAttribute(semantic)!;
+        // Sparse accessors stay plain, like in the base extension
+        if (accessor.getSparse()) {
+          hasSparseAttributes = true;
+          continue;
+        }
+
+        const attributeType = getAttributeType(semantic);
+        const addAttribute = {
+          [Accessor.ComponentType.FLOAT]: 'AddFloatAttribute',
+          [Accessor.ComponentType.BYTE]: 'AddInt8Attribute',
+          [Accessor.ComponentType.UNSIGNED_BYTE]: 'AddUInt8Attribute',
+          [Accessor.ComponentType.SHORT]: 'AddInt16Attribute',
+          [Accessor.ComponentType.UNSIGNED_SHORT]: 'AddUInt16Attribute',
+          [Accessor.ComponentType.UNSIGNED_INT]: 'AddUInt32Attribute'
+        }[accessor.getComponentType()];
+        const id = builder[addAttribute](pointCloud, draco[attributeType], pointCount, accessor.getElementSize(), accessor.getArray());
+        if (id === -1) {
+          throw new Error(`Error compressing "${semantic}" point attribute`);
+        }
+        attributeIDs[semantic] = id;
+
+        if (quantizationVolume && semantic === 'POSITION') {
+          const range = Math.max(...[0, 1, 2].map(axis => quantizationVolume.max[axis] - quantizationVolume.min[axis]));
+          encoder.SetAttributeExplicitQuantization(id, quantizationBits.POSITION, 3, quantizationVolume.min, range);
+        } else {
+          encoder.SetAttributeQuantization(id, quantizationBits[attributeType]);
+        }
+      }
+
+      encoder.SetSpeedOptions(this.options.encodeSpeed ?? 5, this.options.decodeSpeed ?? 5);
+      // The kd-tree encoder reorders points, so plain sparse accessors would no longer line up
+      if (this.options.method === KHRDracoMeshCompression.EncoderMethod.SEQUENTIAL || hasSparseAttributes) {
+        encoder.SetEncodingMethod(POINT_CLOUD_SEQUENTIAL_ENCODING);
+      }
+
+      // Deduplication would change the point count that plain accessors rely on
+      const byteLength = encoder.EncodeToDracoBuffer(false, dracoBuffer);
+      if (byteLength <= 0) {
+        throw new Error("Error applying Draco point cloud compression");
+      }
+      const data = new Uint8Array(byteLength);
+      for (let i = 0; i < byteLength; i++) {
+        data[i] = dracoBuffer.GetValue(i);
+      }
+      return { data, attributeIDs };
+    } finally {
+      draco.destroy(dracoBuffer);
+      draco.destroy(encoder);
+      draco.destroy(pointCloud);
+      draco.destroy(builder);
+    }
+  }
+
+  /**
+   * Decode Draco point clouds into their accessors and remove their extension definitions,
+   * so the base extension only sees triangle meshes
+   */
+  private decodePointClouds(context: ReaderContext): void {
+    const json = context.jsonDoc.json;
+    const pointDefs = (json.meshes || [])
+      .flatMap(meshDef => meshDef.primitives)
+      .filter(primitiveDef => primitiveDef.mode === Primitive.Mode.POINTS && primitiveDef.extensions?.[this.extensionName]);
+    if (pointDefs.length === 0) {
+      return;
+    }
+    if (!this.decoder) {
+      throw new Error(`[${this.extensionName}] Draco point clouds require the draco3d decoder, which is not available`);
+    }
+
+    const draco = this.decoder;
+    const dataTypes: Record<number, { type: unknown; array: any }> = {
+      [Accessor.ComponentType.FLOAT]: { type: draco.DT_FLOAT32, array: Float32Array },
+      [Accessor.ComponentType.BYTE]: { type: draco.DT_INT8, array: Int8Array },
+      [Accessor.ComponentType.UNSIGNED_BYTE]: { type: draco.DT_UINT8, array: Uint8Array },
+      [Accessor.ComponentType.SHORT]: { type: draco.DT_INT16, array: Int16Array },
+      [Accessor.ComponentType.UNSIGNED_SHORT]: { type: draco.DT_UINT16, array: Uint16Array },
+      [Accessor.ComponentType.UNSIGNED_INT]: { type: draco.DT_UINT32, array: Uint32Array }
+    };
+
+    for (const primitiveDef of pointDefs) {
+      const dracoDef = primitiveDef.extensions![this.extensionName] as { bufferView: number; attributes: Record<string, number> };
+      const bufferViewDef = json.bufferViews![dracoDef.bufferView];
+      const bufferDef = json.buffers![bufferViewDef.buffer];
+      const resource = bufferDef.uri ? context.jsonDoc.resources[bufferDef.uri] : context.jsonDoc.resources[GLB_BUFFER];
+      const data = new Uint8Array(resource.buffer, resource.byteOffset + (bufferViewDef.byteOffset || 0), bufferViewDef.byteLength);
+
+      const decoder = new draco.Decoder();
+      const decoderBuffer = new draco.DecoderBuffer();
+      let pointCloud: any = null;
+      try {
+        decoderBuffer.Init(data, data.length);
+        pointCloud = new draco.PointCloud();
+        const status = decoder.DecodeBufferToPointCloud(decoderBuffer, pointCloud);
+        if (!status.ok() || pointCloud.ptr === 0) {
+          throw new Error(`[${this.extensionName}] Point cloud decoding failure: ${status.error_msg()}`);
+        }
+
+        for (const [semantic, uniqueId] of Object.entries(dracoDef.attributes)) {
+          const accessorIndex = primitiveDef.attributes[semantic];
+          const { type, array: ArrayType } = dataTypes[json.accessors![accessorIndex].componentType];
+          const attribute = decoder.GetAttributeByUniqueId(pointCloud, uniqueId);
+          const valueCount = pointCloud.num_points() * attribute.num_components();
+          const byteLength = valueCount * ArrayType.BYTES_PER_ELEMENT;
+          const pointer = draco._malloc(byteLength);
+          decoder.GetAttributeDataArrayForAllPoints(pointCloud, attribute, type, byteLength, pointer);
+          context.accessors[accessorIndex].setArray(new ArrayType(draco.HEAPF32.buffer, pointer, valueCount).slice());
+          draco._free(pointer);
+        }
+
+        delete primitiveDef.extensions![this.extensionName];
+      } finally {
+        if (pointCloud) draco.destroy(pointCloud);
+        draco.destroy(decoderBuffer);
+        draco.destroy(decoder);
+      }
+    }
+  }
+}
+
+/**
+ * Draco bitstream of a primitive as read, with the decoded accessors it was read into
+ */
+interface OriginalDracoPrimitive {
+  data: Uint8Array;
+  attributeIDs: Record<string, number>;
+  accessors: Accessor[];
+  arrays: unknown[];
+}
+
+/**
+ * KHR_draco_mesh_compression for passes that do not modify geometry, such as texture compression.
+ * Draco primitives are written back with the bitstreams they were read from instead of being
+ * re-encoded, so the quantization and encoder settings they were compressed with are kept.
+ * Primitives whose accessors changed after reading are encoded as usual.
+ */
+export class PreservedDracoMeshCompression extends PointCloudDracoMeshCompression {
+  public static readonly EXTENSION_NAME = KHRDracoMeshCompression.EXTENSION_NAME;
+
+  private pendingPrimitives: { meshIndex: number; primitiveIndex: number; data: Uint8Array; attributeIDs: Record<string, number> }[] = [];
+  private originalPrimitives = new Map<Primitive, OriginalDracoPrimitive>();
+  private preservedPrimitives = new Map<Primitive, OriginalDracoPrimitive>();
+
+  /** @hidden */
+  public preread(context: ReaderContext): this {
+    // Point cloud definitions lose their extension while decoding, so the bitstreams are copied first
+    const json = context.jsonDoc.json;
+    const bufferViews = new Map<number, Uint8Array>();
+    this.pendingPrimitives = [];
+    (json.meshes || []).forEach((meshDef, meshIndex) => {
+      meshDef.primitives.forEach((primitiveDef, primitiveIndex) => {
+        const dracoDef = primitiveDef.extensions?.[this.extensionName] as { bufferView: number; attributes: Record<string, number> } | undefined;
+        if (!dracoDef) return;
+        let data = bufferViews.get(dracoDef.bufferView);
+        if (!data) {
+          const bufferViewDef = json.bufferViews![dracoDef.bufferView];
+          const bufferDef = json.buffers![bufferViewDef.buffer];
+          const resource = bufferDef.uri ? context.jsonDoc.resources[bufferDef.uri] : context.jsonDoc.resources[GLB_BUFFER];
+          data = resource.slice(bufferViewDef.byteOffset || 0, (bufferViewDef.byteOffset || 0) + bufferViewDef.byteLength);
+          bufferViews.set(dracoDef.bufferView, data);
+        }
+        this.pendingPrimitives.push({ meshIndex, primitiveIndex, data, attributeIDs: { ...dracoDef.attributes } });
+      });
+    });
+    return super.preread(context);
+  }
+
+  /** @hidden */
+  public read(context: ReaderContext): this {
+    super.read(context);
+    this.originalPrimitives = new Map();
+    for (const { meshIndex, primitiveIndex, data, attributeIDs } of this.pendingPrimitives) {
+      const primitive = context.meshes[meshIndex].listPrimitives()[primitiveIndex];
+      const accessors = [
+        ...Object.keys(attributeIDs).map(semantic => primitive.getAttribute(semantic)!),
+        ...(primitive.getIndices() ? [primitive.getIndices()!] : [])
+      ];
+      this.originalPrimitives.set(primitive, { data, attributeIDs, accessors, arrays: accessors.map(accessor => accessor.getArray()) });
+    }
+    this.pendingPrimitives = [];
+    return this;
+  }
+
+  /** @hidden */
+  public prewrite(context: WriterContext, propertyType: PropertyType): this {
+    this.preservedPrimitives = new Map(
+      Array.from(this.originalPrimitives).filter(([primitive, original]) => this.isUnchanged(primitive, original))
+    );
+
+    // The base extensions skip excluded primitives, which are written from their bitstreams below
+    const excludedPrimitives = this.excludedPrimitives;
+    this.excludedPrimitives = new Set([...excludedPrimitives, ...this.preservedPrimitives.keys()]);
+    try {
+      super.prewrite(context, propertyType);
+    } finally {
+      this.excludedPrimitives = excludedPrimitives;
+    }
+
+    const root = this.document.getRoot();
+    const accessorDefs = context.jsonDoc.json.accessors!;
+    const written = new Set<Uint8Array>();
+    for (const [primitive, original] of this.preservedPrimitives) {
+      if (written.has(original.data)) continue;
+      written.add(original.data);
+
+      // Accessor definitions keep type and bounds; the original bitstream supplies the data
+      for (const accessor of original.accessors) {
+        if (context.accessorIndexMap.has(accessor)) continue;
+        context.accessorIndexMap.set(accessor, accessorDefs.length);
+        accessorDefs.push(context.createAccessorDef(accessor));
+      }
+
+      const buffer = primitive.getAttribute('POSITION')!.getBuffer() || root.listBuffers()[0];
+      if (!context.otherBufferViews.has(buffer)) context.otherBufferViews.set(buffer, []);
+      context.otherBufferViews.get(buffer)!.push(original.data);
+    }
+
+    if (this.preservedPrimitives.size > 0) {
+      console.log(`Draco primitives kept with their original encoding: ${this.preservedPrimitives.size}`);
+    }
+    return this;
+  }
+
+  /** @hidden */
+  public write(context: WriterContext): this {
+    super.write(context);
+    if (this.preservedPrimitives.size === 0) {
+      return this;
+    }
+
+    for (const mesh of this.document.getRoot().listMeshes()) {
+      const meshDef = context.jsonDoc.json.meshes![context.meshIndexMap.get(mesh)!];
+      mesh.listPrimitives().forEach((primitive, index) => {
+        const original = this.preservedPrimitives.get(primitive);
+        if (!original) return;
+        const primitiveDef = meshDef.primitives[index];
+        primitiveDef.extensions = primitiveDef.extensions || {};
+        primitiveDef.extensions[this.extensionName] = {
+          bufferView: context.otherBufferViewsIndexMap.get(original.data),
+          attributes: original.attributeIDs
+        };
+      });
+    }
+
+    // The base extension drops itself from the file when it compressed no primitive
+    const json = context.jsonDoc.json;
+    json.extensionsUsed = Array.from(new Set([...(json.extensionsUsed || []), this.extensionName]));
+    if (this.isRequired()) {
+      json.extensionsRequired = Array.from(new Set([...(json.extensionsRequired || []), this.extensionName]));
+    }
+
+    return this;
+  }
+
+  /**
+   * Whether a primitive still holds the accessors decoded from its bitstream, and only shares them
+   * with primitives read from the same bitstream
+   */
+  private isUnchanged(primitive: Primitive, original: OriginalDracoPrimitive): boolean {
+    if (primitive.isDisposed()) return false;
+    const accessors = [
+      ...Object.keys(original.attributeIDs).map(semantic => primitive.getAttribute(semantic)),
+      ...(primitive.getIndices() ? [primitive.getIndices()] : [])
+    ];
+    return accessors.length === original.accessors.length
+      && accessors.every((accessor, index) => accessor === original.accessors[index] && accessor.getArray() === original.arrays[index])
+      && original.accessors.every(accessor => accessor.listParents().every(parent =>
+        parent.propertyType === PropertyType.ROOT || this.originalPrimitives.get(parent as Primitive)?.data === original.data
+      ));
+  }
+}
+
+/**
+ * EXT_meshopt_compression for passes that do not modify geometry, such as texture compression.
+ * The base extension writes with the QUANTIZE method whatever the input used, which replaces
+ * octahedral, quaternion and exponential filters with plain attribute encoding; this variant
+ * writes with the FILTER method when the input has filtered buffer views.
+ */
+export class PreservedMeshoptCompression extends EXTMeshoptCompression {
+  public static readonly EXTENSION_NAME = EXTMeshoptCompression.EXTENSION_NAME;
+
+  /** @hidden */
+  public preread(context: ReaderContext, propertyType: PropertyType): this {
+    if (propertyType === PropertyType.BUFFER) {
+      const filtered = (context.jsonDoc.json.bufferViews || []).some(bufferViewDef => {
+        const meshoptDef = bufferViewDef.extensions?.[this.extensionName] as { filter?: string } | undefined;
+        return meshoptDef?.filter !== undefined && meshoptDef.filter !== 'NONE';
+      });
+      this.setEncoderOptions({
+        method: filtered ? EXTMeshoptCompression.EncoderMethod.FILTER : EXTMeshoptCompression.EncoderMethod.QUANTIZE
+      });
+    }
+    return super.preread(context, propertyType);
+  }
+}
+
+/**
+ * ALL_EXTENSIONS with the base Draco extension replaced by PointCloudDracoMeshCompression.
+ * I/O does not order extensions of the same name, so the base extension must not be registered alongside.
+ */
+export const MESH_IO_EXTENSIONS = [
+  ...ALL_EXTENSIONS.filter(extension => extension.EXTENSION_NAME !== KHRDracoMeshCompression.EXTENSION_NAME),
+  PointCloudDracoMeshCompression
+];
+
+/**
+ * MESH_IO_EXTENSIONS for passes that leave geometry as it is: Draco primitives keep their
+ * original bitstreams and meshopt buffer views keep their filters (see PreservedDracoMeshCompression
+ * and PreservedMeshoptCompression)
+ */
+export const GEOMETRY_PRESERVING_IO_EXTENSIONS = [
+  ...MESH_IO_EXTENSIONS.filter(extension =>
+    extension !== PointCloudDracoMeshCompression && extension.EXTENSION_NAME !== EXTMeshoptCompression.EXTENSION_NAME),
+  PreservedDracoMeshCompression,
+  PreservedMeshoptCompression
+];
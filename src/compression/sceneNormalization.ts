@@ -0,0 +1,157 @@
+/**
+ * Coordinate system and unit normalization stage run before the mesh codec
+ * Converts Z-up assets to glTF's Y-up, rescales units, recenters and fits to a target size
+ */
+
+import { Document, Node } from "@gltf-transform/core";
+import { getBounds, transformMesh } from "@gltf-transform/functions";
+import type { SceneNormalizationOptions, SceneNormalizationReport } from './compressionUtils.js';
+
+type Mat4 = ReturnType<Node['getMatrix']>;
+type Vec3 = [number, number, number];
+
+const IDENTITY: Mat4 = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+// Column-major rotation of -90 degrees about X: (x, y, z) -> (x, z, -y)
+const Z_UP_TO_Y_UP: Mat4 = [1, 0, 0, 0, 0, 0, -1, 0, 0, 1, 0, 0, 0, 0, 0, 1];
+const Y_UP_TO_Z_UP: Mat4 = [1, 0, 0, 0, 0, 0, 1, 0, 0, -1, 0, 0, 0, 0, 0, 1];
+
+/**
+ * Multiply two column-major 4x4 matrices (a * b)
+ */
+const multiply = (a: Mat4, b: Mat4): Mat4 => {
+  const out = new Array(16).fill(0);
+  for (let column = 0; column < 4; column++) {
+    for (let row = 0; row < 4; row++) {
+      for (let k = 0; k < 4; k++) {
+        out[column * 4 + row] += a[k * 4 + row] * b[column * 4 + k];
+      }
+    }
+  }
+  return out as unknown as Mat4;
+};
+
+const scaling = (scale: number): Mat4 => [scale, 0, 0, 0, 0, scale, 0, 0, 0, 0, scale, 0, 0, 0, 0, 1];
+
+const translation = ([x, y, z]: Vec3): Mat4 => [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, x, y, z, 1];
+
+const transformPoint = (m: Mat4, [x, y, z]: Vec3): Vec3 => [
+  m[0] * x + m[4] * y + m[8] * z + m[12],
+  m[1] * x + m[5] * y + m[9] * z + m[13],
+  m[2] * x + m[6] * y + m[10] * z + m[14]
+];
+
+/**
+ * Transform an axis-aligned box; exact here because the rotation only permutes axes
+ */
+const transformBounds = (m: Mat4, bounds: { min: Vec3; max: Vec3 }): { min: Vec3; max: Vec3 } => {
+  const a = transformPoint(m, bounds.min);
+  const b = transformPoint(m, bounds.max);
+  return {
+    min: [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.min(a[2], b[2])],
+    max: [Math.max(a[0], b[0]), Math.max(a[1], b[1]), Math.max(a[2], b[2])]
+  };
+};
+
+/**
+ * Check whether any normalization step is enabled
+ * @param options - Scene normalization options
+ * @returns True if the stage changes the scene
+ */
+export const hasSceneNormalization = (options: SceneNormalizationOptions): boolean => {
+  return options.upAxis === 'z' || options.unitScale !== 1 || options.recenter !== 'none' || options.fitSize > 0;
+};
+
+/**
+ * Normalize axis, units, position and size of every scene in the document.
+ * One transform is computed from the combined bounds of all scenes, so meshes shared
+ * between scenes stay consistent.
+ * @param document - The glTF document to normalize in place
+ * @param options - Normalization options
+ * @returns Report with the steps applied and the bounds before and after
+ */
+export const normalizeScene = (document: Document, options: SceneNormalizationOptions): SceneNormalizationReport => {
+  const root = document.getRoot();
+  const steps: string[] = [];
+
+  // Combined world-space bounds of all scenes
+  const sceneBounds = root.listScenes()
+    .filter(scene => scene.listChildren().length > 0)
+    .map(scene => getBounds(scene));
+  const boundsBefore = {
+    min: [0, 1, 2].map(axis => Math.min(...sceneBounds.map(bounds => bounds.min[axis]))) as Vec3,
+    max: [0, 1, 2].map(axis => Math.max(...sceneBounds.map(bounds => bounds.max[axis]))) as Vec3
+  };
+
+  // Rotation and unit scale first, then fit and recenter against the resulting bounds
+  let matrix: Mat4 = IDENTITY;
+  let inverse: Mat4 = IDENTITY;
+  if (options.upAxis === 'z') {
+    matrix = Z_UP_TO_Y_UP;
+    inverse = Y_UP_TO_Z_UP;
+    steps.push('z-up to y-up');
+  }
+
+  let scale = options.unitScale;
+  if (options.unitScale !== 1) {
+    steps.push(`unit scale ${options.unitScale}`);
+  }
+
+  const scaledBounds = transformBounds(multiply(scaling(scale), matrix), boundsBefore);
+  const largestExtent = Math.max(...[0, 1, 2].map(axis => scaledBounds.max[axis] - scaledBounds.min[axis]));
+  if (options.fitSize > 0 && largestExtent > 0) {
+    scale *= options.fitSize / largestExtent;
+    steps.push(`fit to ${options.fitSize}`);
+  }
+  matrix = multiply(scaling(scale), matrix);
+  inverse = multiply(inverse, scaling(1 / scale));
+
+  if (options.recenter !== 'none') {
+    const bounds = transformBounds(matrix, boundsBefore);
+    const center = [0, 1, 2].map(axis => (bounds.min[axis] + bounds.max[axis]) / 2) as Vec3;
+    // Ground keeps the model standing on y = 0 instead of centering it vertically
+    const offset: Vec3 = options.recenter === 'ground'
+      ? [-center[0], -bounds.min[1], -center[2]]
+      : [-center[0], -center[1], -center[2]];
+    matrix = multiply(translation(offset), matrix);
+    inverse = multiply(inverse, translation([-offset[0], -offset[1], -offset[2]]));
+    steps.push(options.recenter === 'ground' ? 'recenter to ground' : 'recenter to origin');
+  }
+
+  const report: SceneNormalizationReport = {
+    steps,
+    mode: options.normalizeMode,
+    scale,
+    boundsBefore,
+    boundsAfter: transformBounds(matrix, boundsBefore)
+  };
+
+  // Baking conjugates node transforms, which would also require rewriting animation tracks and bind poses
+  if (options.normalizeMode === 'bake' && (root.listAnimations().length > 0 || root.listSkins().length > 0)) {
+    report.mode = 'root';
+    report.fallbackReason = "animated or skinned models are normalized with a root transform";
+  }
+
+  if (report.mode === 'bake') {
+    // v' = M v for every mesh and L' = M L M^-1 for every node keeps world positions at M * world
+    for (const mesh of root.listMeshes()) {
+      transformMesh(mesh, matrix);
+    }
+    for (const node of root.listNodes()) {
+      node.setMatrix(multiply(matrix, multiply(node.getMatrix(), inverse)));
+    }
+  } else {
+    for (const scene of root.listScenes()) {
+      const wrapper = document.createNode('Normalization').setMatrix(matrix);
+      for (const child of scene.listChildren()) {
+        scene.removeChild(child);
+        wrapper.addChild(child);
+      }
+      scene.addChild(wrapper);
+    }
+  }
+
+  console.log(`Scene normalization (${report.mode}): ${steps.join(', ')}`);
+  console.log("Bounds before:", boundsBefore, "after:", report.boundsAfter);
+
+  return report;
+};
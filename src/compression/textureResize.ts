@@ -0,0 +1,192 @@
+/**
+ * Texture resize policy
+ * Computes target texture dimensions from a maximum size, per-role or per-slot limits and a
+ * power-of-two mode, and resamples images with a high-quality filter instead of cropping
+ */
+
+import type { TextureRole } from './compressionUtils.js';
+
+/**
+ * Power-of-two rounding: nearest, ceil (next larger) or floor (next smaller)
+ */
+export type PowerOfTwoMode = 'none' | 'nearest' | 'ceil' | 'floor';
+
+/**
+ * Resampling kernels supported by the image encoder; lanczos3 is sharpest, mitchell softer
+ */
+export type TextureResizeFilter = 'lanczos3' | 'lanczos2' | 'mitchell' | 'cubic' | 'nearest';
+
+/**
+ * Resize policy applied before texture compression
+ */
+export interface TextureResizeOptions {
+  maxDimension: number; // Longest side limit in pixels (0 = no limit)
+  powerOfTwo: PowerOfTwoMode;
+  roleLimits: Record<string, number>; // Longest side limit by role (color, normal, data, unknown) or material slot (occlusionTexture, ...)
+  filter: TextureResizeFilter;
+}
+
+export const DEFAULT_TEXTURE_RESIZE_OPTIONS: TextureResizeOptions = {
+  maxDimension: 0,
+  powerOfTwo: 'none',
+  roleLimits: {},
+  filter: 'lanczos3'
+};
+
+const RESIZE_FILTERS: TextureResizeFilter[] = ['lanczos3', 'lanczos2', 'mitchell', 'cubic', 'nearest'];
+const POWER_OF_TWO_MODES: PowerOfTwoMode[] = ['none', 'nearest', 'ceil', 'floor'];
+const MAX_TEXTURE_DIMENSION = 8192;
+
+/**
+ * How a texture is used, for role and slot limits
+ */
+export interface TextureUsage {
+  role: TextureRole;
+  slots: string[];
+}
+
+const roundPowerOfTwo = (value: number, mode: PowerOfTwoMode): number => {
+  const exponent = Math.log2(value);
+  if (mode === 'ceil') return 2 ** Math.ceil(exponent);
+  if (mode === 'floor') return 2 ** Math.floor(exponent);
+  return 2 ** Math.round(exponent);
+};
+
+/**
+ * Longest side limit for a texture: the smallest of the global, role and slot limits
+ * @param options - Resize policy
+ * @param usage - Role and slots of the texture, if known
+ * @returns Limit in pixels, or Infinity without any limit
+ */
+export const getDimensionLimit = (options: TextureResizeOptions, usage?: TextureUsage): number => {
+  const limits = [options.maxDimension > 0 ? options.maxDimension : Infinity];
+  if (usage) {
+    for (const key of [usage.role, ...usage.slots]) {
+      const limit = options.roleLimits[key];
+      if (limit > 0) limits.push(limit);
+    }
+  }
+  return Math.min(...limits);
+};
+
+/**
+ * Compute the dimensions a texture is resampled to.
+ * The image is scaled down uniformly to fit the limit, then each side is rounded to a power of
+ * two if requested; a power of two above the limit falls back to the next smaller one.
+ * With blockAlign, sides are rounded to the nearest multiple of 4 for block-compressed mip chains,
+ * or to 2 when the limit is below 4. The result never exceeds the limit.
+ * @param width - Source width
+ * @param height - Source height
+ * @param options - Resize policy
+ * @param usage - Role and slots of the texture, for role and slot limits
+ * @param blockAlign - Round sides to multiples of 4 (KTX2 output)
+ * @returns Target width and height
+ */
+export const computeTextureSize = (
+  width: number,
+  height: number,
+  options: TextureResizeOptions,
+  usage?: TextureUsage,
+  blockAlign = false
+): { width: number; height: number } => {
+  const limit = Math.min(getDimensionLimit(options, usage), MAX_TEXTURE_DIMENSION);
+  const scale = Math.min(1, limit / Math.max(width, height));
+
+  const fit = (side: number): number => {
+    let size = Math.max(1, Math.round(side * scale));
+    if (options.powerOfTwo !== 'none') {
+      size = roundPowerOfTwo(size, options.powerOfTwo);
+      // Rounding up may overshoot the limit
+      if (size > limit) size = roundPowerOfTwo(limit, 'floor');
+    }
+    if (blockAlign && size > 2) {
+      // WebGL needs block-compressed mip levels to be multiples of 4 (or 1 or 2)
+      const aligned = Math.round(size / 4) * 4;
+      const fitted = aligned > limit ? aligned - 4 : aligned;
+      // Below a limit of 4 no multiple of 4 fits, so the side drops to 2
+      size = fitted >= 4 ? fitted : 2;
+    }
+    return size;
+  };
+
+  return { width: fit(width), height: fit(height) };
+};
+
+/**
+ * Resample an image to exact dimensions. The output is PNG, so no further loss is added.
+ * @param image - Encoded source image (PNG, JPEG, WebP, ...)
+ * @param width - Target width
+ * @param height - Target height
+ * @param filter - Resampling kernel
+ * @returns Encoded PNG at the target size
+ */
+export const resizeImage = async (
+  image: Uint8Array | ArrayBuffer,
+  width: number,
+  height: number,
+  filter: TextureResizeFilter
+): Promise<Uint8Array> => {
+  // sharp is a native module, so it is only loaded when a texture is resized
+  const { default: sharp } = await import('sharp');
+  const input = image instanceof Uint8Array ? image : new Uint8Array(image);
+  const output = await sharp(input)
+    .resize(width, height, { fit: 'fill', kernel: filter })
+    .png()
+    .toBuffer();
+  return new Uint8Array(output.buffer, output.byteOffset, output.byteLength);
+};
+
+/**
+ * Parse resize options from request parameters
+ * @param getParam - Reads a request parameter by name
+ * @returns Resize options that were set
+ */
+export const parseTextureResizeOptions = (getParam: (name: string) => string | undefined): Partial<TextureResizeOptions> => {
+  const options: Partial<TextureResizeOptions> = {};
+
+  const maxDimension = getParam('maxDimension');
+  if (maxDimension) {
+    const parsed = Number(maxDimension);
+    if (!Number.isInteger(parsed) || parsed < 0 || parsed > MAX_TEXTURE_DIMENSION) {
+      throw new Error(`Invalid maxDimension: ${maxDimension}. Must be an integer between 0 and ${MAX_TEXTURE_DIMENSION}`);
+    }
+    options.maxDimension = parsed;
+  }
+
+  const powerOfTwo = getParam('powerOfTwo');
+  if (powerOfTwo) {
+    if (!POWER_OF_TWO_MODES.includes(powerOfTwo as PowerOfTwoMode)) {
+      throw new Error(`Invalid powerOfTwo: ${powerOfTwo}. Must be one of: ${POWER_OF_TWO_MODES.join(', ')}`);
+    }
+    options.powerOfTwo = powerOfTwo as PowerOfTwoMode;
+  }
+
+  const resizeFilter = getParam('resizeFilter');
+  if (resizeFilter) {
+    if (!RESIZE_FILTERS.includes(resizeFilter as TextureResizeFilter)) {
+      throw new Error(`Invalid resizeFilter: ${resizeFilter}. Must be one of: ${RESIZE_FILTERS.join(', ')}`);
+    }
+    options.filter = resizeFilter as TextureResizeFilter;
+  }
+
+  const roleLimits = getParam('roleLimits');
+  if (roleLimits) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(roleLimits);
+    } catch (error) {
+      throw new Error(`Invalid roleLimits: ${error instanceof Error ? error.message : 'Invalid JSON format'}. Expected a JSON object like '{"normal": 2048, "occlusionTexture": 1024}'`);
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('Invalid roleLimits: must be a JSON object mapping roles or material slots to a maximum dimension');
+    }
+    for (const [key, limit] of Object.entries(parsed)) {
+      if (!Number.isInteger(limit) || (limit as number) < 1 || (limit as number) > MAX_TEXTURE_DIMENSION) {
+        throw new Error(`Invalid roleLimits entry "${key}": ${limit}. Must be an integer between 1 and ${MAX_TEXTURE_DIMENSION}`);
+      }
+    }
+    options.roleLimits = parsed as Record<string, number>;
+  }
+
+  return options;
+};
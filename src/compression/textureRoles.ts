@@ -0,0 +1,108 @@
+/**
+ * Texture role classification
+ * Decides whether a texture holds color, tangent-space normals or other linear data from the
+ * material slots that reference it, rather than from its name
+ */
+
+import type { Texture } from "@gltf-transform/core";
+import { listTextureSlots } from "@gltf-transform/functions";
+import type { ColorSpaceOverrides, TextureColorSpace, TextureRole } from './compressionUtils.js';
+
+// Slots holding tangent-space normal vectors
+const NORMAL_SLOTS = new Set(['normalTexture', 'clearcoatNormalTexture']);
+
+// Slots sampled as sRGB color; every other material slot holds linear data
+// (occlusion, metallic-roughness, clearcoat, transmission, thickness, specular strength, ...)
+const COLOR_SLOTS = new Set([
+  'baseColorTexture',
+  'emissiveTexture',
+  'sheenColorTexture',
+  'specularColorTexture',
+  'diffuseTexture', // KHR_materials_pbrSpecularGlossiness
+  'specularGlossinessTexture', // KHR_materials_pbrSpecularGlossiness
+  'diffuseTransmissionColorTexture'
+]);
+
+/**
+ * Role of a texture and the slots it was derived from
+ */
+export interface TextureClassification {
+  role: TextureRole;
+  slots: string[]; // e.g. ['occlusionTexture', 'metallicRoughnessTexture'] for a packed ORM texture
+}
+
+/**
+ * Classify a texture from the material slots that reference it.
+ * A texture shared between slots of different roles is classified by the most sensitive one:
+ * normal maps break under sRGB encoding, and color breaks under linear encoding.
+ * @param texture - The texture to classify
+ * @returns Role, or 'unknown' when no material references the texture
+ */
+export const classifyTexture = (texture: Texture): TextureClassification => {
+  const slots = listTextureSlots(texture);
+  const roles = new Set<TextureRole>(slots.map(slot => {
+    if (NORMAL_SLOTS.has(slot)) return 'normal';
+    if (COLOR_SLOTS.has(slot)) return 'color';
+    return 'data';
+  }));
+
+  if (roles.size > 1) {
+    console.warn(`Texture ${texture.getName() || texture.getURI() || '(unnamed)'} is used in slots of different roles: ${slots.join(', ')}`);
+  }
+
+  const role: TextureRole = roles.has('normal') ? 'normal'
+    : roles.has('color') ? 'color'
+    : roles.has('data') ? 'data'
+    : 'unknown';
+
+  return { role, slots };
+};
+
+/**
+ * Pick the color space a texture is encoded in.
+ * Color textures are sRGB; normal and data textures hold linear values. Textures no material
+ * references keep the requested default.
+ * @param texture - The texture being compressed
+ * @param role - Role from classifyTexture
+ * @param overrides - Optional overrides by texture name, URI or role
+ * @param fallback - Color space for unknown textures
+ * @returns Color space and whether it came from the role, an override or the default
+ */
+export const resolveColorSpace = (
+  texture: Texture,
+  role: TextureRole,
+  overrides: ColorSpaceOverrides = {},
+  fallback: TextureColorSpace = 'srgb'
+): { oetf: TextureColorSpace; source: 'role' | 'override' | 'default' } => {
+  const override = overrides[texture.getName()] ?? overrides[texture.getURI()] ?? overrides[role];
+  if (override) {
+    return { oetf: override, source: 'override' };
+  }
+  if (role === 'unknown') {
+    return { oetf: fallback, source: 'default' };
+  }
+  return { oetf: role === 'color' ? 'srgb' : 'linear', source: 'role' };
+};
+
+/**
+ * Parse and validate a color space override map sent as a JSON string
+ * @param value - JSON object mapping texture names, URIs or roles to "srgb" or "linear"
+ * @returns Validated overrides
+ */
+export const validateColorSpaceOverrides = (value: string): ColorSpaceOverrides => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`Invalid colorSpaceOverrides: ${error instanceof Error ? error.message : 'Invalid JSON format'}. Expected a JSON object like '{"metal_rough": "linear", "data": "linear"}'`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Invalid colorSpaceOverrides: must be a JSON object mapping texture names or roles to "srgb" or "linear"');
+  }
+  for (const [key, colorSpace] of Object.entries(parsed)) {
+    if (colorSpace !== 'srgb' && colorSpace !== 'linear') {
+      throw new Error(`Invalid colorSpaceOverrides entry "${key}": ${colorSpace}. Must be 'srgb' or 'linear'`);
+    }
+  }
+  return parsed as ColorSpaceOverrides;
+};
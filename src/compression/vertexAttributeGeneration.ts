@@ -0,0 +1,225 @@
+/**
+ * Vertex attribute generation stage run before the mesh codec
+ * Adds smooth normals to primitives without NORMAL and MikkTSpace tangents to normal-mapped
+ * primitives without TANGENT, so assets do not render faceted or with broken normal maps
+ */
+
+import { Accessor, Document, Primitive } from "@gltf-transform/core";
+import { weldPrimitive } from "@gltf-transform/functions";
+import type { MikkTSpaceGenerateTangents } from './meshCodecs.js';
+import type { VertexAttributeGenerationOptions, VertexAttributeGenerationReport } from './compressionUtils.js';
+
+// Slack on the angle threshold so exactly coplanar faces still smooth at normalAngle = 0
+const ANGLE_EPSILON = 1e-6;
+
+/**
+ * Check whether any attribute generation step is enabled
+ * @param options - Vertex attribute generation options
+ * @returns True if the stage may change the document
+ */
+export const hasAttributeGeneration = (options: VertexAttributeGenerationOptions): boolean => {
+  return options.generateNormals || options.generateTangents;
+};
+
+/**
+ * Expand one accessor to one element per index
+ */
+const unweldAccessor = (document: Document, accessor: Accessor, indices: Accessor): Accessor => {
+  const source = accessor.getArray()!;
+  const indexArray = indices.getArray()!;
+  const elementSize = accessor.getElementSize();
+  const TypedArray = source.constructor as new (length: number) => typeof source;
+  const target = new TypedArray(indices.getCount() * elementSize);
+  for (let i = 0; i < indices.getCount(); i++) {
+    for (let j = 0; j < elementSize; j++) {
+      target[i * elementSize + j] = source[indexArray[i] * elementSize + j];
+    }
+  }
+  return document.createAccessor()
+    .setType(accessor.getType())
+    .setNormalized(accessor.getNormalized())
+    .setBuffer(accessor.getBuffer())
+    .setArray(target);
+};
+
+/**
+ * Give every triangle corner its own vertex, so attributes can differ per face.
+ * Attributes shared with other primitives are copied rather than modified.
+ */
+const unweldPrimitive = (document: Document, primitive: Primitive): void => {
+  const indices = primitive.getIndices();
+  if (!indices) return;
+
+  const swap = (parent: Primitive | ReturnType<Primitive['listTargets']>[number], accessor: Accessor) => {
+    parent.swap(accessor, unweldAccessor(document, accessor, indices));
+    // Only the root is left as a parent when no other primitive uses the accessor
+    if (accessor.listParents().length === 1) accessor.dispose();
+  };
+
+  primitive.listAttributes().forEach(accessor => swap(primitive, accessor));
+  primitive.listTargets().forEach(target => target.listAttributes().forEach(accessor => swap(target, accessor)));
+
+  primitive.setIndices(null);
+  if (indices.listParents().length === 1) indices.dispose();
+};
+
+/**
+ * Read an attribute as floats, decoding normalized (quantized) storage
+ */
+const readFloats = (accessor: Accessor): Float32Array => {
+  const elementSize = accessor.getElementSize();
+  const out = new Float32Array(accessor.getCount() * elementSize);
+  const element: number[] = [];
+  for (let i = 0; i < accessor.getCount(); i++) {
+    out.set(accessor.getElement(i, element), i * elementSize);
+  }
+  return out;
+};
+
+/**
+ * Compute smooth normals for an unwelded triangle list.
+ * Each corner averages the area-weighted normals of the faces sharing its position,
+ * ignoring faces that meet its own face at more than the angle threshold.
+ */
+const computeSmoothNormals = (positions: Float32Array, normalAngle: number): Float32Array => {
+  const cornerCount = positions.length / 3;
+  const faceCount = Math.floor(cornerCount / 3);
+  const faceNormals = new Float32Array(faceCount * 3); // Length is twice the face area
+  const unitNormals = new Float32Array(faceCount * 3);
+
+  for (let face = 0; face < faceCount; face++) {
+    const a = face * 9;
+    const e1 = [positions[a + 3] - positions[a], positions[a + 4] - positions[a + 1], positions[a + 5] - positions[a + 2]];
+    const e2 = [positions[a + 6] - positions[a], positions[a + 7] - positions[a + 1], positions[a + 8] - positions[a + 2]];
+    const n = [e1[1] * e2[2] - e1[2] * e2[1], e1[2] * e2[0] - e1[0] * e2[2], e1[0] * e2[1] - e1[1] * e2[0]];
+    const length = Math.hypot(n[0], n[1], n[2]);
+    faceNormals.set(n, face * 3);
+    if (length > 0) {
+      unitNormals.set([n[0] / length, n[1] / length, n[2] / length], face * 3);
+    }
+  }
+
+  // Corners sharing an exact position belong to the same welded vertex
+  const groups = new Map<string, number[]>();
+  for (let corner = 0; corner < faceCount * 3; corner++) {
+    const key = `${positions[corner * 3]},${positions[corner * 3 + 1]},${positions[corner * 3 + 2]}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(corner);
+    } else {
+      groups.set(key, [corner]);
+    }
+  }
+
+  const threshold = Math.cos(normalAngle * Math.PI / 180) - ANGLE_EPSILON;
+  const normals = new Float32Array(cornerCount * 3);
+
+  for (const group of groups.values()) {
+    for (const corner of group) {
+      const face = Math.floor(corner / 3);
+      // Degenerate faces have no direction of their own, so they take the full average
+      const degenerate = unitNormals[face * 3] === 0 && unitNormals[face * 3 + 1] === 0 && unitNormals[face * 3 + 2] === 0;
+      const sum = [0, 0, 0];
+      const seen = new Set<number>();
+      for (const other of group) {
+        const otherFace = Math.floor(other / 3);
+        // Degenerate triangles can touch the same position twice
+        if (seen.has(otherFace)) continue;
+        seen.add(otherFace);
+
+        const dot = unitNormals[face * 3] * unitNormals[otherFace * 3]
+          + unitNormals[face * 3 + 1] * unitNormals[otherFace * 3 + 1]
+          + unitNormals[face * 3 + 2] * unitNormals[otherFace * 3 + 2];
+        if (degenerate || otherFace === face || dot >= threshold) {
+          sum[0] += faceNormals[otherFace * 3];
+          sum[1] += faceNormals[otherFace * 3 + 1];
+          sum[2] += faceNormals[otherFace * 3 + 2];
+        }
+      }
+
+      const length = Math.hypot(sum[0], sum[1], sum[2]);
+      // Isolated degenerate faces get an arbitrary unit normal
+      normals.set(length > 0 ? [sum[0] / length, sum[1] / length, sum[2] / length] : [0, 0, 1], corner * 3);
+    }
+  }
+
+  return normals;
+};
+
+/**
+ * Add NORMAL and TANGENT attributes where they are missing.
+ * Generated primitives are unwelded to compute per-corner values, then welded again.
+ * @param document - The glTF document to modify in place
+ * @param options - Vertex attribute generation options
+ * @param generateTangents - MikkTSpace generator, required when options.generateTangents is set
+ * @returns Report with the number of primitives changed and those that could not be
+ */
+export const generateVertexAttributes = (
+  document: Document,
+  options: VertexAttributeGenerationOptions,
+  generateTangents?: MikkTSpaceGenerateTangents
+): VertexAttributeGenerationReport => {
+  const report: VertexAttributeGenerationReport = { normalsGenerated: 0, tangentsGenerated: 0, skipped: [] };
+
+  document.getRoot().listMeshes().forEach((mesh, meshIndex) => {
+    const meshName = mesh.getName() || `mesh_${meshIndex}`;
+
+    mesh.listPrimitives().forEach((primitive, index) => {
+      const position = primitive.getAttribute('POSITION');
+      // Points and lines are not lit with vertex normals or tangents
+      if (!position || primitive.getMode() !== Primitive.Mode.TRIANGLES) return;
+
+      const skip = (reason: string) => report.skipped.push({ mesh: meshName, primitive: index, reason });
+
+      const needsNormals = options.generateNormals && !primitive.getAttribute('NORMAL');
+      const normalTextureInfo = primitive.getMaterial()?.getNormalTexture()
+        ? primitive.getMaterial()!.getNormalTextureInfo()
+        : null;
+      const needsTangents = options.generateTangents && !!normalTextureInfo && !primitive.getAttribute('TANGENT');
+      if (!needsNormals && !needsTangents) return;
+
+      const texcoordSemantic = `TEXCOORD_${normalTextureInfo?.getTexCoord() ?? 0}`;
+      let tangentsPossible = needsTangents;
+      if (needsTangents && !primitive.getAttribute(texcoordSemantic)) {
+        skip(`tangents require ${texcoordSemantic} used by the normal map`);
+        tangentsPossible = false;
+      } else if (needsTangents && !needsNormals && !primitive.getAttribute('NORMAL')) {
+        skip("tangents require NORMAL; enable generateNormals");
+        tangentsPossible = false;
+      }
+      if (!needsNormals && !tangentsPossible) return;
+
+      unweldPrimitive(document, primitive);
+      const buffer = primitive.getAttribute('POSITION')!.getBuffer();
+
+      if (needsNormals) {
+        const normals = computeSmoothNormals(readFloats(primitive.getAttribute('POSITION')!), options.normalAngle);
+        primitive.setAttribute('NORMAL', document.createAccessor().setType('VEC3').setBuffer(buffer).setArray(normals));
+        report.normalsGenerated++;
+      }
+
+      if (tangentsPossible) {
+        const tangents = generateTangents!(
+          readFloats(primitive.getAttribute('POSITION')!),
+          readFloats(primitive.getAttribute('NORMAL')!),
+          readFloats(primitive.getAttribute(texcoordSemantic)!)
+        );
+        // MikkTSpace and glTF disagree on the bitangent sign convention
+        for (let i = 3; i < tangents.length; i += 4) {
+          tangents[i] *= -1;
+        }
+        primitive.setAttribute('TANGENT', document.createAccessor().setType('VEC4').setBuffer(buffer).setArray(tangents));
+        report.tangentsGenerated++;
+      }
+
+      weldPrimitive(primitive);
+    });
+  });
+
+  console.log(`Vertex attributes generated: normals for ${report.normalsGenerated} primitives, tangents for ${report.tangentsGenerated} primitives`);
+  if (report.skipped.length > 0) {
+    console.log("Attribute generation skipped:", report.skipped);
+  }
+
+  return report;
+};
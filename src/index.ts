@@ -6,6 +6,7 @@ import { serve } from '@hono/node-server';
 import { errorHandler } from './middleware/errorHandler.js';
 import { createRequestQueueMiddleware } from './middleware/requestQueue.js';
 import { compression } from './routes/compression.js';
+import { decompression } from './routes/decompression.js';
 import monitoring from './routes/monitoring.js';
 
 const app = new Hono();
@@ -28,9 +29,11 @@ import textureRoutes from './routes/textureCompression.js';
 
 // Apply request queue middleware to compression routes
 app.use('/compress/*', createRequestQueueMiddleware());
+app.use('/decompress/*', createRequestQueueMiddleware());
 
 // Mount compression routes
 app.route('/compress', compression);
+app.route('/decompress', decompression);
 app.route('/texture', textureRoutes);
 
 // Mount monitoring routes
@@ -53,15 +56,24 @@ app.get('/', (c) => {
     endpoints: {
       health: '/health',
       compression: {
-        mesh: 'POST /compress/mesh - Mesh-only compression (Draco)',
+        mesh: 'POST /compress/mesh - Mesh-only compression (Draco, meshopt or quantize-only) with optional geometry optimization',
+        pointcloud: 'POST /compress/pointcloud - Point cloud preset (Draco point cloud encoding of POINTS primitives)',
+        lod: 'POST /compress/lod - LOD chain generation (MSFT_lod or separate GLBs)',
         textures: 'POST /compress/textures - Texture-only compression (KTX2)',
         full: 'POST /compress/full - Full compression (mesh + textures)',
         healthCheck: 'GET /compress/health'
       },
+      decompression: {
+        mesh: 'POST /decompress/mesh - Decode Draco/meshopt geometry to plain accessors',
+        healthCheck: 'GET /decompress/health'
+      },
       textureCompression: {
         pngToKtx2: 'POST /texture/png-to-ktx2 - Convert PNG to KTX2 format (supports optional format & basisParams)',
-        imageToKtx2: 'POST /texture/image-to-ktx2 - Enhanced image to KTX2 conversion with customizable settings',
+        imageToKtx2: 'POST /texture/image-to-ktx2 - Enhanced image to KTX2 conversion with customizable settings (HDR/EXR to UASTC HDR)',
+        cubemapToKtx2: 'POST /texture/cubemap-to-ktx2 - Cubemap, array or 3D KTX2 texture from several images or an equirectangular panorama',
         glbTextures: 'POST /texture/glb-textures - Enhanced GLB texture compression',
+        ktx2ToPng: 'POST /texture/ktx2-to-png - Decode KTX2 to PNG (a ZIP of PNGs for GLB input)',
+        inspect: 'POST /texture/inspect - KTX2 container metadata (vkFormat, levels, DFD, key/values) for a KTX2 file or GLB',
         healthCheck: 'GET /texture/health'
       },
       monitoring: {
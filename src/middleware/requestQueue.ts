@@ -74,6 +74,22 @@ class RequestQueueManager {
       maxQueueSize: 20,
       enableMetrics: true
     });
+
+    this.setEndpointConfig('/compress/lod', {
+      maxConcurrent: 4,         // Simplification runs once per level
+      queueTimeout: 90000,
+      requestTimeout: 300000,   // 5 minute processing timeout
+      maxQueueSize: 10,
+      enableMetrics: true
+    });
+
+    this.setEndpointConfig('/decompress/mesh', {
+      maxConcurrent: 8,         // Decoding only, no encoding
+      queueTimeout: 60000,
+      requestTimeout: 120000,   // 2 minute processing timeout
+      maxQueueSize: 20,
+      enableMetrics: true
+    });
   }
 
   /**
@@ -1,7 +1,11 @@
-import { Hono } from 'hono';
-import { compressGLTFMeshOnly, compressGLTFComplete, compressGLBTexturesKTX2 } from '../compression/index.js';
+import { Hono, Context } from 'hono';
+import { compressGLTFMeshWithReport, compressGLTFComplete, compressGLBTexturesKTX2, compressGLBTexturesImage, generateLODChain, applyGPUInstancing, mergeMeshes, validateColorSpaceOverrides, DEFAULT_LOD_OPTIONS, POINT_CLOUD_MESH_OPTIONS } from '../compression/index.js';
+import type { ColorSpaceOverrides, CompressionResult, ImageTextureOptions, MeshCompressionOptions, MeshCompressionReport, LODOptions, LODResult, InstancingOptions, InstancingReport, MeshMergeOptions, MeshMergeReport } from '../compression/index.js';
 import { KTX2TranscoderFormat, KTX2CompressionSettings } from '../compression/ktx2TextureCompression.js';
+import { parseTextureResizeOptions, type TextureResizeOptions } from '../compression/textureResize.js';
 import { analyzeGLB, getOptimalCompressionStrategy } from '../utils/gltfAnalyzer.js';
+import { createZipArchive } from '../utils/zipArchive.js';
+import { setReportListHeader } from '../utils/reportHeaders.js';
 
 const compression = new Hono();
 
@@ -33,29 +37,464 @@ const addCompressionHeaders = (headers: Record<string, string>, stats: ReturnTyp
   headers['X-Compression-Savings'] = stats.savings.toString();
 };
 
+type ParamReader = (name: string) => string | undefined;
+
+// Helper function to read a GLB from either multipart form data ('glb' field) or the raw request body.
+// Parameters are read from form fields first, falling back to query parameters.
+const readGLBRequest = async (c: Context): Promise<{ arrayBuffer: ArrayBuffer | null; getParam: ParamReader }> => {
+  const contentType = c.req.header('content-type') || '';
+
+  if (contentType.includes('multipart/form-data')) {
+    console.log("API: Processing multipart form data");
+    const formData = await c.req.formData();
+    const glbFile = formData.get('glb');
+
+    const getParam: ParamReader = (name) => {
+      const value = formData.get(name);
+      if (typeof value === 'string' && value !== '') {
+        return value;
+      }
+      return c.req.query(name);
+    };
+
+    if (!glbFile || typeof glbFile === 'string') {
+      return { arrayBuffer: null, getParam };
+    }
+
+    console.log(`API: Received GLB file: ${glbFile.name}, Size: ${glbFile.size}`);
+    return { arrayBuffer: await glbFile.arrayBuffer(), getParam };
+  }
+
+  // Raw binary data (ArrayBuffer from Cloudflare Workers) with query parameters
+  return {
+    arrayBuffer: await c.req.arrayBuffer(),
+    getParam: (name) => c.req.query(name)
+  };
+};
+
+// Helper function to parse an integer parameter within a range
+const parseIntegerParam = (name: string, value: string, min: number, max: number): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new Error(`Invalid ${name}: ${value}. Must be an integer between ${min} and ${max}`);
+  }
+  return parsed;
+};
+
+// Helper function to parse mesh compression options (codec and geometry optimization) from request parameters
+const parseMeshOptions = (getParam: ParamReader): Partial<MeshCompressionOptions> => {
+  const options: Partial<MeshCompressionOptions> = {};
+
+  const codec = getParam('codec');
+  if (codec) {
+    if (codec !== 'draco' && codec !== 'meshopt' && codec !== 'quantize' && codec !== 'none') {
+      throw new Error(`Invalid codec: ${codec}. Must be 'draco', 'meshopt', 'quantize' or 'none'`);
+    }
+    options.codec = codec;
+  }
+
+  const meshoptMethod = getParam('meshoptMethod');
+  if (meshoptMethod) {
+    if (meshoptMethod !== 'quantize' && meshoptMethod !== 'filter') {
+      throw new Error(`Invalid meshoptMethod: ${meshoptMethod}. Must be 'quantize' or 'filter'`);
+    }
+    options.meshoptMethod = meshoptMethod;
+  }
+
+  const method = getParam('method');
+  if (method) {
+    if (method !== 'edgebreaker' && method !== 'sequential') {
+      throw new Error(`Invalid method: ${method}. Must be 'edgebreaker' or 'sequential'`);
+    }
+    options.method = method;
+  }
+
+  const quantizationVolume = getParam('quantizationVolume');
+  if (quantizationVolume) {
+    if (quantizationVolume !== 'mesh' && quantizationVolume !== 'scene') {
+      throw new Error(`Invalid quantizationVolume: ${quantizationVolume}. Must be 'mesh' or 'scene'`);
+    }
+    options.quantizationVolume = quantizationVolume;
+  }
+
+  for (const key of ['reencode', 'weld', 'vertexCache', 'overdraw', 'vertexFetch', 'generateNormals', 'generateTangents', 'stripAnimations', 'quantizeAnimation', 'pruneAttributes', 'reportErrorMetrics'] as const) {
+    const value = getParam(key);
+    if (value) {
+      if (value !== 'true' && value !== 'false') {
+        throw new Error(`Invalid ${key}: ${value}. Must be 'true' or 'false'`);
+      }
+      options[key] = value === 'true';
+    }
+  }
+
+  const weldTolerance = getParam('weldTolerance');
+  if (weldTolerance) {
+    const parsed = Number(weldTolerance);
+    if (!Number.isFinite(parsed) || parsed < 0 || parsed > 0.1) {
+      throw new Error(`Invalid weldTolerance: ${weldTolerance}. Must be a number between 0 and 0.1`);
+    }
+    options.weldTolerance = parsed;
+  }
+
+  const upAxis = getParam('upAxis');
+  if (upAxis) {
+    if (upAxis !== 'y' && upAxis !== 'z') {
+      throw new Error(`Invalid upAxis: ${upAxis}. Must be 'y' or 'z'`);
+    }
+    options.upAxis = upAxis;
+  }
+
+  const recenter = getParam('recenter');
+  if (recenter) {
+    if (recenter !== 'none' && recenter !== 'origin' && recenter !== 'ground') {
+      throw new Error(`Invalid recenter: ${recenter}. Must be 'none', 'origin' or 'ground'`);
+    }
+    options.recenter = recenter;
+  }
+
+  const normalizeMode = getParam('normalizeMode');
+  if (normalizeMode) {
+    if (normalizeMode !== 'root' && normalizeMode !== 'bake') {
+      throw new Error(`Invalid normalizeMode: ${normalizeMode}. Must be 'root' or 'bake'`);
+    }
+    options.normalizeMode = normalizeMode;
+  }
+
+  const unitScale = getParam('unitScale');
+  if (unitScale) {
+    const parsed = Number(unitScale);
+    if (!Number.isFinite(parsed) || parsed < 1e-6 || parsed > 1e6) {
+      throw new Error(`Invalid unitScale: ${unitScale}. Must be a number between 0.000001 and 1000000`);
+    }
+    options.unitScale = parsed;
+  }
+
+  const fitSize = getParam('fitSize');
+  if (fitSize) {
+    const parsed = Number(fitSize);
+    if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1e6) {
+      throw new Error(`Invalid fitSize: ${fitSize}. Must be a number between 0 and 1000000`);
+    }
+    options.fitSize = parsed;
+  }
+
+  const normalAngle = getParam('normalAngle');
+  if (normalAngle) {
+    const parsed = Number(normalAngle);
+    if (!Number.isFinite(parsed) || parsed < 0 || parsed > 180) {
+      throw new Error(`Invalid normalAngle: ${normalAngle}. Must be a number between 0 and 180`);
+    }
+    options.normalAngle = parsed;
+  }
+
+  const animationFps = getParam('animationFps');
+  if (animationFps) {
+    const parsed = Number(animationFps);
+    if (!Number.isFinite(parsed) || parsed < 0 || parsed > 240) {
+      throw new Error(`Invalid animationFps: ${animationFps}. Must be a number between 0 and 240`);
+    }
+    options.animationFps = parsed;
+  }
+
+  const keyframeTolerance = getParam('keyframeTolerance');
+  if (keyframeTolerance) {
+    const parsed = Number(keyframeTolerance);
+    if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+      throw new Error(`Invalid keyframeTolerance: ${keyframeTolerance}. Must be a number between 0 and 1`);
+    }
+    options.keyframeTolerance = parsed;
+  }
+
+  const maxError = getParam('maxError');
+  if (maxError) {
+    const parsed = Number(maxError);
+    if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+      throw new Error(`Invalid maxError: ${maxError}. Must be a number between 0 and 1`);
+    }
+    options.maxError = parsed;
+  }
+
+  for (const key of ['encodeSpeed', 'decodeSpeed'] as const) {
+    const value = getParam(key);
+    if (value) {
+      options[key] = parseIntegerParam(key, value, 0, 10);
+    }
+  }
+
+  // Meshopt and KHR_mesh_quantization store quantized attributes as normalized int8/int16;
+  // Draco takes 0-30 bits (0 = lossless)
+  const [minBits, maxBits] = options.codec === 'meshopt' || options.codec === 'quantize' ? [8, 16] : [0, 30];
+  for (const key of ['quantizePosition', 'quantizeNormal', 'quantizeTexcoord', 'quantizeColor', 'quantizeGeneric'] as const) {
+    const value = getParam(key);
+    if (value) {
+      options[key] = parseIntegerParam(key, value, minBits, maxBits);
+    }
+  }
+
+  return options;
+};
+
+// Helper function to add mesh option headers
+const addMeshOptionHeaders = (headers: Record<string, string>, options: Partial<MeshCompressionOptions>) => {
+  headers['X-Mesh-Codec'] = options.codec || 'draco';
+  headers['X-Mesh-Options'] = Object.keys(options).length > 0 ? JSON.stringify(options) : 'default';
+};
+
+// Helper function to add mesh compression report headers
+const addMeshReportHeaders = (headers: Record<string, string>, report: MeshCompressionReport) => {
+  headers['X-Mesh-Compressed'] = report.meshCompressed.toString();
+  headers['X-Mesh-Quantized'] = report.quantized.toString();
+  if (report.skippedReason) {
+    headers['X-Mesh-Skipped-Reason'] = report.skippedReason;
+  }
+  if (report.reencoded) {
+    headers['X-Mesh-Reencoded'] = 'true';
+  }
+  if (report.optimization) {
+    headers['X-Mesh-Optimization'] = report.optimization.steps.join(', ');
+    headers['X-Mesh-Vertices-Before'] = report.optimization.vertexCountBefore.toString();
+    headers['X-Mesh-Vertices-After'] = report.optimization.vertexCountAfter.toString();
+  }
+  if (report.primitiveSizes) {
+    setReportListHeader(headers, 'X-Mesh-Primitive-Sizes', report.primitiveSizes);
+  }
+  if (report.normalization) {
+    headers['X-Mesh-Normalization'] = report.normalization.steps.join(', ');
+    headers['X-Mesh-Normalization-Mode'] = report.normalization.mode;
+    headers['X-Mesh-Bounds-Before'] = JSON.stringify(report.normalization.boundsBefore);
+    headers['X-Mesh-Bounds-After'] = JSON.stringify(report.normalization.boundsAfter);
+    if (report.normalization.fallbackReason) {
+      headers['X-Mesh-Normalization-Fallback'] = report.normalization.fallbackReason;
+    }
+  }
+  if (report.attributes) {
+    headers['X-Mesh-Normals-Generated'] = report.attributes.normalsGenerated.toString();
+    headers['X-Mesh-Tangents-Generated'] = report.attributes.tangentsGenerated.toString();
+    if (report.attributes.skipped.length > 0) {
+      setReportListHeader(headers, 'X-Mesh-Attributes-Skipped', report.attributes.skipped);
+    }
+  }
+  if (report.attributePruning) {
+    headers['X-Mesh-Attributes-Removed-Count'] = report.attributePruning.removed.length.toString();
+    if (report.attributePruning.removed.length > 0) {
+      setReportListHeader(headers, 'X-Mesh-Attributes-Removed', report.attributePruning.removed);
+    }
+  }
+  if (report.animation) {
+    headers['X-Mesh-Animation'] = report.animation.steps.join(', ');
+    headers['X-Mesh-Animation-Bytes-Before'] = report.animation.bytesBefore.toString();
+    headers['X-Mesh-Animation-Bytes-After'] = report.animation.bytesAfter.toString();
+    headers['X-Mesh-Keyframes-Before'] = report.animation.keyframesBefore.toString();
+    headers['X-Mesh-Keyframes-After'] = report.animation.keyframesAfter.toString();
+  }
+  if (report.errorMetrics) {
+    const metrics = report.errorMetrics;
+    headers['X-Mesh-Max-Position-Error'] = metrics.maxPositionError.toString();
+    if (metrics.maxNormalError !== null) {
+      headers['X-Mesh-Max-Normal-Error'] = metrics.maxNormalError.toString();
+    }
+    if (metrics.maxUVError !== null) {
+      headers['X-Mesh-Max-UV-Error'] = metrics.maxUVError.toString();
+    }
+    headers['X-Mesh-Error-Attempts'] = metrics.attempts.toString();
+    headers['X-Mesh-Quantize-Position-Used'] = metrics.quantizePosition.toString();
+    if (metrics.maxErrorExceeded) {
+      headers['X-Mesh-Max-Error-Exceeded'] = 'true';
+    }
+    setReportListHeader(headers, 'X-Mesh-Error-Metrics', metrics.meshes);
+  }
+  if (report.deformation) {
+    headers['X-Mesh-Skinned-Primitives'] = report.deformation.skinnedPrimitives.toString();
+    headers['X-Mesh-Morph-Primitives'] = report.deformation.morphPrimitives.toString();
+    headers['X-Mesh-Sparse-Morph-Accessors'] = report.deformation.sparseMorphAccessors.toString();
+  }
+  if (report.pointCloud) {
+    headers['X-Mesh-Point-Primitives'] = report.pointCloud.primitives.toString();
+    headers['X-Mesh-Points'] = report.pointCloud.points.toString();
+    headers['X-Mesh-Point-Primitives-Compressed'] = report.pointCloud.primitivesCompressed.toString();
+  }
+  if (report.primitivesSkipped) {
+    setReportListHeader(headers, 'X-Mesh-Primitives-Skipped', report.primitivesSkipped);
+  }
+};
+
+// Helper function to parse a comma-separated list of numbers within a range
+const parseNumberListParam = (name: string, value: string, min: number, max: number): number[] => {
+  return value.split(',').map(item => {
+    const parsed = Number(item.trim());
+    if (item.trim() === '' || !Number.isFinite(parsed) || parsed < min || parsed > max) {
+      throw new Error(`Invalid ${name}: ${value}. Must be a comma-separated list of numbers between ${min} and ${max}`);
+    }
+    return parsed;
+  });
+};
+
+// Helper function to parse LOD options from request parameters.
+// Level count comes from 'levels' or the length of 'ratios'; missing ratios halve the triangle count per level.
+const parseLODOptions = (getParam: ParamReader): Partial<LODOptions> => {
+  const options: Partial<LODOptions> = {};
+
+  const output = getParam('output');
+  if (output) {
+    if (output !== 'msft_lod' && output !== 'separate') {
+      throw new Error(`Invalid output: ${output}. Must be 'msft_lod' or 'separate'`);
+    }
+    options.output = output;
+  }
+
+  const lockBorder = getParam('lockBorder');
+  if (lockBorder) {
+    if (lockBorder !== 'true' && lockBorder !== 'false') {
+      throw new Error(`Invalid lockBorder: ${lockBorder}. Must be 'true' or 'false'`);
+    }
+    options.lockBorder = lockBorder === 'true';
+  }
+
+  const levelsParam = getParam('levels');
+  const ratiosParam = getParam('ratios');
+  const errorsParam = getParam('errors');
+  if (!levelsParam && !ratiosParam && !errorsParam) {
+    return options;
+  }
+
+  const ratios = ratiosParam ? parseNumberListParam('ratios', ratiosParam, 0, 1) : null;
+  const errors = errorsParam ? parseNumberListParam('errors', errorsParam, 0, 1) : null;
+  const levelCount = levelsParam
+    ? parseIntegerParam('levels', levelsParam, 1, 8)
+    : (ratios || errors)!.length;
+
+  if (ratios && ratios.length !== levelCount) {
+    throw new Error(`Invalid ratios: expected ${levelCount} values, got ${ratios.length}`);
+  }
+  if (errors && errors.length !== levelCount) {
+    throw new Error(`Invalid errors: expected ${levelCount} values, got ${errors.length}`);
+  }
+
+  options.levels = Array.from({ length: levelCount }, (_, index) => ({
+    ratio: ratios ? ratios[index] : Math.pow(0.5, index + 1),
+    error: errors ? errors[index] : (DEFAULT_LOD_OPTIONS.levels[index]?.error ?? DEFAULT_LOD_OPTIONS.levels[DEFAULT_LOD_OPTIONS.levels.length - 1].error)
+  }));
+
+  return options;
+};
+
+// Helper function to parse the mesh merging node policy from request parameters
+const parseMeshMergeOptions = (getParam: ParamReader): Partial<MeshMergeOptions> => {
+  const options: Partial<MeshMergeOptions> = {};
+
+  for (const [param, key] of [['mergeKeepNamed', 'keepNamed'], ['mergeKeepAnimated', 'keepAnimated']] as const) {
+    const value = getParam(param);
+    if (value) {
+      if (value !== 'true' && value !== 'false') {
+        throw new Error(`Invalid ${param}: ${value}. Must be 'true' or 'false'`);
+      }
+      options[key] = value === 'true';
+    }
+  }
+
+  return options;
+};
+
+// Helper function to parse WebP/AVIF texture output options; null keeps the KTX2 output
+const parseImageTextureOptions = (getParam: ParamReader): Partial<ImageTextureOptions> | null => {
+  const textureFormat = getParam('textureFormat');
+  if (!textureFormat || textureFormat === 'ktx2') {
+    return null;
+  }
+  if (textureFormat !== 'webp' && textureFormat !== 'avif') {
+    throw new Error(`Invalid textureFormat: ${textureFormat}. Must be 'ktx2', 'webp' or 'avif'`);
+  }
+
+  const options: Partial<ImageTextureOptions> = { format: textureFormat };
+
+  const textureQuality = getParam('textureQuality');
+  if (textureQuality) {
+    options.quality = parseIntegerParam('textureQuality', textureQuality, 1, 100);
+  }
+
+  const textureFallback = getParam('textureFallback');
+  if (textureFallback) {
+    if (textureFallback !== 'true' && textureFallback !== 'false') {
+      throw new Error(`Invalid textureFallback: ${textureFallback}. Must be 'true' or 'false'`);
+    }
+    options.keepFallback = textureFallback === 'true';
+  }
+
+  return options;
+};
+
+// Helper function to add mesh merging report headers
+const addMeshMergeHeaders = (headers: Record<string, string>, report: MeshMergeReport) => {
+  headers['X-Draw-Calls-Before'] = report.drawCallsBefore.toString();
+  headers['X-Draw-Calls-After'] = report.drawCallsAfter.toString();
+  headers['X-Merge-Meshes-Before'] = report.meshCountBefore.toString();
+  headers['X-Merge-Meshes-After'] = report.meshCountAfter.toString();
+  headers['X-Merge-Nodes-Kept'] = report.nodesKept.toString();
+  if (report.skippedReason) {
+    headers['X-Merge-Skipped-Reason'] = report.skippedReason;
+  }
+};
+
+// Helper function to add LOD report headers
+const addLODHeaders = (headers: Record<string, string>, result: LODResult) => {
+  headers['X-LOD-Levels'] = JSON.stringify(result.levels.map(level => ({
+    level: level.level,
+    triangles: level.triangleCount,
+    ratio: Number(level.achievedRatio.toFixed(4)),
+    error: Number(level.achievedError.toFixed(6))
+  })));
+  if (result.skippedReason) {
+    headers['X-LOD-Skipped-Reason'] = result.skippedReason;
+  }
+};
+
 /**
- * POST /compress/mesh - Mesh-only compression (Draco)
- * Accepts raw binary data (ArrayBuffer/Buffer) and returns compressed binary
+ * POST /compress/mesh - Mesh-only compression (Draco, meshopt or KHR_mesh_quantization only)
+ * Accepts either raw binary GLB data or multipart form data with a 'glb' file field.
+ * Optional parameters (query parameters or form fields):
+ * - codec: "draco", "meshopt", "quantize" or "none" (default: "draco")
+ * - meshoptMethod: "filter" or "quantize" (meshopt only, default: "filter")
+ * - method: "edgebreaker" or "sequential" (Draco only, default: "edgebreaker")
+ * - encodeSpeed, decodeSpeed: 0-10 (default: 0, best compression)
+ * - quantizationVolume: "mesh" or "scene" (default: "mesh")
+ * - quantizePosition, quantizeNormal, quantizeTexcoord, quantizeColor, quantizeGeneric: bits (Draco 0-30, meshopt/quantize 8-16)
+ * - reencode: "true" to decode existing Draco/meshopt geometry and re-compress it (default: "false")
+ * - weld, vertexCache, overdraw, vertexFetch: "true" to run each geometry optimization step before the codec
+ * - weldTolerance: position weld tolerance as a fraction of the bounding box diagonal, 0-0.1 (default: 0, exact)
+ * - stripAnimations: "true" to remove all animations (default: "false")
+ * - animationFps: resample keyframes to this framerate, 0-240 (default: 0, keep timing)
+ * - keyframeTolerance: drop keyframes reproduced by their neighbours within this tolerance, 0-1 (default: 0, keep all)
+ * - quantizeAnimation: "true" to store rotations as int16 and reduce translation/scale precision (default: "false")
+ * - pruneAttributes: "true" to drop unused TEXCOORD_n sets, uniform white COLOR_n and empty morph targets (default: "false")
+ * - maxError: largest position error as a fraction of the bounding box diagonal, 0-1; retried with more bits when exceeded (default: 0, no guard)
+ * - reportErrorMetrics: "true" to measure geometry error without a maxError guard (default: "false")
  */
 compression.post('/mesh', async (c) => {
   try {
     console.log("API: Starting mesh-only compression endpoint");
     
-    // Get raw binary data from request body (ArrayBuffer from Cloudflare Workers)
-    const arrayBuffer = await c.req.arrayBuffer();
+    const { arrayBuffer, getParam } = await readGLBRequest(c);
     
     if (!arrayBuffer || arrayBuffer.byteLength === 0) {
       console.error("API: No binary data received");
       return c.json({ message: "No binary data uploaded" }, 400);
     }
 
+    let meshOptions: Partial<MeshCompressionOptions>;
+    try {
+      meshOptions = parseMeshOptions(getParam);
+    } catch (error) {
+      return c.json({ message: "Invalid mesh compression parameters", error: error instanceof Error ? error.message : "Unknown error" }, 400);
+    }
+
     // Verify input type for Cloudflare Workers compatibility
     verifyInputType(arrayBuffer);
     console.log("API: Received binary data, Size:", arrayBuffer.byteLength);
+    console.log("API: Mesh options:", meshOptions);
     
     // Apply mesh-only compression
     console.log("API: Starting mesh compression...");
-    const compressedArrayBuffer = await compressGLTFMeshOnly(arrayBuffer);
+    const { buffer: compressedArrayBuffer, report: meshReport } = await compressGLTFMeshWithReport(arrayBuffer, meshOptions);
     console.log("API: Mesh compression completed");
     
     // Calculate compression statistics
@@ -75,6 +514,8 @@ compression.post('/mesh', async (c) => {
       'Content-Length': compressedArrayBuffer.byteLength.toString()
     };
     addCompressionHeaders(responseHeaders, stats);
+    addMeshOptionHeaders(responseHeaders, meshOptions);
+    addMeshReportHeaders(responseHeaders, meshReport);
     
     return new Response(compressedArrayBuffer, {
       status: 200,
@@ -93,6 +534,150 @@ compression.post('/mesh', async (c) => {
   }
 });
 
+/**
+ * POST /compress/pointcloud - Point cloud preset of /compress/mesh
+ * POINTS primitives are encoded with Draco's point cloud encoder (kd-tree, or sequential with
+ * method=sequential to keep point order) at 16 position bits and 8 color bits.
+ * Accepts the same parameters as /compress/mesh, which override the preset.
+ */
+compression.post('/pointcloud', async (c) => {
+  try {
+    console.log("API: Starting point cloud compression endpoint");
+
+    const { arrayBuffer, getParam } = await readGLBRequest(c);
+
+    if (!arrayBuffer || arrayBuffer.byteLength === 0) {
+      console.error("API: No binary data received");
+      return c.json({ message: "No binary data uploaded" }, 400);
+    }
+
+    let meshOptions: Partial<MeshCompressionOptions>;
+    try {
+      meshOptions = { ...POINT_CLOUD_MESH_OPTIONS, ...parseMeshOptions(getParam) };
+    } catch (error) {
+      return c.json({ message: "Invalid mesh compression parameters", error: error instanceof Error ? error.message : "Unknown error" }, 400);
+    }
+
+    verifyInputType(arrayBuffer);
+    const analysis = analyzeGLB(arrayBuffer);
+    console.log("API: Point cloud analysis:", analysis.pointCloud);
+    if (analysis.pointCloud.primitiveCount === 0) {
+      return c.json({ message: "No point cloud found", error: "The file has no POINTS primitives; use /compress/mesh for triangle meshes" }, 400);
+    }
+    console.log("API: Mesh options:", meshOptions);
+
+    const { buffer: compressedArrayBuffer, report: meshReport } = await compressGLTFMeshWithReport(arrayBuffer, meshOptions);
+    console.log("API: Point cloud compression completed");
+
+    const stats = calculateCompressionStats(arrayBuffer.byteLength, compressedArrayBuffer.byteLength);
+    console.log("API: Compression ratio:", stats.compressionRatio);
+
+    const responseHeaders: Record<string, string> = {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': compressedArrayBuffer.byteLength.toString()
+    };
+    addCompressionHeaders(responseHeaders, stats);
+    addMeshOptionHeaders(responseHeaders, meshOptions);
+    addMeshReportHeaders(responseHeaders, meshReport);
+
+    return new Response(compressedArrayBuffer, {
+      status: 200,
+      headers: responseHeaders,
+    });
+  } catch (error) {
+    console.error("API: Point cloud compression failed:", error);
+    console.error("API: Error details:", error instanceof Error ? error.stack : "Unknown error type");
+    return c.json(
+      {
+        message: "Point cloud compression failed",
+        error: error instanceof Error ? error.message : "Unknown error"
+      },
+      500
+    );
+  }
+});
+
+/**
+ * POST /compress/lod - LOD chain generation via mesh simplification
+ * Accepts either raw binary GLB data or multipart form data with a 'glb' file field.
+ * Optional parameters (query parameters or form fields):
+ * - levels: number of LOD levels after the original, 1-8 (default: 3)
+ * - ratios: comma-separated target triangle ratios per level, e.g. "0.5,0.25,0.125"
+ * - errors: comma-separated maximum errors per level as a fraction of mesh extents, e.g. "0.01,0.02,0.05"
+ * - output: "msft_lod" (single GLB) or "separate" (ZIP with one GLB per level) (default: "msft_lod")
+ * - lockBorder: "true" to keep mesh borders fixed (default: "false")
+ */
+compression.post('/lod', async (c) => {
+  try {
+    console.log("API: Starting LOD generation endpoint");
+
+    const { arrayBuffer, getParam } = await readGLBRequest(c);
+
+    if (!arrayBuffer || arrayBuffer.byteLength === 0) {
+      console.error("API: No binary data received");
+      return c.json({ message: "No binary data uploaded" }, 400);
+    }
+
+    let lodOptions: Partial<LODOptions>;
+    try {
+      lodOptions = parseLODOptions(getParam);
+    } catch (error) {
+      return c.json({ message: "Invalid LOD parameters", error: error instanceof Error ? error.message : "Unknown error" }, 400);
+    }
+
+    // Verify input type for Cloudflare Workers compatibility
+    verifyInputType(arrayBuffer);
+    console.log("API: Received binary data, Size:", arrayBuffer.byteLength);
+    console.log("API: LOD options:", lodOptions);
+
+    const lodResult = await generateLODChain(arrayBuffer, lodOptions);
+    console.log("API: LOD generation completed");
+
+    const responseHeaders: Record<string, string> = {};
+    addLODHeaders(responseHeaders, lodResult);
+
+    if (lodResult.levelBuffers) {
+      // Separate output: bundle each level and the report into a ZIP archive
+      const archive = createZipArchive([
+        ...lodResult.levelBuffers.map((buffer, index) => ({ name: `lod${index}.glb`, data: new Uint8Array(buffer) })),
+        { name: 'report.json', data: new TextEncoder().encode(JSON.stringify({ levels: lodResult.levels, skippedReason: lodResult.skippedReason }, null, 2)) }
+      ]);
+      console.log("API: Response ZIP size:", archive.byteLength);
+
+      responseHeaders['Content-Type'] = 'application/zip';
+      responseHeaders['Content-Length'] = archive.byteLength.toString();
+      responseHeaders['Content-Disposition'] = 'attachment; filename="lods.zip"';
+
+      return new Response(archive, {
+        status: 200,
+        headers: responseHeaders,
+      });
+    }
+
+    const outputBuffer = lodResult.buffer!;
+    console.log("API: Response ArrayBuffer size:", outputBuffer.byteLength);
+
+    responseHeaders['Content-Type'] = 'application/octet-stream';
+    responseHeaders['Content-Length'] = outputBuffer.byteLength.toString();
+    addCompressionHeaders(responseHeaders, calculateCompressionStats(arrayBuffer.byteLength, outputBuffer.byteLength));
+
+    return new Response(outputBuffer, {
+      status: 200,
+      headers: responseHeaders,
+    });
+  } catch (error) {
+    console.error("API: LOD generation failed:", error);
+    console.error("API: Error details:", error instanceof Error ? error.stack : "Unknown error type");
+    return c.json(
+      {
+        message: "LOD generation failed",
+        error: error instanceof Error ? error.message : "Unknown error"
+      },
+      500
+    );
+  }
+});
+
 // Helper function to validate format parameter
 const validateFormat = (format: string): KTX2TranscoderFormat => {
   if (format === 'ETC1S') {
@@ -160,8 +745,13 @@ const validateAndParseBasisParams = (basisParams: any): any => {
  *    - glb: GLB file (required)
  *    - format: "ETC1S" or "UASTC" (optional, default: "ETC1S")
  *    - flipY: boolean (optional, default: true)
- *    - forceFormat: boolean (optional, default: false) - if true, overrides normal map auto-detection
+ *    - forceFormat: boolean (optional, default: false) - if true, uses format for normal maps as well instead of UASTC
  *    - basisParams: JSON object with compression settings (optional)
+ *    - colorSpaceOverrides: JSON object mapping texture names, URIs or roles to "srgb" or "linear" (optional)
+ *    - textureFormat: "ktx2", "webp" or "avif" (optional, default: "ktx2"); webp/avif ignore the KTX2 parameters
+ *    - textureQuality: 1-100 (optional, webp/avif only, default: encoder default)
+ *    - textureFallback: boolean (optional, webp/avif only, default: false) - keep the original PNG/JPEG as fallback
+ *    - maxDimension, powerOfTwo, roleLimits, resizeFilter: resize policy (optional), e.g. roleLimits={"normal": 2048, "occlusionTexture": 1024}
  */
 compression.post('/textures', async (c) => {
   try {
@@ -171,8 +761,11 @@ compression.post('/textures', async (c) => {
     let arrayBuffer: ArrayBuffer;
     let format = KTX2TranscoderFormat.ETC1S; // Default format
     let flipY = true; // Default flipY for GLB compatibility
-    let forceFormat = false; // Default: allow normal map auto-detection
+    let forceFormat = false; // Default: normal map slots use UASTC
     let basisParams: any = undefined;
+    let colorSpaceOverrides: ColorSpaceOverrides | undefined = undefined;
+    let imageOptions: Partial<ImageTextureOptions> | null = null;
+    let resize: Partial<TextureResizeOptions> | undefined = undefined;
     
     if (contentType.includes('multipart/form-data')) {
       // New multipart form data handling
@@ -193,6 +786,7 @@ compression.post('/textures', async (c) => {
       const flipYParam = formData.get('flipY') as string;
       const forceFormatParam = formData.get('forceFormat') as string;
       const basisParamsParam = formData.get('basisParams') as string;
+      const colorSpaceOverridesParam = formData.get('colorSpaceOverrides') as string;
       
       // Validate and set format
       if (formatParam) {
@@ -213,6 +807,16 @@ compression.post('/textures', async (c) => {
       if (basisParamsParam) {
         basisParams = validateAndParseBasisParams(basisParamsParam);
       }
+
+      // Validate and set colorSpaceOverrides
+      if (colorSpaceOverridesParam) {
+        colorSpaceOverrides = validateColorSpaceOverrides(colorSpaceOverridesParam);
+      }
+
+      // Validate and set WebP/AVIF output and the resize policy
+      const getParam: ParamReader = (name) => (formData.get(name) as string) || undefined;
+      imageOptions = parseImageTextureOptions(getParam);
+      resize = parseTextureResizeOptions(getParam);
       
       arrayBuffer = await glbFile.arrayBuffer();
       console.log(`API: Received GLB file: ${glbFile.name}, Size: ${glbFile.size}`);
@@ -239,9 +843,13 @@ compression.post('/textures', async (c) => {
       format: format,
       flipY: flipY,
       forceFormat: forceFormat,
-      basisParams: basisParams
+      basisParams: basisParams,
+      colorSpaceOverrides: colorSpaceOverrides,
+      resize: resize
     };
-    const compressionResult = await compressGLBTexturesKTX2(arrayBuffer, compressionSettings);
+    const compressionResult = imageOptions
+      ? await compressGLBTexturesImage(arrayBuffer, { ...imageOptions, resize })
+      : await compressGLBTexturesKTX2(arrayBuffer, compressionSettings);
     const compressedArrayBuffer = compressionResult.buffer;
     console.log("API: GLB texture compression completed");
     
@@ -265,9 +873,17 @@ compression.post('/textures', async (c) => {
     
     // Add texture compression specific headers
     responseHeaders['X-Textures-Processed'] = compressionResult.texturesProcessed?.toString() || '0';
-    responseHeaders['X-Format'] = format === KTX2TranscoderFormat.ETC1S ? 'ETC1S' : 'UASTC';
-    responseHeaders['X-FlipY'] = flipY.toString();
-    responseHeaders['X-Custom-Basis-Params'] = basisParams ? 'true' : 'false';
+    if (compressionResult.textures && compressionResult.textures.length > 0) {
+      setReportListHeader(responseHeaders, 'X-Texture-Roles', compressionResult.textures);
+    }
+    responseHeaders['X-Texture-Output'] = imageOptions?.format ?? 'ktx2';
+    if (imageOptions) {
+      responseHeaders['X-Texture-Fallback'] = (imageOptions.keepFallback ?? false).toString();
+    } else {
+      responseHeaders['X-Format'] = format === KTX2TranscoderFormat.ETC1S ? 'ETC1S' : 'UASTC';
+      responseHeaders['X-FlipY'] = flipY.toString();
+      responseHeaders['X-Custom-Basis-Params'] = basisParams ? 'true' : 'false';
+    }
     if (compressionResult.errors && compressionResult.errors.length > 0) {
       responseHeaders['X-Compression-Warnings'] = compressionResult.errors.join('; ');
     }
@@ -292,35 +908,122 @@ compression.post('/textures', async (c) => {
 
 /**
  * POST /compress/full - Intelligent full compression (mesh and/or texture based on analysis)
- * Accepts raw binary data (ArrayBuffer/Buffer) and returns compressed binary
+ * Accepts either raw binary GLB data or multipart form data with a 'glb' file field
  * Automatically detects existing Draco compression to avoid conflicts
  * 
- * Query parameters:
+ * Parameters (query parameters or form fields):
  * - ignoreDraco=true: Skip Draco detection and force full compression anyway
+ * - reencode=true: Decode existing Draco/meshopt geometry and re-compress it with the requested mesh options
+ * - Mesh codec options (codec, Draco and meshopt settings), same as /compress/mesh
+ * - lod=true: Generate an MSFT_lod chain before mesh compression (levels, ratios, errors, lockBorder as in /compress/lod)
+ * - instancing=true: Collapse nodes sharing a mesh into EXT_mesh_gpu_instancing batches (instancingMin: minimum nodes per batch, default 2)
+ * - merge=true: Flatten static node hierarchies and join primitives sharing a material, after instancing and before LODs
+ *   (mergeKeepNamed=true keeps named nodes unmerged, default false; mergeKeepAnimated=false also merges static nodes below animated ones, default true)
+ * - textureFormat=webp|avif: Re-encode textures as WebP/AVIF instead of KTX2 (textureQuality 1-100, textureFallback=true keeps the PNG/JPEG)
+ * - maxDimension, powerOfTwo, roleLimits, resizeFilter: Texture resize policy, same as /compress/textures
  */
 compression.post('/full', async (c) => {
   try {
     console.log("API: Starting intelligent full compression endpoint");
     
-    // Get raw binary data from request body (ArrayBuffer from Cloudflare Workers)
-    const arrayBuffer = await c.req.arrayBuffer();
+    const { arrayBuffer, getParam } = await readGLBRequest(c);
     
     if (!arrayBuffer || arrayBuffer.byteLength === 0) {
       console.error("API: No binary data received");
       return c.json({ message: "No binary data uploaded" }, 400);
     }
 
+    let meshOptions: Partial<MeshCompressionOptions>;
+    try {
+      meshOptions = parseMeshOptions(getParam);
+    } catch (error) {
+      return c.json({ message: "Invalid mesh compression parameters", error: error instanceof Error ? error.message : "Unknown error" }, 400);
+    }
+
+    const generateLODs = getParam('lod') === 'true';
+    let lodOptions: Partial<LODOptions> | null = null;
+    if (generateLODs) {
+      try {
+        // The full pipeline produces a single GLB, so LODs are always embedded with MSFT_lod
+        lodOptions = { ...parseLODOptions(getParam), output: 'msft_lod' };
+      } catch (error) {
+        return c.json({ message: "Invalid LOD parameters", error: error instanceof Error ? error.message : "Unknown error" }, 400);
+      }
+    }
+
+    let instancingOptions: Partial<InstancingOptions> | null = null;
+    if (getParam('instancing') === 'true') {
+      const instancingMin = getParam('instancingMin');
+      try {
+        instancingOptions = instancingMin ? { minInstances: parseIntegerParam('instancingMin', instancingMin, 2, 1000000) } : {};
+      } catch (error) {
+        return c.json({ message: "Invalid instancing parameters", error: error instanceof Error ? error.message : "Unknown error" }, 400);
+      }
+    }
+
+    let mergeOptions: Partial<MeshMergeOptions> | null = null;
+    if (getParam('merge') === 'true') {
+      try {
+        mergeOptions = parseMeshMergeOptions(getParam);
+      } catch (error) {
+        return c.json({ message: "Invalid mesh merging parameters", error: error instanceof Error ? error.message : "Unknown error" }, 400);
+      }
+    }
+
+    let imageOptions: Partial<ImageTextureOptions> | null;
+    try {
+      imageOptions = parseImageTextureOptions(getParam);
+    } catch (error) {
+      return c.json({ message: "Invalid texture output parameters", error: error instanceof Error ? error.message : "Unknown error" }, 400);
+    }
+
+    let resize: Partial<TextureResizeOptions>;
+    try {
+      resize = parseTextureResizeOptions(getParam);
+    } catch (error) {
+      return c.json({ message: "Invalid texture resize parameters", error: error instanceof Error ? error.message : "Unknown error" }, 400);
+    }
+
     // Verify input type for Cloudflare Workers compatibility
     verifyInputType(arrayBuffer);
     console.log("API: Received binary data, Size:", arrayBuffer.byteLength);
+    console.log("API: Mesh options:", meshOptions);
+
+    // Collapse repeated meshes into GPU instancing batches first; LODs are not generated for batches
+    let inputBuffer = arrayBuffer;
+    let instancingReport: InstancingReport | null = null;
+    if (instancingOptions) {
+      console.log("API: Applying GPU instancing before compression...");
+      const instancingResult = await applyGPUInstancing(inputBuffer, instancingOptions);
+      inputBuffer = instancingResult.buffer;
+      instancingReport = instancingResult.report;
+    }
+
+    // Merge remaining static meshes that share a material; instanced batches are left alone
+    let mergeReport: MeshMergeReport | null = null;
+    if (mergeOptions) {
+      console.log("API: Merging static meshes before compression...");
+      const mergeResult = await mergeMeshes(inputBuffer, mergeOptions, meshOptions);
+      inputBuffer = mergeResult.buffer;
+      mergeReport = mergeResult.report;
+    }
+
+    // Generate LODs before mesh compression so every level is compressed with the same codec
+    let lodReport: LODResult | null = null;
+    if (lodOptions) {
+      console.log("API: Generating LOD chain before compression...");
+      const lodResult = await generateLODChain(inputBuffer, lodOptions);
+      inputBuffer = lodResult.buffer!;
+      lodReport = lodResult;
+    }
     
-    // Check for ignoreDraco query parameter
-    const ignoreDraco = c.req.query('ignoreDraco') === 'true';
+    // Check for ignoreDraco parameter
+    const ignoreDraco = getParam('ignoreDraco') === 'true';
     console.log("API: Ignore Draco detection:", ignoreDraco);
     
     // Analyze GLB to determine optimal compression strategy
     console.log("API: Analyzing GLB file structure...");
-    const analysis = analyzeGLB(arrayBuffer);
+    const analysis = analyzeGLB(inputBuffer);
     let strategy = getOptimalCompressionStrategy(analysis);
     
     // Override strategy if ignoreDraco is enabled
@@ -333,11 +1036,23 @@ compression.post('/full', async (c) => {
         recommendedEndpoint: '/compress/full'
       };
     }
+
+    // Re-encoding replaces the existing mesh codec, so mesh compression must run
+    if (meshOptions.reencode && (analysis.hasDracoCompression || analysis.hasMeshoptCompression)) {
+      console.log("API: Re-encoding existing mesh compression");
+      strategy = {
+        shouldCompressMesh: analysis.hasMeshes,
+        shouldCompressTextures: analysis.hasTextures,
+        reason: 'Re-encoding existing mesh compression (reencode=true)',
+        recommendedEndpoint: '/compress/full'
+      };
+    }
     
     console.log("API: GLB Analysis Results:", {
       hasTextures: analysis.hasTextures,
       hasMeshes: analysis.hasMeshes,
       hasDracoCompression: analysis.hasDracoCompression,
+      hasMeshoptCompression: analysis.hasMeshoptCompression,
       textureCount: analysis.textureCount,
       meshCount: analysis.meshCount
     });
@@ -350,14 +1065,15 @@ compression.post('/full', async (c) => {
     });
 
     let compressedArrayBuffer: ArrayBuffer;
-    let compressionResult: any;
+    // Response statistics are computed below against the original upload
+    let compressionResult: Omit<CompressionResult, 'stats'>;
     
     if (!strategy.shouldCompressMesh && !strategy.shouldCompressTextures) {
       // No compression needed
       console.log("API: No compression needed, returning original file");
-      compressedArrayBuffer = arrayBuffer;
+      compressedArrayBuffer = inputBuffer;
       compressionResult = {
-        buffer: arrayBuffer,
+        buffer: inputBuffer,
         meshCompressed: false,
         textureCompressed: false,
         errors: [`No compression applied: ${strategy.reason}`]
@@ -365,7 +1081,7 @@ compression.post('/full', async (c) => {
     } else if (strategy.shouldCompressMesh && strategy.shouldCompressTextures) {
       // Full compression (original behavior)
       console.log("API: Applying full compression (mesh + textures)...");
-      compressionResult = await compressGLTFComplete(arrayBuffer);
+      compressionResult = await compressGLTFComplete(inputBuffer, { compressMesh: true, compressTextures: true, meshOptions, imageTextures: imageOptions ?? undefined, resize });
       compressedArrayBuffer = compressionResult.buffer;
     } else if (strategy.shouldCompressTextures && !strategy.shouldCompressMesh) {
       // Texture-only compression (avoids Draco conflict)
@@ -373,31 +1089,37 @@ compression.post('/full', async (c) => {
       const textureCompressionSettings: KTX2CompressionSettings = {
         format: KTX2TranscoderFormat.ETC1S,
         flipY: true,
-        forceFormat: true // Use ETC1S for all textures for maximum compression
+        forceFormat: true, // Use ETC1S for all textures for maximum compression
+        resize
       };
-      const textureResult = await compressGLBTexturesKTX2(arrayBuffer, textureCompressionSettings);
+      const textureResult = imageOptions
+        ? await compressGLBTexturesImage(inputBuffer, { ...imageOptions, resize })
+        : await compressGLBTexturesKTX2(inputBuffer, textureCompressionSettings);
       compressedArrayBuffer = textureResult.buffer;
       compressionResult = {
         buffer: textureResult.buffer,
         meshCompressed: false,
         textureCompressed: true,
         texturesProcessed: textureResult.texturesProcessed,
+        textureReports: textureResult.textures,
         errors: textureResult.errors || []
       };
     } else if (strategy.shouldCompressMesh && !strategy.shouldCompressTextures) {
       // Mesh-only compression
       console.log("API: Applying mesh-only compression...");
-      compressedArrayBuffer = await compressGLTFMeshOnly(arrayBuffer);
+      const meshResult = await compressGLTFMeshWithReport(inputBuffer, meshOptions);
+      compressedArrayBuffer = meshResult.buffer;
       compressionResult = {
         buffer: compressedArrayBuffer,
-        meshCompressed: true,
+        meshCompressed: meshResult.report.meshCompressed,
         textureCompressed: false,
+        meshReport: meshResult.report,
         errors: []
       };
     } else {
       // Fallback - should not reach here
       console.log("API: Fallback to original full compression...");
-      compressionResult = await compressGLTFComplete(arrayBuffer);
+      compressionResult = await compressGLTFComplete(inputBuffer, { compressMesh: true, compressTextures: true, meshOptions, imageTextures: imageOptions ?? undefined, resize });
       compressedArrayBuffer = compressionResult.buffer;
     }
     
@@ -420,14 +1142,44 @@ compression.post('/full', async (c) => {
       'Content-Length': compressedArrayBuffer.byteLength.toString()
     };
     addCompressionHeaders(responseHeaders, stats);
+    addMeshOptionHeaders(responseHeaders, meshOptions);
     
     // Add additional headers for intelligent compression results
     responseHeaders['X-Mesh-Compressed'] = compressionResult.meshCompressed.toString();
+    if (compressionResult.meshReport) {
+      addMeshReportHeaders(responseHeaders, compressionResult.meshReport);
+    }
     responseHeaders['X-Texture-Compressed'] = compressionResult.textureCompressed.toString();
     responseHeaders['X-Had-Draco-Compression'] = analysis.hasDracoCompression.toString();
+    responseHeaders['X-Had-Meshopt-Compression'] = analysis.hasMeshoptCompression.toString();
     responseHeaders['X-Ignored-Draco-Detection'] = ignoreDraco.toString();
+    if (lodReport) {
+      addLODHeaders(responseHeaders, lodReport);
+    }
+    responseHeaders['X-Instancing-Potential-Draw-Call-Savings'] = analysis.instancing.potentialDrawCallSavings.toString();
+    responseHeaders['X-Point-Count'] = analysis.pointCloud.pointCount.toString();
+    responseHeaders['X-Animation-Bytes'] = analysis.animation.byteSize.toString();
+    // Counts from the input; the X-Mesh-*-Generated headers report what the mesh stage added
+    responseHeaders['X-Primitives-Missing-Normals'] = analysis.vertexAttributes.primitivesMissingNormals.length.toString();
+    responseHeaders['X-Primitives-Missing-Tangents'] = analysis.vertexAttributes.primitivesMissingTangents.length.toString();
+    if (instancingReport) {
+      responseHeaders['X-Instancing-Batches'] = instancingReport.batches.toString();
+      responseHeaders['X-Instancing-Instances'] = instancingReport.instances.toString();
+      if (instancingReport.skippedReason) {
+        responseHeaders['X-Instancing-Skipped-Reason'] = instancingReport.skippedReason;
+      }
+    }
+    if (mergeReport) {
+      addMeshMergeHeaders(responseHeaders, mergeReport);
+    }
     responseHeaders['X-Compression-Strategy'] = strategy.reason;
+    if (compressionResult.textureCompressed) {
+      responseHeaders['X-Texture-Output'] = imageOptions?.format ?? 'ktx2';
+    }
     responseHeaders['X-Textures-Processed'] = compressionResult.texturesProcessed?.toString() || '0';
+    if (compressionResult.textureReports && compressionResult.textureReports.length > 0) {
+      setReportListHeader(responseHeaders, 'X-Texture-Roles', compressionResult.textureReports);
+    }
     if (compressionResult.errors && compressionResult.errors.length > 0) {
       responseHeaders['X-Compression-Warnings'] = compressionResult.errors.join('; ');
     }
@@ -455,7 +1207,9 @@ compression.get('/health', (c) => {
     status: 'ok',
     service: 'compression-routes',
     endpoints: [
-      'POST /compress/mesh - Mesh-only compression (Draco)',
+      'POST /compress/mesh - Mesh-only compression (Draco, meshopt or quantize-only) with optional geometry optimization',
+      'POST /compress/pointcloud - Point cloud preset (Draco point cloud encoding of POINTS primitives)',
+      'POST /compress/lod - LOD chain generation (MSFT_lod or separate GLBs)',
       'POST /compress/textures - Texture-only compression (KTX2)',
       'POST /compress/full - Full compression (mesh + textures)'
     ],
@@ -463,4 +1217,6 @@ compression.get('/health', (c) => {
   });
 });
 
-export { compression };
\ No newline at end of file
+// Request helpers are shared with the decompression routes
+export { compression, readGLBRequest, verifyInputType };
+export type { ParamReader };
\ No newline at end of file
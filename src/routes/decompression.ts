@@ -0,0 +1,72 @@
+import { Hono } from 'hono';
+import { decompressGLTFMesh } from '../compression/index.js';
+import { readGLBRequest, verifyInputType } from './compression.js';
+
+const decompression = new Hono();
+
+/**
+ * POST /decompress/mesh - Decode compressed geometry back to plain accessors
+ * Accepts either raw binary GLB data or multipart form data with a 'glb' file field.
+ * Removes KHR_draco_mesh_compression (and EXT_meshopt_compression) so the asset can be re-processed.
+ */
+decompression.post('/mesh', async (c) => {
+  try {
+    console.log("API: Starting mesh decompression endpoint");
+
+    const { arrayBuffer } = await readGLBRequest(c);
+
+    if (!arrayBuffer || arrayBuffer.byteLength === 0) {
+      console.error("API: No binary data received");
+      return c.json({ message: "No binary data uploaded" }, 400);
+    }
+
+    // Verify input type for Cloudflare Workers compatibility
+    verifyInputType(arrayBuffer);
+    console.log("API: Received binary data, Size:", arrayBuffer.byteLength);
+
+    const { buffer: decompressedArrayBuffer, report } = await decompressGLTFMesh(arrayBuffer);
+    console.log("API: Mesh decompression completed");
+    console.log("API: Response ArrayBuffer size:", decompressedArrayBuffer.byteLength);
+
+    const responseHeaders: Record<string, string> = {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': decompressedArrayBuffer.byteLength.toString(),
+      'X-Original-Size': arrayBuffer.byteLength.toString(),
+      'X-Decompressed-Size': decompressedArrayBuffer.byteLength.toString(),
+      'X-Decoded-Extensions': report.decodedExtensions.join(', ') || 'none',
+      'X-Primitives-Decoded': report.primitivesDecoded.toString()
+    };
+    if (report.skippedReason) {
+      responseHeaders['X-Mesh-Skipped-Reason'] = report.skippedReason;
+    }
+
+    return new Response(decompressedArrayBuffer, {
+      status: 200,
+      headers: responseHeaders,
+    });
+  } catch (error) {
+    console.error("API: Mesh decompression failed:", error);
+    console.error("API: Error details:", error instanceof Error ? error.stack : "Unknown error type");
+    return c.json(
+      {
+        message: "Mesh decompression failed",
+        error: error instanceof Error ? error.message : "Unknown error"
+      },
+      500
+    );
+  }
+});
+
+// Health check for decompression service
+decompression.get('/health', (c) => {
+  return c.json({
+    status: 'ok',
+    service: 'decompression-routes',
+    endpoints: [
+      'POST /decompress/mesh - Decode Draco/meshopt geometry to plain accessors'
+    ],
+    timestamp: new Date().toISOString()
+  });
+});
+
+export { decompression };
@@ -3,9 +3,16 @@
  * Texture compression routes for PNG to KTX2 conversion
  */
 
-import { Hono } from 'hono';
-import { compressPNGToKTX2, compressImageToKTX2, compressGLBTexturesKTX2, KTX2TranscoderFormat, KTX2CompressionSettings } from '../compression/ktx2TextureCompression.js';
-import type { BasisParams } from '../compression/ktx2TextureCompression.js';
+import { Hono, type Context } from 'hono';
+import { compressPNGToKTX2, compressImageToKTX2, compressImagesToKTX2, compressGLBTexturesKTX2, transcodeKTX2ToPNG, transcodeGLBTexturesToPNG, KTX2TranscoderFormat, KTX2CompressionSettings } from '../compression/ktx2TextureCompression.js';
+import type { BasisParams, KTX2TextureType } from '../compression/ktx2TextureCompression.js';
+import { validateColorSpaceOverrides } from '../compression/textureRoles.js';
+import { createZipArchive } from '../utils/zipArchive.js';
+import { setReportListHeader } from '../utils/reportHeaders.js';
+import { parseTextureResizeOptions, type TextureResizeOptions } from '../compression/textureResize.js';
+import { inspectKTX2, inspectGLBTextures, isKTX2 } from '../compression/ktx2Inspection.js';
+import { isHDRImage } from '../compression/hdrImageDecoding.js';
+import type { ColorSpaceOverrides } from '../compression/compressionUtils.js';
 
 const textureRoutes = new Hono();
 
@@ -139,6 +146,7 @@ const validateAndParseBasisParams = (basisParams: any): Partial<BasisParams> =>
       'qualityLevel', 'maxEndpoints', 'maxSelectors', 'endpointRDOThreshold', 'selectorRDOThreshold',
       'rdo_uastc', 'rdo_uastc_quality_scalar', 'rdo_uastc_dict_size', 'rdo_uastc_max_smooth_block_error_scale',
       'rdo_uastc_smooth_block_max_std_dev', 'rdo_uastc_max_allowed_rms_increase_ratio', 'rdo_uastc_skip_block_rms_thresh',
+      'uastcHDRQuality',
       'mipSrgb', 'normalMap', 'separateRGToRGB_A', 'checkForAlpha', 'forceAlpha', 'renormalize',
       'resample', 'resampleWidth', 'resampleHeight', 'resampleFactor'
     ]);
@@ -173,8 +181,81 @@ const verifyInputType = (arrayBuffer: ArrayBuffer, expectedType: string): void =
 };
 
 
+// Layouts built from several images, and the multipart fields of cubemap faces in KTX2 face order (+X, -X, +Y, -Y, +Z, -Z)
+const MULTI_IMAGE_TEXTURE_TYPES: KTX2TextureType[] = ['cubemap', 'array', '3d'];
+const CUBEMAP_FACE_FIELDS = ['px', 'nx', 'py', 'ny', 'pz', 'nz'];
+
+// Helper function to detect resize policy validation errors
+const isResizeParameterError = (errorMsg: string): boolean => {
+  return ['maxdimension', 'poweroftwo', 'resizefilter', 'rolelimits'].some(param => errorMsg.includes(`invalid ${param}`));
+};
+
+// Helper function to read the resize policy from form data
+const readResizeOptions = (formData: FormData): Partial<TextureResizeOptions> => {
+  return parseTextureResizeOptions((name) => {
+    const value = formData.get(name);
+    return typeof value === 'string' && value !== '' ? value : undefined;
+  });
+};
+
+// Helper function to read the mip chain options (minMipSize, preserveAlphaCoverage, alphaCutoff) from form data
+const readMipChainOptions = (formData: FormData): Pick<KTX2CompressionSettings, 'minMipSize' | 'preserveAlphaCoverage' | 'alphaCutoff'> => {
+  const options: Pick<KTX2CompressionSettings, 'minMipSize' | 'preserveAlphaCoverage' | 'alphaCutoff'> = {};
+  const minMipSizeParam = formData.get('minMipSize') as string;
+  if (minMipSizeParam) {
+    options.minMipSize = Number(minMipSizeParam);
+  }
+  const preserveAlphaCoverageParam = formData.get('preserveAlphaCoverage') as string;
+  if (preserveAlphaCoverageParam) {
+    if (preserveAlphaCoverageParam !== 'true' && preserveAlphaCoverageParam !== 'false') {
+      throw new Error(`Invalid preserveAlphaCoverage: ${preserveAlphaCoverageParam}. Must be 'true' or 'false'`);
+    }
+    options.preserveAlphaCoverage = preserveAlphaCoverageParam === 'true';
+  }
+  const alphaCutoffParam = formData.get('alphaCutoff') as string;
+  if (alphaCutoffParam) {
+    options.alphaCutoff = Number(alphaCutoffParam);
+  }
+  return options;
+};
+
+// Helper function to read a KTX2 or GLB upload: multipart 'file' (or 'ktx2' / 'glb') field, or the raw body.
+// Parameters come from form fields, falling back to the query string.
+const readKTX2OrGLBUpload = async (c: Context, endpoint: string): Promise<{ arrayBuffer: ArrayBuffer; getParam: (name: string) => string | undefined }> => {
+  const contentType = c.req.header('content-type') || '';
+
+  if (contentType.includes('multipart/form-data')) {
+    const formData = await c.req.formData();
+    const fieldName = ['file', 'ktx2', 'glb'].find(name => formData.get(name)) || 'file';
+    const file = validateFileObject(formData.get(fieldName), fieldName);
+    console.log(`API: Received file for ${endpoint}: ${file.name}, Size: ${file.size}`);
+    const getParam = (name: string): string | undefined => {
+      const value = formData.get(name);
+      return typeof value === 'string' && value !== '' ? value : c.req.query(name);
+    };
+    return { arrayBuffer: await file.arrayBuffer(), getParam };
+  }
+
+  if (contentType.includes('application/octet-stream') || contentType.includes('application/binary') || contentType === '') {
+    return { arrayBuffer: await c.req.arrayBuffer(), getParam: (name) => c.req.query(name) };
+  }
+
+  throw new Error(`Unsupported Content-Type for ${endpoint} endpoint: ${contentType}. Supported types: 'multipart/form-data' or 'application/octet-stream'.`);
+};
+
+// Helper function to check for the GLB magic ('glTF')
+const hasGLBMagic = (arrayBuffer: ArrayBuffer): boolean => {
+  const header = new Uint8Array(arrayBuffer.slice(0, 4));
+  return header[0] === 0x67 && header[1] === 0x6C && header[2] === 0x54 && header[3] === 0x46;
+};
+
 /**
  * POST /texture/png-to-ktx2 - Convert PNG to KTX2 format (Enhanced with optional custom settings)
+ * Resize policy form fields (optional):
+ *    - maxDimension: longest side limit in pixels (default: 0, no limit)
+ *    - powerOfTwo: "none", "nearest", "ceil" or "floor" (default: "none")
+ *    - resizeFilter: "lanczos3", "lanczos2", "mitchell", "cubic" or "nearest" (default: "lanczos3")
+ * Sides that are not multiples of 4 are resampled to the nearest multiple of 4.
  */
 textureRoutes.post('/png-to-ktx2', async (c) => {
   console.log("API: Starting PNG to KTX2 compression endpoint");
@@ -273,6 +354,9 @@ textureRoutes.post('/png-to-ktx2', async (c) => {
       }
     }
 
+    // Resize policy (maxDimension, powerOfTwo, resizeFilter)
+    compressionSettings.resize = readResizeOptions(formData);
+
     // Compress PNG to KTX2 using enhanced settings
     const compressionResult = await compressPNGToKTX2(arrayBuffer, compressionSettings);
     
@@ -300,7 +384,9 @@ textureRoutes.post('/png-to-ktx2', async (c) => {
         'X-Generate-Mipmaps': compressionSettings.generateMipmaps?.toString() || 'true',
         'X-Use-Zstandard': compressionSettings.useZstandard?.toString() || 'true',
         'X-OETF': compressionSettings.oetf || 'srgb',
-        'X-Custom-Basis-Params': (compressionSettings.basisParams || compressionSettings.customBasisParams) ? 'true' : 'false'
+        'X-Custom-Basis-Params': (compressionSettings.basisParams || compressionSettings.customBasisParams) ? 'true' : 'false',
+        'X-Texture-Size': `${compressionResult.width}x${compressionResult.height}`,
+        'X-Source-Size': `${compressionResult.sourceWidth}x${compressionResult.sourceHeight}`
       },
     });
     
@@ -320,7 +406,7 @@ textureRoutes.post('/png-to-ktx2', async (c) => {
       } else if (errorMsg.includes('no image file') || errorMsg.includes('invalid image field') || errorMsg.includes('empty image file')) {
         statusCode = 400;
         errorCategory = "Bad Request - Missing or Invalid File";
-      } else if (errorMsg.includes('basisparams') || errorMsg.includes('format') || errorMsg.includes('flipy')) {
+      } else if (errorMsg.includes('basisparams') || errorMsg.includes('format') || errorMsg.includes('flipy') || isResizeParameterError(errorMsg)) {
         statusCode = 400;
         errorCategory = "Bad Request - Invalid Parameters";
       } else if (errorMsg.includes('arrayBuffer') || errorMsg.includes('corrupted') || errorMsg.includes('too large')) {
@@ -351,6 +437,10 @@ textureRoutes.post('/png-to-ktx2', async (c) => {
 
 /**
  * POST /texture/image-to-ktx2 - Enhanced image to KTX2 conversion with customizable settings
+ * Radiance .hdr and OpenEXR images are encoded as UASTC HDR 4x4 (format "UASTC_HDR", the default
+ * for HDR input) or stored uncompressed (format "R16G16B16A16_SFLOAT")
+ * Repeated 'image' fields are pre-authored mip levels: level 0 first, each next one half the size.
+ * minMipSize caps the chain; preserveAlphaCoverage with alphaCutoff keeps cutout coverage in generated levels.
  */
 textureRoutes.post('/image-to-ktx2', async (c) => {
   console.log("API: Starting enhanced image to KTX2 compression endpoint");
@@ -362,7 +452,8 @@ textureRoutes.post('/image-to-ktx2', async (c) => {
 
     // Parse multipart form data to get the image file and settings
     const formData = await c.req.formData();
-    const imageFileRaw = formData.get('image');
+    const imageFilesRaw = formData.getAll('image');
+    const imageFileRaw = imageFilesRaw[0];
     const formatParam = formData.get('format') as string;
     const basisParamsParam = formData.get('basisParams') as string;
 
@@ -385,8 +476,20 @@ textureRoutes.post('/image-to-ktx2', async (c) => {
       throw new Error(`Failed to read image file: ${error instanceof Error ? error.message : 'Unknown error'}. The file may be corrupted or too large.`);
     }
     verifyInputType(arrayBuffer, "IMAGE");
+    const hdrInput = isHDRImage(arrayBuffer);
+
+    // Further 'image' fields are pre-authored mip levels 1..n
+    const mipLevelImages: ArrayBuffer[] = [];
+    for (const mipFileRaw of imageFilesRaw.slice(1)) {
+      const mipFile = validateFileObject(mipFileRaw, 'image');
+      try {
+        mipLevelImages.push(await mipFile.arrayBuffer());
+      } catch (error) {
+        throw new Error(`Failed to read mip level file: ${error instanceof Error ? error.message : 'Unknown error'}. The file may be corrupted or too large.`);
+      }
+    }
     
-    console.log(`API: Received image data, Size: ${arrayBuffer.byteLength}`);
+    console.log(`API: Received ${hdrInput ? 'HDR ' : ''}image data, Size: ${arrayBuffer.byteLength}`);
     
     // Validate and prepare enhanced compression settings
     const compressionSettings: KTX2CompressionSettings = {
@@ -399,8 +502,17 @@ textureRoutes.post('/image-to-ktx2', async (c) => {
       useZstandard: true
     };
     
-    // Override format if provided
-    if (formatParam) {
+    // Override format if provided; HDR input defaults to UASTC HDR
+    if (formatParam === 'UASTC_HDR' || (!formatParam && hdrInput)) {
+      compressionSettings.format = KTX2TranscoderFormat.UASTC_HDR_4x4;
+      compressionSettings.basisUniversalMode = undefined;
+      console.log(`API: Using HDR format: ${compressionSettings.format}`);
+    } else if (formatParam === 'R16G16B16A16_SFLOAT') {
+      compressionSettings.format = undefined;
+      compressionSettings.basisUniversalMode = undefined;
+      compressionSettings.hdrUncompressed = true;
+      console.log("API: Using uncompressed HDR format: R16G16B16A16_SFLOAT");
+    } else if (formatParam) {
       const newFormat = validateFormat(formatParam);
       compressionSettings.format = newFormat;
       compressionSettings.basisUniversalMode = newFormat === KTX2TranscoderFormat.UASTC_4x4 ? 'UASTC' : 'ETC1S';
@@ -420,6 +532,16 @@ textureRoutes.post('/image-to-ktx2', async (c) => {
       }
     }
 
+    // Resize policy (maxDimension, powerOfTwo, resizeFilter)
+    compressionSettings.resize = readResizeOptions(formData);
+
+    // Mip chain control
+    if (mipLevelImages.length > 0) {
+      compressionSettings.mipLevelImages = mipLevelImages;
+      console.log(`API: Using ${mipLevelImages.length} pre-authored mip level(s)`);
+    }
+    Object.assign(compressionSettings, readMipChainOptions(formData));
+
     console.log("API: Starting enhanced image to KTX2 conversion...");
     
     // Compress image to KTX2 with custom settings
@@ -443,13 +565,19 @@ textureRoutes.post('/image-to-ktx2', async (c) => {
         'X-Compression-Ratio': compressionResult.compressionRatio.toFixed(2) + '%',
         'X-Compression-Savings': (compressionResult.originalSize - compressionResult.compressedSize).toString(),
         'X-Output-Format': 'KTX2',
-        'X-Basis-Mode': compressionSettings.basisUniversalMode || 'ETC1S',
-        'X-Format': compressionSettings.format || 'ETC1S',
+        'X-Basis-Mode': hdrInput ? (compressionSettings.hdrUncompressed ? 'NONE' : 'UASTC_HDR') : compressionSettings.basisUniversalMode || 'ETC1S',
+        'X-Format': compressionResult.format || compressionSettings.format || 'ETC1S',
+        'X-VK-Format': compressionResult.vkFormat || '',
+        'X-HDR': hdrInput.toString(),
         'X-Quality': compressionSettings.quality?.toString() || '100',
         'X-Generate-Mipmaps': compressionSettings.generateMipmaps?.toString() || 'true',
         'X-Use-Zstandard': compressionSettings.useZstandard?.toString() || 'true',
         'X-OETF': compressionSettings.oetf || 'srgb',
-        'X-Custom-Basis-Params': (compressionSettings.basisParams || compressionSettings.customBasisParams) ? 'true' : 'false'
+        'X-Custom-Basis-Params': (compressionSettings.basisParams || compressionSettings.customBasisParams) ? 'true' : 'false',
+        'X-Texture-Size': `${compressionResult.width}x${compressionResult.height}`,
+        'X-Source-Size': `${compressionResult.sourceWidth}x${compressionResult.sourceHeight}`,
+        'X-Mip-Levels': (compressionResult.mipLevels ?? 1).toString(),
+        'X-Supplied-Mip-Levels': (compressionResult.suppliedMipLevels ?? 0).toString()
       },
     });
     
@@ -466,10 +594,14 @@ textureRoutes.post('/image-to-ktx2', async (c) => {
       if (errorMsg.includes('content-type') || errorMsg.includes('multipart/form-data')) {
         statusCode = 400;
         errorCategory = "Bad Request - Invalid Content-Type";
-      } else if (errorMsg.includes('no image file') || errorMsg.includes('invalid image field') || errorMsg.includes('empty image file')) {
+      } else if (errorMsg.includes('no image file') || errorMsg.includes('invalid image field') || errorMsg.includes('empty image file') || errorMsg.includes('invalid mip level')) {
         statusCode = 400;
         errorCategory = "Bad Request - Missing or Invalid File";
-      } else if (errorMsg.includes('basisparams') || errorMsg.includes('format') || errorMsg.includes('flipy')) {
+      } else if (errorMsg.includes('radiance hdr') || errorMsg.includes('openexr')) {
+        statusCode = 422;
+        errorCategory = "Unprocessable Entity - HDR Decoding Error";
+      } else if (errorMsg.includes('basisparams') || errorMsg.includes('format') || errorMsg.includes('flipy') || isResizeParameterError(errorMsg) ||
+                 errorMsg.includes('minmipsize') || errorMsg.includes('alphacoverage') || errorMsg.includes('alphacutoff') || errorMsg.includes('invalid hdr input')) {
         statusCode = 400;
         errorCategory = "Bad Request - Invalid Parameters";
       } else if (errorMsg.includes('arrayBuffer') || errorMsg.includes('corrupted') || errorMsg.includes('too large')) {
@@ -486,10 +618,191 @@ textureRoutes.post('/image-to-ktx2', async (c) => {
         details: {
           endpoint: "/texture/image-to-ktx2",
           expectedContentType: "multipart/form-data",
-          requiredFields: ["image (File)"],
-          optionalFields: ["format (string: 'ETC1S' or 'UASTC')", "basisParams (JSON string)"],
+          requiredFields: ["image (File; repeat the field to add pre-authored mip levels)"],
+          optionalFields: ["format (string: 'ETC1S' or 'UASTC'; 'UASTC_HDR' or 'R16G16B16A16_SFLOAT' for HDR images)", "basisParams (JSON string)", "minMipSize (integer)", "preserveAlphaCoverage (boolean)", "alphaCutoff (number, 0-1)"],
           exampleUsage: "Send multipart form with 'image' file field and optional 'format' and 'basisParams' fields",
-          supportedImageTypes: ["PNG", "JPG", "JPEG", "WebP", "BMP", "TIFF"]
+          supportedImageTypes: ["PNG", "JPG", "JPEG", "WebP", "BMP", "TIFF", "HDR (Radiance)", "EXR (OpenEXR, scanline)"]
+        },
+        troubleshooting: getTroubleshootingTips(error instanceof Error ? error : new Error(String(error))),
+        timestamp: new Date().toISOString()
+      },
+      statusCode as 400 | 422 | 500
+    );
+  }
+});
+
+/**
+ * POST /texture/cubemap-to-ktx2 - Compress several images into one cubemap, array or 3D KTX2 texture
+ * Expects multipart/form-data with:
+ *    - type: "cubemap", "array" or "3d" (optional, default: "cubemap")
+ *    - Cubemap faces as 'px', 'nx', 'py', 'ny', 'pz', 'nz' files, or six 'images' files in +X, -X, +Y, -Y, +Z, -Z order
+ *    - Or, for cubemaps, one 'equirect' file with faceSize (face side in pixels) to project a 2:1 panorama
+ *    - Array layers or 3D depth slices as repeated 'images' files, in order
+ *    - format: "ETC1S" or "UASTC" (optional, default: "ETC1S")
+ *    - oetf: "srgb" or "linear" (optional, default: "srgb")
+ *    - flipY: boolean (optional, default: false)
+ *    - basisParams: JSON object with compression settings (optional)
+ *    - maxDimension, powerOfTwo, resizeFilter: resize policy (optional, see /png-to-ktx2; applies to faceSize too)
+ *    - minMipSize, preserveAlphaCoverage, alphaCutoff: mip chain options (optional, see /image-to-ktx2)
+ */
+textureRoutes.post('/cubemap-to-ktx2', async (c) => {
+  console.log("API: Starting cubemap/array to KTX2 compression endpoint");
+
+  try {
+    const contentType = c.req.header('content-type');
+    validateContentType(contentType, ['multipart/form-data']);
+
+    const formData = await c.req.formData();
+    const typeParam = (formData.get('type') as string) || 'cubemap';
+    if (!MULTI_IMAGE_TEXTURE_TYPES.includes(typeParam as KTX2TextureType)) {
+      throw new Error(`Invalid type: ${typeParam}. Must be 'cubemap', 'array' or '3d'`);
+    }
+    const textureType = typeParam as KTX2TextureType;
+
+    // Collect the images in slice order
+    let files: File[];
+    let faceSize: number | undefined = undefined;
+    const faceFields = CUBEMAP_FACE_FIELDS.filter(field => formData.get(field));
+    if (formData.get('equirect')) {
+      const faceSizeParam = formData.get('faceSize') as string;
+      if (!faceSizeParam) {
+        throw new Error("Invalid faceSize: required with an 'equirect' image");
+      }
+      faceSize = Number(faceSizeParam);
+      files = [validateFileObject(formData.get('equirect'), 'equirect')];
+    } else if (faceFields.length > 0) {
+      if (faceFields.length !== CUBEMAP_FACE_FIELDS.length) {
+        const missing = CUBEMAP_FACE_FIELDS.filter(field => !faceFields.includes(field));
+        throw new Error(`Invalid image count: missing cubemap faces ${missing.join(', ')}`);
+      }
+      files = CUBEMAP_FACE_FIELDS.map(field => validateFileObject(formData.get(field), field));
+    } else {
+      files = formData.getAll('images').map(file => validateFileObject(file, 'images'));
+      if (files.length === 0) {
+        throw new Error("No images file provided in form data. Include cubemap faces as 'px'...'nz', an 'equirect' image, or layers as repeated 'images' fields.");
+      }
+    }
+
+    const compressionSettings: KTX2CompressionSettings = {
+      format: KTX2TranscoderFormat.ETC1S,
+      basisUniversalMode: 'ETC1S',
+      quality: 100,
+      oetf: 'srgb',
+      generateMipmaps: true,
+      useZstandard: true,
+      flipY: false,
+      textureType,
+      faceSize
+    };
+
+    const formatParam = formData.get('format') as string;
+    if (formatParam) {
+      compressionSettings.format = validateFormat(formatParam);
+      compressionSettings.basisUniversalMode = compressionSettings.format === KTX2TranscoderFormat.UASTC_4x4 ? 'UASTC' : 'ETC1S';
+    }
+    const oetfParam = formData.get('oetf') as string;
+    if (oetfParam) {
+      if (oetfParam !== 'srgb' && oetfParam !== 'linear') {
+        throw new Error(`Invalid oetf: ${oetfParam}. Must be 'srgb' or 'linear'`);
+      }
+      compressionSettings.oetf = oetfParam;
+    }
+    const flipYParam = formData.get('flipY') as string;
+    if (flipYParam) {
+      compressionSettings.flipY = validateFlipY(flipYParam);
+    }
+    const basisParamsParam = formData.get('basisParams') as string;
+    if (basisParamsParam) {
+      compressionSettings.basisParams = validateAndParseBasisParams(basisParamsParam);
+    }
+    compressionSettings.resize = readResizeOptions(formData);
+    Object.assign(compressionSettings, readMipChainOptions(formData));
+
+    const arrayBuffers: ArrayBuffer[] = [];
+    for (const file of files) {
+      try {
+        arrayBuffers.push(await file.arrayBuffer());
+      } catch (error) {
+        throw new Error(`Failed to read image file ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}. The file may be corrupted or too large.`);
+      }
+    }
+    console.log(`API: Received ${arrayBuffers.length} image(s) for ${textureType}${faceSize ? ` (equirectangular, face size ${faceSize})` : ''}: ${files.map(file => file.name).join(', ')}`);
+
+    const compressionResult = await compressImagesToKTX2(arrayBuffers, compressionSettings);
+
+    console.log("API: Cubemap/array to KTX2 conversion completed");
+    console.log("API: Original size:", compressionResult.originalSize);
+    console.log("API: Compressed size:", compressionResult.compressedSize);
+
+    return new Response(compressionResult.buffer, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': compressionResult.compressedSize.toString(),
+        'Access-Control-Allow-Origin': '*',
+        'X-Original-Size': compressionResult.originalSize.toString(),
+        'X-Compressed-Size': compressionResult.compressedSize.toString(),
+        'X-Compression-Ratio': compressionResult.compressionRatio.toFixed(2) + '%',
+        'X-Output-Format': 'KTX2',
+        'X-Format': compressionSettings.format || 'ETC1S',
+        'X-OETF': compressionSettings.oetf || 'srgb',
+        'X-Texture-Type': textureType,
+        'X-Slice-Count': (compressionResult.sliceCount ?? arrayBuffers.length).toString(),
+        'X-Texture-Size': `${compressionResult.width}x${compressionResult.height}`,
+        'X-Source-Size': `${compressionResult.sourceWidth}x${compressionResult.sourceHeight}`,
+        'X-Mip-Levels': (compressionResult.mipLevels ?? 1).toString()
+      },
+    });
+
+  } catch (error) {
+    console.error("API: Cubemap/array to KTX2 compression failed:", error);
+
+    let statusCode = 500;
+    let errorCategory = "Internal Server Error";
+
+    if (error instanceof Error) {
+      const errorMsg = error.message.toLowerCase();
+      if (errorMsg.includes('content-type')) {
+        statusCode = 400;
+        errorCategory = "Bad Request - Invalid Content-Type";
+      } else if (errorMsg.includes('file provided') || errorMsg.includes('field type') || errorMsg.includes('invalid image count')) {
+        statusCode = 400;
+        errorCategory = "Bad Request - Missing or Invalid File";
+      } else if (errorMsg.includes('invalid type') || errorMsg.includes('invalid facesize') || errorMsg.includes('invalid oetf') ||
+                 errorMsg.includes('basisparams') || errorMsg.includes('invalid format') || errorMsg.includes('flipy') || isResizeParameterError(errorMsg) ||
+                 errorMsg.includes('minmipsize') || errorMsg.includes('alphacoverage') || errorMsg.includes('alphacutoff')) {
+        statusCode = 400;
+        errorCategory = "Bad Request - Invalid Parameters";
+      } else if (errorMsg.includes('mismatch') || errorMsg.includes('must be square') || errorMsg.includes('image dimensions') ||
+                 errorMsg.includes('aspect ratio') || errorMsg.includes('corrupted') || errorMsg.includes('too large') || errorMsg.includes('hdr input')) {
+        statusCode = 422;
+        errorCategory = "Unprocessable Entity - File Processing Error";
+      }
+    }
+
+    return c.json(
+      {
+        message: "Cubemap/array to KTX2 compression failed",
+        category: errorCategory,
+        error: error instanceof Error ? error.message : "Unknown error",
+        details: {
+          endpoint: "/texture/cubemap-to-ktx2",
+          expectedContentType: "multipart/form-data",
+          requiredFields: [
+            "px, nx, py, ny, pz, nz (Files), or six 'images' Files (cubemap)",
+            "equirect (File) with faceSize (cubemap from a panorama)",
+            "images (repeated Files, for array and 3d)"
+          ],
+          optionalFields: [
+            "type (string: 'cubemap', 'array' or '3d')",
+            "format (string: 'ETC1S' or 'UASTC')",
+            "oetf (string: 'srgb' or 'linear')",
+            "flipY (string: 'true' or 'false')",
+            "basisParams (JSON string)",
+            "minMipSize (integer)",
+            "preserveAlphaCoverage (boolean)",
+            "alphaCutoff (number, 0-1)"
+          ]
         },
         troubleshooting: getTroubleshootingTips(error instanceof Error ? error : new Error(String(error))),
         timestamp: new Date().toISOString()
@@ -508,6 +821,8 @@ textureRoutes.post('/image-to-ktx2', async (c) => {
  *    - format: "ETC1S" or "UASTC" (optional, default: "ETC1S")
  *    - flipY: boolean (optional, default: true)
  *    - basisParams: JSON object with compression settings (optional)
+ *    - colorSpaceOverrides: JSON object mapping texture names, URIs or roles to "srgb" or "linear" (optional)
+ *    - maxDimension, powerOfTwo, roleLimits, resizeFilter: resize policy (optional, see /png-to-ktx2)
  */
 textureRoutes.post('/glb-textures', async (c) => {
   console.log("API: Starting enhanced GLB texture compression endpoint");
@@ -518,6 +833,8 @@ textureRoutes.post('/glb-textures', async (c) => {
     let format = KTX2TranscoderFormat.ETC1S; // Default format for better compression
     let flipY = true; // Default flipY for GLB compatibility
     let basisParams: any = undefined;
+    let colorSpaceOverrides: ColorSpaceOverrides | undefined = undefined;
+    let resize: Partial<TextureResizeOptions> | undefined = undefined;
 
     // Log the incoming content type for debugging
     console.log("API: GLB endpoint Content-Type:", contentType);
@@ -533,6 +850,7 @@ textureRoutes.post('/glb-textures', async (c) => {
       const formatParam = formData.get('format') as string;
       const flipYParam = formData.get('flipY') as string;
       const basisParamsParam = formData.get('basisParams') as string;
+      const colorSpaceOverridesParam = formData.get('colorSpaceOverrides') as string;
 
       // Log FormData contents for debugging
       console.log("API: GLB endpoint FormData contents:");
@@ -564,6 +882,14 @@ textureRoutes.post('/glb-textures', async (c) => {
         }
       }
 
+      // Validate and set colorSpaceOverrides
+      if (colorSpaceOverridesParam) {
+        colorSpaceOverrides = validateColorSpaceOverrides(colorSpaceOverridesParam);
+      }
+
+      // Resize policy (maxDimension, powerOfTwo, roleLimits, resizeFilter)
+      resize = readResizeOptions(formData);
+
       // Convert File to ArrayBuffer with error handling
       try {
         arrayBuffer = await glbFile.arrayBuffer();
@@ -611,7 +937,9 @@ textureRoutes.post('/glb-textures', async (c) => {
       basisParams: basisParams,
       generateMipmaps: true,
       useZstandard: true,
-      oetf: 'srgb'
+      oetf: 'srgb',
+      colorSpaceOverrides: colorSpaceOverrides,
+      resize: resize
     });
     
     console.log("API: Enhanced GLB texture compression completed");
@@ -620,23 +948,28 @@ textureRoutes.post('/glb-textures', async (c) => {
     console.log("API: Compression ratio:", compressionResult.compressionRatio.toFixed(2) + "%");
     console.log("API: Textures processed:", compressionResult.texturesProcessed);
     
+    const responseHeaders: Record<string, string> = {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': compressionResult.buffer.byteLength.toString(),
+      'Access-Control-Allow-Origin': '*',
+      'X-Original-Size': compressionResult.originalSize.toString(),
+      'X-Compressed-Size': compressionResult.compressedSize.toString(),
+      'X-Compression-Ratio': compressionResult.compressionRatio.toFixed(2) + '%',
+      'X-Compression-Savings': (compressionResult.originalSize - compressionResult.compressedSize).toString(),
+      'X-Textures-Processed': compressionResult.texturesProcessed?.toString() || '0',
+      'X-Format': format === KTX2TranscoderFormat.ETC1S ? 'ETC1S' : 'UASTC',
+      'X-FlipY': flipY.toString(),
+      'X-Custom-Basis-Params': basisParams ? 'true' : 'false',
+      'X-Output-Format': 'GLB-with-KTX2'
+    };
+    if (compressionResult.textures && compressionResult.textures.length > 0) {
+      setReportListHeader(responseHeaders, 'X-Texture-Roles', compressionResult.textures);
+    }
+
     // Return compressed GLB data
     return new Response(compressionResult.buffer, {
       status: 200,
-      headers: {
-        'Content-Type': 'application/octet-stream',
-        'Content-Length': compressionResult.buffer.byteLength.toString(),
-        'Access-Control-Allow-Origin': '*',
-        'X-Original-Size': compressionResult.originalSize.toString(),
-        'X-Compressed-Size': compressionResult.compressedSize.toString(),
-        'X-Compression-Ratio': compressionResult.compressionRatio.toFixed(2) + '%',
-        'X-Compression-Savings': (compressionResult.originalSize - compressionResult.compressedSize).toString(),
-        'X-Textures-Processed': compressionResult.texturesProcessed?.toString() || '0',
-        'X-Format': format === KTX2TranscoderFormat.ETC1S ? 'ETC1S' : 'UASTC',
-        'X-FlipY': flipY.toString(),
-        'X-Custom-Basis-Params': basisParams ? 'true' : 'false',
-        'X-Output-Format': 'GLB-with-KTX2'
-      },
+      headers: responseHeaders,
     });
     
   } catch (error) {
@@ -655,7 +988,7 @@ textureRoutes.post('/glb-textures', async (c) => {
       } else if (errorMsg.includes('no glb file') || errorMsg.includes('invalid glb field') || errorMsg.includes('empty glb file')) {
         statusCode = 400;
         errorCategory = "Bad Request - Missing or Invalid File";
-      } else if (errorMsg.includes('basisparams') || errorMsg.includes('format') || errorMsg.includes('flipy')) {
+      } else if (errorMsg.includes('basisparams') || errorMsg.includes('format') || errorMsg.includes('flipy') || isResizeParameterError(errorMsg)) {
         statusCode = 400;
         errorCategory = "Bad Request - Invalid Parameters";
       } else if (errorMsg.includes('arrayBuffer') || errorMsg.includes('corrupted') || errorMsg.includes('too large')) {
@@ -694,6 +1027,191 @@ textureRoutes.post('/glb-textures', async (c) => {
   }
 });
 
+/**
+ * POST /texture/inspect - Parse KTX2 container metadata
+ * Accepts a KTX2 file, or a GLB whose KTX2 textures are inspected in place:
+ *    - multipart/form-data with a 'file' field (or 'ktx2' / 'glb')
+ *    - application/octet-stream with the raw file
+ * Reports vkFormat, supercompression scheme, levels, the DFD color model and transfer function,
+ * KTXorientation/KTXwriter and whether the payload is ETC1S or UASTC. Nothing is transcoded.
+ */
+textureRoutes.post('/inspect', async (c) => {
+  console.log("API: Starting KTX2 inspection endpoint");
+
+  try {
+    const { arrayBuffer } = await readKTX2OrGLBUpload(c, 'inspect');
+    verifyInputType(arrayBuffer, "Inspection");
+
+    if (isKTX2(arrayBuffer)) {
+      const texture = inspectKTX2(arrayBuffer);
+      console.log(`API: KTX2 ${texture.pixelWidth}x${texture.pixelHeight}, ${texture.vkFormatName}, ${texture.levels.length} levels, supercompression ${texture.supercompressionScheme}`);
+      return c.json({ type: 'ktx2', texture });
+    }
+
+    if (!hasGLBMagic(arrayBuffer)) {
+      throw new Error('Unrecognized input: expected a KTX2 file or a GLB');
+    }
+
+    const textures = await inspectGLBTextures(arrayBuffer);
+    const ktx2Count = textures.filter(texture => texture.mimeType === 'image/ktx2').length;
+    console.log(`API: GLB with ${textures.length} textures, ${ktx2Count} KTX2`);
+    return c.json({ type: 'glb', textureCount: textures.length, ktx2Count, textures });
+
+  } catch (error) {
+    console.error("API: KTX2 inspection failed:", error);
+
+    const errorMsg = error instanceof Error ? error.message.toLowerCase() : '';
+    const isBadRequest = errorMsg.includes('content-type') || errorMsg.includes('file provided') ||
+      errorMsg.includes('field type') || errorMsg.includes('invalid ktx2 file') || errorMsg.includes('unrecognized input');
+
+    return c.json(
+      {
+        message: "KTX2 inspection failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+        details: {
+          endpoint: "/texture/inspect",
+          supportedContentTypes: [
+            "multipart/form-data (with 'file' field)",
+            "application/octet-stream (raw KTX2 or GLB data)"
+          ]
+        },
+        timestamp: new Date().toISOString()
+      },
+      isBadRequest ? 400 : 500
+    );
+  }
+});
+
+/**
+ * POST /texture/ktx2-to-png - Decode KTX2 to PNG for previews
+ * Accepts a KTX2 file, or a GLB whose KTX2 textures are all decoded and returned as a ZIP:
+ *    - multipart/form-data with a 'file' field (or 'ktx2' / 'glb')
+ *    - application/octet-stream with the raw file
+ * Optional parameters (form fields or query string):
+ *    - level: mip level to decode (default: 0); GLB textures with fewer levels use their smallest one
+ *    - flipY: "true" to flip rows back for textures compressed with flipY (default: "false")
+ */
+textureRoutes.post('/ktx2-to-png', async (c) => {
+  console.log("API: Starting KTX2 to PNG endpoint");
+
+  try {
+    const { arrayBuffer, getParam } = await readKTX2OrGLBUpload(c, 'ktx2-to-png');
+    verifyInputType(arrayBuffer, "KTX2 to PNG");
+
+    let level = 0;
+    const levelParam = getParam('level');
+    if (levelParam) {
+      level = Number(levelParam);
+      if (!Number.isInteger(level) || level < 0) {
+        throw new Error(`Invalid level: ${levelParam}. Must be a non-negative integer`);
+      }
+    }
+    const flipYParam = getParam('flipY');
+    const flipY = flipYParam ? validateFlipY(flipYParam) : false;
+    console.log(`API: Parameters - Level: ${level}, FlipY: ${flipY}`);
+
+    if (isKTX2(arrayBuffer)) {
+      const result = await transcodeKTX2ToPNG(arrayBuffer, { level, flipY });
+      return new Response(result.buffer, {
+        status: 200,
+        headers: {
+          'Content-Type': 'image/png',
+          'Content-Length': result.buffer.byteLength.toString(),
+          'Access-Control-Allow-Origin': '*',
+          'X-Texture-Size': `${result.width}x${result.height}`,
+          'X-Mip-Level': result.level.toString(),
+          'X-Level-Count': result.levelCount.toString(),
+          'X-Transcoded': result.transcoded.toString(),
+          'X-FlipY': flipY.toString()
+        },
+      });
+    }
+
+    if (!hasGLBMagic(arrayBuffer)) {
+      throw new Error('Unrecognized input: expected a KTX2 file or a GLB');
+    }
+
+    const textures = await transcodeGLBTexturesToPNG(arrayBuffer, { level, flipY });
+    const decoded = textures.filter(entry => entry.result);
+    if (textures.length === 0) {
+      throw new Error('Unprocessable input: the GLB has no KTX2 textures');
+    }
+
+    // File names follow the texture names, numbered when names repeat or are unsafe
+    const usedNames = new Set<string>();
+    const report = textures.map((entry, index) => {
+      let file: string | undefined;
+      if (entry.result) {
+        const baseName = entry.texture.replace(/[^\w.-]+/g, '_') || `texture_${index}`;
+        file = usedNames.has(`${baseName}.png`) ? `${baseName}_${index}.png` : `${baseName}.png`;
+        usedNames.add(file);
+      }
+      return {
+        texture: entry.texture,
+        role: entry.role,
+        slots: entry.slots,
+        file,
+        width: entry.result?.width,
+        height: entry.result?.height,
+        level: entry.result?.level,
+        levelCount: entry.result?.levelCount,
+        error: entry.error
+      };
+    });
+
+    const archive = createZipArchive([
+      ...report.flatMap((entry, index) => entry.file ? [{ name: entry.file, data: new Uint8Array(textures[index].result!.buffer) }] : []),
+      { name: 'report.json', data: new TextEncoder().encode(JSON.stringify({ level, flipY, textures: report }, null, 2)) }
+    ]);
+    console.log(`API: Decoded ${decoded.length}/${textures.length} KTX2 textures, ZIP size: ${archive.byteLength}`);
+
+    return new Response(archive, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Length': archive.byteLength.toString(),
+        'Content-Disposition': 'attachment; filename="textures.zip"',
+        'Access-Control-Allow-Origin': '*',
+        'X-Textures-Processed': decoded.length.toString(),
+        'X-FlipY': flipY.toString()
+      },
+    });
+
+  } catch (error) {
+    console.error("API: KTX2 to PNG failed:", error);
+
+    const errorMsg = error instanceof Error ? error.message.toLowerCase() : '';
+    let statusCode = 500;
+    if (errorMsg.includes('content-type') || errorMsg.includes('file provided') || errorMsg.includes('field type') ||
+        errorMsg.includes('invalid ktx2 file') || errorMsg.includes('unrecognized input') || errorMsg.includes('invalid level') ||
+        errorMsg.includes('invalid flipy')) {
+      statusCode = 400;
+    } else if (errorMsg.includes('unsupported ktx2 format') || errorMsg.includes('unprocessable input')) {
+      statusCode = 422;
+    }
+
+    return c.json(
+      {
+        message: "KTX2 to PNG failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+        details: {
+          endpoint: "/texture/ktx2-to-png",
+          supportedContentTypes: [
+            "multipart/form-data (with 'file' field)",
+            "application/octet-stream (raw KTX2 or GLB data)"
+          ],
+          optionalFields: [
+            "level (non-negative integer)",
+            "flipY (string: 'true' or 'false')"
+          ]
+        },
+        timestamp: new Date().toISOString()
+      },
+      statusCode as 400 | 422 | 500
+    );
+  }
+});
+
 /**
  * GET /texture/health - Texture compression health check
  */
@@ -703,12 +1221,12 @@ textureRoutes.get('/health', (c) => {
     timestamp: new Date().toISOString(),
     service: 'texture-compression',
     formats: {
-      input: ['PNG', 'JPG', 'JPEG', 'WebP', 'GLB'],
-      output: ['KTX2', 'GLB-with-KTX2']
+      input: ['PNG', 'JPG', 'JPEG', 'WebP', 'HDR', 'EXR', 'GLB'],
+      output: ['KTX2', 'GLB-with-KTX2', 'PNG']
     },
     compression: {
-      modes: ['ETC1S', 'UASTC'],
-      formats: ['ETC1S', 'UASTC_4x4'],
+      modes: ['ETC1S', 'UASTC', 'UASTC_HDR'],
+      formats: ['ETC1S', 'UASTC_4x4', 'UASTC_HDR_4x4', 'R16G16B16A16_SFLOAT'],
       customizable: true,
       defaultSettings: {
         format: 'ETC1S',
@@ -725,8 +1243,11 @@ textureRoutes.get('/health', (c) => {
     },
     endpoints: {
       'png-to-ktx2': 'Backward compatible PNG compression (supports optional format & basisParams)',
-      'image-to-ktx2': 'Enhanced image compression with full customization',
-      'glb-textures': 'GLB texture compression'
+      'image-to-ktx2': 'Enhanced image compression with full customization; Radiance .hdr and OpenEXR to UASTC HDR or R16G16B16A16_SFLOAT',
+      'cubemap-to-ktx2': 'Cubemap (six faces or an equirectangular image), array or 3D texture compression',
+      'glb-textures': 'GLB texture compression',
+      'inspect': 'KTX2 container metadata for a KTX2 file or the KTX2 textures of a GLB',
+      'ktx2-to-png': 'PNG preview of a KTX2 file, or a ZIP of PNGs for the KTX2 textures of a GLB'
     }
   });
 });
@@ -0,0 +1,5 @@
+// Type definitions for draco3d (full build, used to decode point clouds)
+declare module 'draco3d' {
+  export function createEncoderModule(config?: any): Promise<any>;
+  export function createDecoderModule(config?: any): Promise<any>;
+}
@@ -10,6 +10,55 @@ const GLB_VERSION = 2;
 const GLB_CHUNK_TYPE_JSON = 0x4E4F534A; // "JSON" in little-endian
 const GLB_CHUNK_TYPE_BIN = 0x004E4942; // "BIN\0" in little-endian
 
+/**
+ * Accessor element and component sizes, to size accessors from the JSON alone
+ */
+const ACCESSOR_TYPE_SIZES: Record<string, number> = { SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4, MAT2: 4, MAT3: 9, MAT4: 16 };
+const COMPONENT_TYPE_SIZES: Record<number, number> = { 5120: 1, 5121: 1, 5122: 2, 5123: 2, 5125: 4, 5126: 4 };
+
+/**
+ * Mesh reuse across nodes, i.e. what GPU instancing (EXT_mesh_gpu_instancing) could collapse
+ */
+export interface InstancingAnalysis {
+  reusedMeshCount: number; // Meshes referenced by more than one node
+  instanceableNodeCount: number; // Nodes referencing a reused mesh
+  potentialDrawCallSavings: number; // Draw calls saved if every reused mesh became one batch
+}
+
+/**
+ * Reference to one primitive of a mesh
+ */
+export interface PrimitiveReference {
+  mesh: string; // Mesh name, or "mesh_<index>" when unnamed
+  primitive: number;
+}
+
+/**
+ * Triangle primitives lacking the vertex attributes they need for correct shading
+ */
+export interface VertexAttributeAnalysis {
+  primitivesMissingNormals: PrimitiveReference[];
+  primitivesMissingTangents: PrimitiveReference[]; // Only primitives whose material has a normal map
+}
+
+/**
+ * POINTS primitives (point clouds such as lidar scans)
+ */
+export interface PointCloudAnalysis {
+  primitiveCount: number;
+  pointCount: number; // Sum of POSITION counts
+}
+
+/**
+ * Animation data stored in the file
+ */
+export interface AnimationAnalysis {
+  animationCount: number;
+  channelCount: number;
+  keyframeCount: number; // Sum of sampler keyframe counts
+  byteSize: number; // Sampler input and output accessors, shared accessors counted once
+}
+
 /**
  * Interface for GLB analysis results
  */
@@ -17,6 +66,7 @@ export interface GLBAnalysis {
   isValid: boolean;
   hasTextures: boolean;
   hasDracoCompression: boolean;
+  hasMeshoptCompression: boolean;
   hasMeshes: boolean;
   hasAnimations: boolean;
   extensionsUsed: string[];
@@ -24,6 +74,10 @@ export interface GLBAnalysis {
   textureCount: number;
   meshCount: number;
   nodeCount: number;
+  instancing: InstancingAnalysis;
+  vertexAttributes: VertexAttributeAnalysis;
+  pointCloud: PointCloudAnalysis;
+  animation: AnimationAnalysis;
   fileSize: number;
   estimatedUncompressedSize?: number;
 }
@@ -86,6 +140,107 @@ function parseGLBToJSON(buffer: ArrayBuffer): any | null {
   }
 }
 
+/**
+ * Count nodes sharing a mesh. Skinned and already-instanced nodes are not candidates.
+ * @param gltf Parsed glTF JSON
+ * @returns Instancing analysis
+ */
+function analyzeMeshReuse(gltf: any): InstancingAnalysis {
+  const nodesPerMesh = new Map<number, number>();
+
+  for (const node of gltf.nodes || []) {
+    if (node.mesh === undefined || node.skin !== undefined) continue;
+    if (node.extensions && node.extensions.EXT_mesh_gpu_instancing) continue;
+    nodesPerMesh.set(node.mesh, (nodesPerMesh.get(node.mesh) || 0) + 1);
+  }
+
+  const analysis: InstancingAnalysis = { reusedMeshCount: 0, instanceableNodeCount: 0, potentialDrawCallSavings: 0 };
+  for (const [meshIndex, nodeCount] of nodesPerMesh.entries()) {
+    if (nodeCount < 2) continue;
+    const primitiveCount = gltf.meshes?.[meshIndex]?.primitives?.length || 1;
+    analysis.reusedMeshCount++;
+    analysis.instanceableNodeCount += nodeCount;
+    analysis.potentialDrawCallSavings += (nodeCount - 1) * primitiveCount;
+  }
+
+  return analysis;
+}
+
+/**
+ * Find triangle primitives without NORMAL, and normal-mapped ones without TANGENT
+ * @param gltf Parsed glTF JSON
+ * @returns Vertex attribute analysis
+ */
+function analyzeVertexAttributes(gltf: any): VertexAttributeAnalysis {
+  const analysis: VertexAttributeAnalysis = { primitivesMissingNormals: [], primitivesMissingTangents: [] };
+
+  (gltf.meshes || []).forEach((mesh: any, meshIndex: number) => {
+    (mesh.primitives || []).forEach((primitive: any, primitiveIndex: number) => {
+      // Mode defaults to TRIANGLES (4); points and lines are not lit with vertex normals
+      if (primitive.mode !== undefined && primitive.mode !== 4) return;
+      const attributes = primitive.attributes || {};
+      const reference = { mesh: mesh.name || `mesh_${meshIndex}`, primitive: primitiveIndex };
+
+      if (attributes.NORMAL === undefined) {
+        analysis.primitivesMissingNormals.push(reference);
+      }
+      const material = primitive.material !== undefined ? gltf.materials?.[primitive.material] : undefined;
+      if (material?.normalTexture && attributes.TANGENT === undefined) {
+        analysis.primitivesMissingTangents.push(reference);
+      }
+    });
+  });
+
+  return analysis;
+}
+
+/**
+ * Count POINTS primitives and their points
+ * @param gltf Parsed glTF JSON
+ * @returns Point cloud analysis
+ */
+function analyzePointClouds(gltf: any): PointCloudAnalysis {
+  const analysis: PointCloudAnalysis = { primitiveCount: 0, pointCount: 0 };
+
+  for (const mesh of gltf.meshes || []) {
+    for (const primitive of mesh.primitives || []) {
+      if (primitive.mode !== 0) continue;
+      analysis.primitiveCount++;
+      const position = primitive.attributes?.POSITION;
+      analysis.pointCount += position !== undefined ? gltf.accessors?.[position]?.count ?? 0 : 0;
+    }
+  }
+
+  return analysis;
+}
+
+/**
+ * Measure animation keyframes and the bytes their accessors take up
+ * @param gltf Parsed glTF JSON
+ * @returns Animation analysis
+ */
+function analyzeAnimations(gltf: any): AnimationAnalysis {
+  const analysis: AnimationAnalysis = { animationCount: gltf.animations?.length || 0, channelCount: 0, keyframeCount: 0, byteSize: 0 };
+  const accessors = new Set<number>();
+
+  for (const animation of gltf.animations || []) {
+    analysis.channelCount += animation.channels?.length || 0;
+    for (const sampler of animation.samplers || []) {
+      analysis.keyframeCount += gltf.accessors?.[sampler.input]?.count || 0;
+      accessors.add(sampler.input);
+      accessors.add(sampler.output);
+    }
+  }
+
+  for (const index of accessors) {
+    const accessor = gltf.accessors?.[index];
+    if (!accessor) continue;
+    analysis.byteSize += accessor.count * (ACCESSOR_TYPE_SIZES[accessor.type] || 1) * (COMPONENT_TYPE_SIZES[accessor.componentType] || 4);
+  }
+
+  return analysis;
+}
+
 /**
  * Analyze a GLB file to detect its current compression and optimization status
  * @param buffer GLB file as ArrayBuffer
@@ -101,6 +256,7 @@ export function analyzeGLB(buffer: ArrayBuffer): GLBAnalysis {
       isValid: false,
       hasTextures: false,
       hasDracoCompression: false,
+      hasMeshoptCompression: false,
       hasMeshes: false,
       hasAnimations: false,
       extensionsUsed: [],
@@ -108,6 +264,10 @@ export function analyzeGLB(buffer: ArrayBuffer): GLBAnalysis {
       textureCount: 0,
       meshCount: 0,
       nodeCount: 0,
+      instancing: { reusedMeshCount: 0, instanceableNodeCount: 0, potentialDrawCallSavings: 0 },
+      vertexAttributes: { primitivesMissingNormals: [], primitivesMissingTangents: [] },
+      pointCloud: { primitiveCount: 0, pointCount: 0 },
+      animation: { animationCount: 0, channelCount: 0, keyframeCount: 0, byteSize: 0 },
       fileSize: buffer.byteLength
     };
   }
@@ -160,6 +320,12 @@ export function analyzeGLB(buffer: ArrayBuffer): GLBAnalysis {
   
   console.log('GLB Analysis: Final Draco detection result:', hasDracoCompression);
 
+  // Detect meshopt compression (declared at the top level; buffer views carry the extension data)
+  const hasMeshoptCompression =
+    (Array.isArray(extensionsUsed) && extensionsUsed.includes('EXT_meshopt_compression')) ||
+    (Array.isArray(extensionsRequired) && extensionsRequired.includes('EXT_meshopt_compression'));
+  console.log('GLB Analysis: Meshopt detection result:', hasMeshoptCompression);
+
   // Count assets
   const textureCount = gltf.textures ? gltf.textures.length : 0;
   const meshCount = gltf.meshes ? gltf.meshes.length : 0;
@@ -169,11 +335,16 @@ export function analyzeGLB(buffer: ArrayBuffer): GLBAnalysis {
   const hasTextures = textureCount > 0;
   const hasMeshes = meshCount > 0;
   const hasAnimations = gltf.animations && gltf.animations.length > 0;
+  const instancing = analyzeMeshReuse(gltf);
+  const vertexAttributes = analyzeVertexAttributes(gltf);
+  const pointCloud = analyzePointClouds(gltf);
+  const animation = analyzeAnimations(gltf);
 
   const analysis: GLBAnalysis = {
     isValid: true,
     hasTextures,
     hasDracoCompression,
+    hasMeshoptCompression,
     hasMeshes,
     hasAnimations,
     extensionsUsed,
@@ -181,6 +352,10 @@ export function analyzeGLB(buffer: ArrayBuffer): GLBAnalysis {
     textureCount,
     meshCount,
     nodeCount,
+    instancing,
+    vertexAttributes,
+    pointCloud,
+    animation,
     fileSize: buffer.byteLength
   };
 
@@ -189,7 +364,12 @@ export function analyzeGLB(buffer: ArrayBuffer): GLBAnalysis {
     hasTextures: `${hasTextures} (${textureCount} textures)`,
     hasMeshes: `${hasMeshes} (${meshCount} meshes)`,
     hasDracoCompression,
+    hasMeshoptCompression,
     hasAnimations,
+    instancing: `${instancing.reusedMeshCount} reused meshes across ${instancing.instanceableNodeCount} nodes (${instancing.potentialDrawCallSavings} draw calls saveable)`,
+    vertexAttributes: `${vertexAttributes.primitivesMissingNormals.length} primitives missing normals, ${vertexAttributes.primitivesMissingTangents.length} missing tangents`,
+    pointCloud: `${pointCloud.primitiveCount} point primitives, ${pointCloud.pointCount} points`,
+    animation: `${animation.animationCount} animations, ${animation.keyframeCount} keyframes, ${animation.byteSize} bytes`,
     extensionsUsed: extensionsUsed.join(', ') || 'none',
     extensionsRequired: extensionsRequired.join(', ') || 'none'
   });
@@ -206,7 +386,7 @@ export interface CompressionStrategy {
   shouldCompressMesh: boolean;
   shouldCompressTextures: boolean;
   reason: string;
-  recommendedEndpoint: '/compress/mesh' | '/compress/textures' | '/compress/full';
+  recommendedEndpoint: '/compress/mesh' | '/compress/pointcloud' | '/compress/textures' | '/compress/full';
 }
 
 export function getOptimalCompressionStrategy(analysis: GLBAnalysis): CompressionStrategy {
@@ -219,27 +399,30 @@ export function getOptimalCompressionStrategy(analysis: GLBAnalysis): Compressio
     };
   }
 
-  // If already has Draco compression, only compress textures
-  if (analysis.hasDracoCompression && analysis.hasTextures) {
+  // Meshes compressed with either codec should not be compressed again
+  const meshCodec = analysis.hasDracoCompression ? 'Draco' : (analysis.hasMeshoptCompression ? 'meshopt' : null);
+
+  // If already has mesh compression, only compress textures
+  if (meshCodec && analysis.hasTextures) {
     return {
       shouldCompressMesh: false,
       shouldCompressTextures: true,
-      reason: 'File already has Draco mesh compression, only textures need compression',
+      reason: `File already has ${meshCodec} mesh compression, only textures need compression`,
       recommendedEndpoint: '/compress/textures'
     };
   }
 
-  // If has Draco but no textures, no further compression needed
-  if (analysis.hasDracoCompression && !analysis.hasTextures) {
+  // If has mesh compression but no textures, no further compression needed
+  if (meshCodec && !analysis.hasTextures) {
     return {
       shouldCompressMesh: false,
       shouldCompressTextures: false,
-      reason: 'File already has Draco compression and no textures to compress',
+      reason: `File already has ${meshCodec} compression and no textures to compress`,
       recommendedEndpoint: '/compress/full' // Will be a no-op but consistent
     };
   }
 
-  // If has both meshes and textures but no Draco, compress both
+  // If has both meshes and textures but no mesh compression, compress both
   if (analysis.hasMeshes && analysis.hasTextures) {
     return {
       shouldCompressMesh: true,
@@ -249,6 +432,16 @@ export function getOptimalCompressionStrategy(analysis: GLBAnalysis): Compressio
     };
   }
 
+  // Point clouds without textures get the point cloud preset
+  if (analysis.hasMeshes && !analysis.hasTextures && analysis.pointCloud.primitiveCount > 0) {
+    return {
+      shouldCompressMesh: true,
+      shouldCompressTextures: false,
+      reason: `File has ${analysis.pointCloud.pointCount} uncompressed points but no textures`,
+      recommendedEndpoint: '/compress/pointcloud'
+    };
+  }
+
   // If only has meshes, only compress meshes
   if (analysis.hasMeshes && !analysis.hasTextures) {
     return {
@@ -0,0 +1,47 @@
+/**
+ * Response headers for per-item compression reports
+ * Header values must be ByteStrings and proxies commonly limit a header to a few KB, so lists
+ * holding mesh and texture names are written as ASCII-only JSON within a byte budget
+ */
+
+// Byte budget of one report list header; the full reports are in the server log
+export const MAX_REPORT_HEADER_BYTES = 4096;
+
+/**
+ * Serialize a value as JSON with every non-ASCII character escaped as \uXXXX
+ * @param value - Value to serialize
+ * @returns ASCII JSON that JSON.parse() reads back to the original value
+ */
+export const toASCIIJSON = (value: unknown): string => {
+  return JSON.stringify(value).replace(/[\u007f-\uffff]/g, (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+};
+
+/**
+ * Set a header to a JSON array of report entries, keeping the leading entries that fit in the
+ * byte budget. When entries are left out, `<name>-Truncated` gives the total count.
+ * @param headers - Response headers to add to
+ * @param name - Header name
+ * @param entries - Report entries
+ * @param maxBytes - Byte budget of the header value
+ */
+export const setReportListHeader = (
+  headers: Record<string, string>,
+  name: string,
+  entries: unknown[],
+  maxBytes: number = MAX_REPORT_HEADER_BYTES
+): void => {
+  const kept: string[] = [];
+  let byteLength = 2; // Brackets
+  for (const entry of entries) {
+    const serialized = toASCIIJSON(entry);
+    const separator = kept.length > 0 ? 1 : 0;
+    if (byteLength + separator + serialized.length > maxBytes) break;
+    kept.push(serialized);
+    byteLength += separator + serialized.length;
+  }
+
+  headers[name] = `[${kept.join(',')}]`;
+  if (kept.length < entries.length) {
+    headers[`${name}-Truncated`] = entries.length.toString();
+  }
+};
@@ -0,0 +1,115 @@
+/**
+ * Minimal ZIP archive writer for bundling multiple output files in one response
+ * Entries are stored uncompressed (method 0): GLB and KTX2 payloads are already compressed.
+ */
+
+/**
+ * ZIP format constants
+ */
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP_VERSION = 20; // 2.0, minimum version for stored entries
+const UTF8_FILENAME_FLAG = 0x0800;
+
+/**
+ * Interface for a file to be added to the archive
+ */
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Compute the CRC-32 checksum required by each ZIP entry
+ */
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Create a ZIP archive from a list of entries
+ * @param entries Files to include in the archive
+ * @returns ZIP archive as ArrayBuffer
+ */
+export function createZipArchive(entries: ZipEntry[]): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const records = entries.map(entry => ({
+    name: encoder.encode(entry.name),
+    data: entry.data,
+    crc: crc32(entry.data),
+    offset: 0
+  }));
+
+  const localSize = records.reduce((sum, record) => sum + 30 + record.name.length + record.data.length, 0);
+  const centralSize = records.reduce((sum, record) => sum + 46 + record.name.length, 0);
+  const buffer = new ArrayBuffer(localSize + centralSize + 22);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  let offset = 0;
+
+  // Local file headers followed by file data
+  for (const record of records) {
+    record.offset = offset;
+    view.setUint32(offset, LOCAL_FILE_HEADER_SIGNATURE, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, UTF8_FILENAME_FLAG, true);
+    view.setUint16(offset + 8, 0, true); // Stored, no compression
+    view.setUint16(offset + 10, 0, true); // Modification time
+    view.setUint16(offset + 12, 0x21, true); // Modification date (1980-01-01)
+    view.setUint32(offset + 14, record.crc, true);
+    view.setUint32(offset + 18, record.data.length, true);
+    view.setUint32(offset + 22, record.data.length, true);
+    view.setUint16(offset + 26, record.name.length, true);
+    view.setUint16(offset + 28, 0, true); // Extra field length
+    bytes.set(record.name, offset + 30);
+    bytes.set(record.data, offset + 30 + record.name.length);
+    offset += 30 + record.name.length + record.data.length;
+  }
+
+  // Central directory
+  const centralOffset = offset;
+  for (const record of records) {
+    view.setUint32(offset, CENTRAL_DIRECTORY_SIGNATURE, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, ZIP_VERSION, true);
+    view.setUint16(offset + 8, UTF8_FILENAME_FLAG, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, 0, true);
+    view.setUint16(offset + 14, 0x21, true);
+    view.setUint32(offset + 16, record.crc, true);
+    view.setUint32(offset + 20, record.data.length, true);
+    view.setUint32(offset + 24, record.data.length, true);
+    view.setUint16(offset + 28, record.name.length, true);
+    // Extra field, comment, disk number, attributes: all zero
+    view.setUint32(offset + 42, record.offset, true);
+    bytes.set(record.name, offset + 46);
+    offset += 46 + record.name.length;
+  }
+
+  // End of central directory record
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  view.setUint16(offset + 8, records.length, true);
+  view.setUint16(offset + 10, records.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralOffset, true);
+
+  return buffer;
+}